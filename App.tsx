@@ -1,35 +1,38 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Header } from './components/Header';
 import AuthPage from './components/AuthPage';
 import VirtualTryOn from './components/VirtualTryOn';
-
-interface User {
-  name: string;
-  email: string;
-}
+import Spinner from './components/common/Spinner';
+import { getSession, logout } from './services/authClient';
+import { clearGenerationCache } from './services/generation/cache';
+import type { User } from './types';
 
 const App: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const isAuthenticated = currentUser !== null;
 
-  const handleLogin = () => {
-    const userJson = localStorage.getItem('currentUser');
-    if (userJson) {
-      try {
-        const user = JSON.parse(userJson);
-        setCurrentUser(user);
-        setIsAuthenticated(true);
-      } catch (e) {
-        console.error("Failed to parse user from localStorage", e);
-        localStorage.removeItem('currentUser');
-      }
-    }
+  useEffect(() => {
+    // The session cookie is HttpOnly; the server is the only source of truth.
+    getSession()
+      .then(setCurrentUser)
+      .catch(error => console.error("Failed to validate session", error))
+      .finally(() => setIsCheckingSession(false));
+  }, []);
+
+  const handleLogin = (user: User) => {
+    setCurrentUser(user);
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('currentUser');
-    setIsAuthenticated(false);
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (error) {
+      console.error("Failed to end session on the server", error);
+    }
+    // Cached try-ons contain this user's photo; the next user of the browser shouldn't keep them.
+    await clearGenerationCache().catch(error => console.warn("Could not clear the generation cache", error));
     setCurrentUser(null);
   };
 
@@ -37,10 +40,14 @@ const App: React.FC = () => {
     <div className="min-h-screen text-gray-100 font-sans">
       <Header isAuthenticated={isAuthenticated} onLogout={handleLogout} currentUser={currentUser} />
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {isAuthenticated ? (
+        {isCheckingSession ? (
+          <div className="flex justify-center py-20">
+            <Spinner />
+          </div>
+        ) : currentUser ? (
           <div className="fade-in">
             <div className="bg-gray-900/60 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl p-4 sm:p-6 lg:p-8">
-              <VirtualTryOn />
+              <VirtualTryOn userId={currentUser.id} />
             </div>
           </div>
         ) : (
@@ -1,6 +1,10 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Mail, Lock, User as UserIcon, AlertTriangle, CheckCircle } from 'lucide-react';
+import { login, register, verifyEmail, resendVerification, requestPasswordReset, resetPassword } from '../services/authClient';
+import { ApiError } from '../services/apiErrors';
+import { getFriendlyErrorMessage } from './common/errorHandler';
+import type { User } from '../types';
 
 const PrimaryButton = ({ children, onClick, type = 'button', disabled = false }: { children?: React.ReactNode, onClick?: (e: React.MouseEvent<HTMLButtonElement>) => void, type?: 'button' | 'submit', disabled?: boolean }) => (
     <button
@@ -27,83 +31,133 @@ const InputField = ({ icon, ...props }: { icon: React.ReactNode } & React.InputH
     </div>
 );
 
-const AuthPage: React.FC<{ onLogin: () => void }> = ({ onLogin }) => {
-    const [mode, setMode] = useState<'login' | 'register'>('login');
+type AuthMode = 'login' | 'register' | 'forgot' | 'reset';
+
+// Server messages for these codes are written for end users; anything else
+// (network, rate limits) goes through the shared friendly-error mapping.
+const describeAuthError = (error: unknown): string => {
+    if (error instanceof ApiError && ['BAD_REQUEST', 'UNAUTHORIZED', 'EMAIL_NOT_VERIFIED', 'CONFLICT'].includes(error.code)) {
+        return error.message;
+    }
+    return getFriendlyErrorMessage(error).message;
+};
+
+const AuthPage: React.FC<{ onLogin: (user: User) => void }> = ({ onLogin }) => {
+    const [mode, setMode] = useState<AuthMode>('login');
     const [name, setName] = useState('');
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    const [resetToken, setResetToken] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [needsVerification, setNeedsVerification] = useState(false);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Links from verification and reset emails land here with a token.
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const verifyToken = params.get('verifyToken');
+        const resetTokenParam = params.get('resetToken');
+        if (!verifyToken && !resetTokenParam) {
+            return;
+        }
+        window.history.replaceState({}, '', window.location.pathname);
+
+        if (resetTokenParam) {
+            setResetToken(resetTokenParam);
+            setMode('reset');
+        } else if (verifyToken) {
+            verifyEmail(verifyToken)
+                .then(() => setSuccessMessage('Your email is verified! Please sign in.'))
+                .catch(e => setError(describeAuthError(e)));
+        }
+    }, []);
 
-    const handleToggleMode = () => {
-        setMode(mode === 'login' ? 'register' : 'login');
+    const switchMode = (nextMode: AuthMode) => {
+        setMode(nextMode);
         setError(null);
+        setNeedsVerification(false);
         setSuccessMessage(null);
         setName('');
-        setEmail('');
         setPassword('');
     };
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleToggleMode = () => {
+        switchMode(mode === 'login' ? 'register' : 'login');
+        setEmail('');
+    };
+
+    const handleResendVerification = async () => {
+        setError(null);
+        setNeedsVerification(false);
+        try {
+            await resendVerification(email);
+            setSuccessMessage('We sent a new verification link. Please check your inbox.');
+        } catch (e) {
+            setError(describeAuthError(e));
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
+        setNeedsVerification(false);
         setSuccessMessage(null);
-
-        const storedUsersRaw = localStorage.getItem('mockUsers');
-        const users = storedUsersRaw ? JSON.parse(storedUsersRaw) : [];
-
-        if (mode === 'register') {
-            if (!name || !email || !password) {
-                setError('All fields are required for registration.');
-                return;
-            }
-            if (password.length < 6) {
-                setError('Password must be at least 6 characters long.');
-                return;
-            }
-
-            const userExists = users.some((user: any) => user.email === email);
-            if (userExists) {
-                setError('An account with this email already exists. Please log in.');
-                return;
-            }
-
-            const newUser = { name, email, password };
-            const newUsers = [...users, newUser];
-            localStorage.setItem('mockUsers', JSON.stringify(newUsers));
-            
-            setMode('login');
-            setName('');
-            setEmail('');
-            setPassword('');
-            setSuccessMessage('Account created successfully! Please log in.');
-
-        } else { // Login mode
-            if (!email || !password) {
-                setError('Email and password are required.');
-                return;
-            }
-            
-            const user = users.find((u: any) => u.email === email);
-
-            if (user && user.password === password) {
-                localStorage.setItem('currentUser', JSON.stringify(user));
-                onLogin();
-            } else {
-                setError('Invalid email or password.');
+        setIsSubmitting(true);
+
+        try {
+            if (mode === 'register') {
+                if (!name || !email || !password) {
+                    setError('All fields are required for registration.');
+                    return;
+                }
+                await register(name, email, password);
+                switchMode('login');
+                setSuccessMessage('Account created! Check your email for a link to verify your address, then sign in.');
+
+            } else if (mode === 'forgot') {
+                await requestPasswordReset(email);
+                switchMode('login');
+                setSuccessMessage('If an account exists for that email, a password reset link is on its way.');
+
+            } else if (mode === 'reset' && resetToken) {
+                await resetPassword(resetToken, password);
+                setResetToken(null);
+                switchMode('login');
+                setSuccessMessage('Your password has been reset. Please sign in with your new password.');
+
+            } else { // Login mode
+                if (!email || !password) {
+                    setError('Email and password are required.');
+                    return;
+                }
+                const user = await login(email, password);
+                onLogin(user);
             }
+        } catch (err) {
+            setError(describeAuthError(err));
+            setNeedsVerification(err instanceof ApiError && err.code === 'EMAIL_NOT_VERIFIED');
+        } finally {
+            setIsSubmitting(false);
         }
     };
 
+    const titles: Record<AuthMode, { heading: string; subheading: string; submit: string }> = {
+        login: { heading: 'Welcome Back', subheading: 'Sign in to continue your fashion journey.', submit: 'Sign In' },
+        register: { heading: 'Create Your Account', subheading: 'Join us to discover your perfect style.', submit: 'Create Account' },
+        forgot: { heading: 'Forgot Password', subheading: "Enter your email and we'll send you a reset link.", submit: 'Send Reset Link' },
+        reset: { heading: 'Choose a New Password', subheading: 'Enter a new password for your account.', submit: 'Reset Password' },
+    };
+
     return (
         <div className="fade-in flex items-center justify-center">
             <div className="w-full max-w-md bg-gray-900/60 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl p-8 space-y-6">
                 <div className="text-center">
                     <h2 className="text-3xl font-bold text-white">
-                        {mode === 'login' ? 'Welcome Back' : 'Create Your Account'}
+                        {titles[mode].heading}
                     </h2>
                     <p className="text-gray-400 mt-1">
-                        {mode === 'login' ? 'Sign in to continue your fashion journey.' : 'Join us to discover your perfect style.'}
+                        {titles[mode].subheading}
                     </p>
                 </div>
                 
@@ -111,6 +165,11 @@ const AuthPage: React.FC<{ onLogin: () => void }> = ({ onLogin }) => {
                     <div className="bg-red-900/50 border border-red-700 text-red-200 px-3 py-2 rounded-lg text-sm flex items-center gap-2">
                         <AlertTriangle className="w-4 h-4 flex-shrink-0" />
                         <span>{error}</span>
+                        {needsVerification && (
+                            <button onClick={handleResendVerification} className="ml-auto text-xs font-semibold underline hover:text-white whitespace-nowrap">
+                                Resend link
+                            </button>
+                        )}
                     </div>
                 )}
 
@@ -132,32 +191,44 @@ const AuthPage: React.FC<{ onLogin: () => void }> = ({ onLogin }) => {
                             required
                         />
                     )}
-                    <InputField
-                        icon={<Mail size={18} />}
-                        type="email"
-                        placeholder="Email Address"
-                        value={email}
-                        onChange={(e) => setEmail(e.target.value)}
-                        required
-                    />
-                    <InputField
-                        icon={<Lock size={18} />}
-                        type="password"
-                        placeholder="Password"
-                        value={password}
-                        onChange={(e) => setPassword(e.target.value)}
-                        required
-                    />
+                    {mode !== 'reset' && (
+                        <InputField
+                            icon={<Mail size={18} />}
+                            type="email"
+                            placeholder="Email Address"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            required
+                        />
+                    )}
+                    {mode !== 'forgot' && (
+                        <InputField
+                            icon={<Lock size={18} />}
+                            type="password"
+                            placeholder={mode === 'reset' ? 'New Password' : 'Password'}
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            minLength={mode === 'login' ? undefined : 8}
+                            required
+                        />
+                    )}
+                    {mode === 'login' && (
+                        <div className="text-right">
+                            <button type="button" onClick={() => switchMode('forgot')} className="text-xs text-gray-400 hover:text-white hover:underline transition-colors">
+                                Forgot your password?
+                            </button>
+                        </div>
+                    )}
                     <div className="pt-2">
-                        <PrimaryButton type="submit">
-                            {mode === 'login' ? 'Sign In' : 'Create Account'}
+                        <PrimaryButton type="submit" disabled={isSubmitting}>
+                            {titles[mode].submit}
                         </PrimaryButton>
                     </div>
                 </form>
                 
                 <div className="text-center">
                     <button onClick={handleToggleMode} className="text-sm text-gray-400 hover:text-white hover:underline transition-colors">
-                        {mode === 'login' ? 'Don\'t have an account? Sign up' : 'Already have an account? Sign in'}
+                        {mode === 'login' ? 'Don\'t have an account? Sign up' : mode === 'register' ? 'Already have an account? Sign in' : 'Back to sign in'}
                     </button>
                 </div>
             </div>
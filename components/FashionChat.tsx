@@ -1,9 +1,31 @@
 
 
-import React, { useState, useEffect, useRef, FormEvent } from 'react';
+import React, { useState, useEffect, useRef, FormEvent, ClipboardEvent, ChangeEvent } from 'react';
 import { createFashionChat } from '../services/geminiService';
-import type { ChatMessage } from '../types';
-import { Send, Bot, User, X, Trash2 } from 'lucide-react';
+import { toJpegWithin } from '../services/image/canvas';
+import { getFriendlyErrorMessage } from './common/errorHandler';
+import type { ChatMessage, ChatPart, StylistAction, StylistChat, StylistContext } from '../types';
+import { Send, Bot, User, X, Trash2, Paperclip, Upload } from 'lucide-react';
+
+// An image from the current session that the user can attach, e.g. their
+// photo or a try-on result.
+export interface ChatAttachment {
+    label: string;
+    src: string;
+}
+
+type InlineImagePart = Extract<ChatPart, { inlineData: unknown }>;
+
+const MAX_ATTACHMENTS = 3;
+const ATTACHMENT_MAX_DIMENSION = 1024;
+
+// Images are only kept for the current visit; localStorage is too small for them.
+const toStoredHistory = (history: ChatMessage[]): ChatMessage[] =>
+    history.map(message => {
+        const textParts = message.parts.filter(part => 'text' in part);
+        const hadImages = textParts.length < message.parts.length;
+        return { ...message, parts: hadImages ? [{ text: '(shared a photo)' }, ...textParts] : textParts };
+    });
 
 const TypingIndicator = () => (
   <div className="flex items-center space-x-1">
@@ -18,11 +40,21 @@ const MessageBubble: React.FC<{ message: ChatMessage }> = React.memo(({ message
     const bubbleClass = isUser ? 'bg-amber-600 self-end' : 'bg-gray-700 self-start';
     const icon = isUser ? <User className="w-5 h-5 text-white" /> : <Bot className="w-5 h-5 text-amber-400" />;
 
+    const images = message.parts.filter((part): part is InlineImagePart => 'inlineData' in part);
+    const text = message.parts.map(part => 'text' in part ? part.text : '').join('');
+
     return (
         <div className={`flex items-start gap-3 my-3 max-w-full opacity-0 ${isUser ? 'justify-end' : 'justify-start'}`} style={{ animation: `slideIn 0.4s ease-out forwards`}}>
             {!isUser && <div className="flex-shrink-0 p-1.5 bg-gray-800 rounded-full">{icon}</div>}
             <div className={`${bubbleClass} rounded-xl p-3 max-w-xs shadow-md`}>
-                <p className="text-white whitespace-pre-wrap text-sm">{message.parts[0].text}</p>
+                {images.length > 0 && (
+                    <div className={`flex flex-wrap gap-2 ${text ? 'mb-2' : ''}`}>
+                        {images.map(({ inlineData }, index) => (
+                            <img key={index} src={`data:${inlineData.mimeType};base64,${inlineData.data}`} alt="Attached" className="w-20 h-20 object-cover rounded-lg" />
+                        ))}
+                    </div>
+                )}
+                {text && <p className="text-white whitespace-pre-wrap text-sm">{text}</p>}
             </div>
             {isUser && <div className="flex-shrink-0 p-1.5 bg-gray-800 rounded-full">{icon}</div>}
         </div>
@@ -33,6 +65,10 @@ MessageBubble.displayName = 'MessageBubble';
 interface FashionChatProps {
     isOpen: boolean;
     onClose: () => void;
+    attachments?: ChatAttachment[];
+    // The try-on session the stylist can see and act on.
+    context?: StylistContext | null;
+    onAction?: (action: StylistAction) => void;
 }
 
 const initialMessage: ChatMessage = {
@@ -40,7 +76,7 @@ const initialMessage: ChatMessage = {
     parts: [{ text: "Hello! I'm your AI Fashion Stylist. How can I help you find the perfect look today?" }]
 };
 
-const FashionChat: React.FC<FashionChatProps> = ({ isOpen, onClose }) => {
+const FashionChat: React.FC<FashionChatProps> = ({ isOpen, onClose, attachments = [], context = null, onAction }) => {
   const [history, setHistory] = useState<ChatMessage[]>(() => {
     try {
         const savedHistory = localStorage.getItem('fashionChatHistory');
@@ -57,15 +93,25 @@ const FashionChat: React.FC<FashionChatProps> = ({ isOpen, onClose }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [pendingImages, setPendingImages] = useState<InlineImagePart[]>([]);
+  const [showAttachMenu, setShowAttachMenu] = useState(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // One session for the whole conversation; it is rebuilt only when the chat is cleared.
+  const chatRef = useRef<StylistChat | null>(null);
+  // Actions arrive mid-stream, so always call the latest handler.
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
 
   useEffect(() => {
+      // Saved once a reply has finished streaming, not on every chunk.
+      if (isLoading) return;
       try {
-          localStorage.setItem('fashionChatHistory', JSON.stringify(history));
+          localStorage.setItem('fashionChatHistory', JSON.stringify(toStoredHistory(history)));
       } catch (error) {
           console.error("Failed to save chat history to localStorage:", error);
       }
-  }, [history]);
+  }, [history, isLoading]);
 
   useEffect(() => {
     if (isOpen) {
@@ -89,35 +135,84 @@ const FashionChat: React.FC<FashionChatProps> = ({ isOpen, onClose }) => {
 
   const handleClearChat = () => {
     setHistory([initialMessage]);
+    setPendingImages([]);
+    chatRef.current = null;
     localStorage.removeItem('fashionChatHistory');
     setShowClearConfirm(false);
   };
 
+  const addAttachment = async (src: string) => {
+    setShowAttachMenu(false);
+    try {
+      const { base64 } = await toJpegWithin(src, ATTACHMENT_MAX_DIMENSION);
+      setPendingImages(prev => [...prev, { inlineData: { mimeType: 'image/jpeg', data: base64 } }].slice(0, MAX_ATTACHMENTS));
+    } catch (error) {
+      console.error("Could not attach image:", error);
+    }
+  };
+
+  const addAttachmentFile = async (file: Blob) => {
+    const url = URL.createObjectURL(file);
+    try {
+      await addAttachment(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      addAttachmentFile(file);
+    }
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const file = Array.from<File>(e.clipboardData.files).find(f => f.type.startsWith('image/'));
+    if (file) {
+      e.preventDefault();
+      addAttachmentFile(file);
+    }
+  };
+
   const handleSendMessage = async (e: FormEvent) => {
     e.preventDefault();
-    if (!userInput.trim() || isLoading) return;
+    if ((!userInput.trim() && pendingImages.length === 0) || isLoading) return;
+
+    const parts: ChatPart[] = [...pendingImages, ...(userInput.trim() ? [{ text: userInput }] : [])];
+    const userMessage: ChatMessage = { role: 'user', parts };
 
-    const currentInput = userInput;
-    const userMessage: ChatMessage = { role: 'user', parts: [{ text: currentInput }] };
-    
-    const newHistory = [...history, userMessage];
-    setHistory(newHistory);
+    // Created from the history before this message; the session tracks the rest itself.
+    chatRef.current ??= createFashionChat(history);
+    const chat = chatRef.current;
+    setHistory(prev => [...prev, userMessage]);
     setUserInput('');
+    setPendingImages([]);
     setIsLoading(true);
 
+    let reply = '';
     try {
-      const chat = createFashionChat(history); // History from previous render gives context
-      const response = await chat.sendMessage({ message: currentInput });
-      const modelMessage: ChatMessage = { role: 'model', parts: [{ text: response.text }] };
-      setHistory(prev => [...prev, modelMessage]);
+      for await (const event of chat.sendMessageStream(parts, context)) {
+        if (event.type === 'action') {
+          onActionRef.current?.(event.action);
+          continue;
+        }
+        const isFirstChunk = reply === '';
+        reply += event.text;
+        const modelMessage: ChatMessage = { role: 'model', parts: [{ text: reply }] };
+        setHistory(prev => isFirstChunk ? [...prev, modelMessage] : [...prev.slice(0, -1), modelMessage]);
+      }
     } catch (error) {
       console.error("Error sending message:", error);
-      const errorMessage: ChatMessage = { role: 'model', parts: [{ text: "Sorry, I'm having a little trouble right now. Please try again later." }] };
+      const errorMessage: ChatMessage = { role: 'model', parts: [{ text: `Sorry, I couldn't reply to that. ${getFriendlyErrorMessage(error).message}` }] };
       setHistory(prev => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
     }
   };
+
+  const isWaitingForReply = isLoading && history[history.length - 1]?.role === 'user';
   
   if (!isOpen && !isClosing) return null;
 
@@ -141,7 +236,7 @@ const FashionChat: React.FC<FashionChatProps> = ({ isOpen, onClose }) => {
 
       <div ref={chatContainerRef} className="flex-1 p-4 overflow-y-auto">
         {history.map((msg, index) => <MessageBubble key={index} message={msg} />)}
-        {isLoading && (
+        {isWaitingForReply && (
           <div className="flex items-start gap-3 my-4 justify-start">
              <div className="flex-shrink-0 p-1.5 bg-gray-800 rounded-full"><Bot className="w-5 h-5 text-amber-400" /></div>
             <div className="bg-gray-700 rounded-xl p-3">
@@ -150,16 +245,65 @@ const FashionChat: React.FC<FashionChatProps> = ({ isOpen, onClose }) => {
           </div>
         )}
       </div>
-      <form onSubmit={handleSendMessage} className="p-3 border-t border-gray-700 flex items-center gap-2 flex-shrink-0">
+      {pendingImages.length > 0 && (
+        <div className="px-3 pt-3 flex gap-2 border-t border-gray-700 flex-shrink-0">
+          {pendingImages.map(({ inlineData }, index) => (
+            <div key={index} className="relative">
+              <img src={`data:${inlineData.mimeType};base64,${inlineData.data}`} alt="Attachment" className="w-14 h-14 object-cover rounded-lg" />
+              <button
+                onClick={() => setPendingImages(prev => prev.filter((_, i) => i !== index))}
+                className="absolute -top-1.5 -right-1.5 bg-gray-900 rounded-full p-0.5 text-gray-300 hover:text-white"
+                aria-label="Remove attachment"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <form onSubmit={handleSendMessage} className="relative p-3 border-t border-gray-700 flex items-center gap-2 flex-shrink-0">
+        <button
+          type="button"
+          onClick={() => setShowAttachMenu(prev => !prev)}
+          disabled={isLoading || pendingImages.length >= MAX_ATTACHMENTS}
+          className="p-2 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          aria-label="Attach an image"
+        >
+          <Paperclip className="w-5 h-5" />
+        </button>
+        {showAttachMenu && (
+          <div className="absolute bottom-full left-3 mb-2 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-1 z-10 fade-in">
+            {attachments.map(attachment => (
+              <button
+                key={attachment.label}
+                type="button"
+                onClick={() => addAttachment(attachment.src)}
+                className="w-full flex items-center gap-2 p-2 rounded-md text-sm text-gray-200 hover:bg-gray-700 text-left"
+              >
+                <img src={attachment.src} alt="" className="w-8 h-8 object-cover rounded" />
+                {attachment.label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex items-center gap-2 p-2 rounded-md text-sm text-gray-200 hover:bg-gray-700 text-left"
+            >
+              <Upload className="w-4 h-4 m-2" /> Upload from device
+            </button>
+          </div>
+        )}
+        <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
         <input
           type="text"
           value={userInput}
           onChange={(e) => setUserInput(e.target.value)}
-          placeholder="Ask a question..."
-          className="flex-1 bg-gray-700 border-gray-600 rounded-lg p-2.5 focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-white transition-shadow text-sm"
+          onPaste={handlePaste}
+          placeholder={pendingImages.length > 0 ? "Ask about this image..." : "Ask a question..."}
+          className="flex-1 min-w-0 bg-gray-700 border-gray-600 rounded-lg p-2.5 focus:ring-2 focus:ring-amber-500 focus:border-amber-500 text-white transition-shadow text-sm"
           disabled={isLoading}
         />
-        <button type="submit" disabled={isLoading || !userInput.trim()} className="bg-amber-600 p-2.5 rounded-lg text-white hover:bg-amber-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-110 active:scale-95">
+        <button type="submit" disabled={isLoading || (!userInput.trim() && pendingImages.length === 0)} className="bg-amber-600 p-2.5 rounded-lg text-white hover:bg-amber-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-110 active:scale-95">
           <Send className="w-5 h-5" />
         </button>
       </form>
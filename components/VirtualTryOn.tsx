@@ -1,30 +1,93 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { performVirtualTryOn, generateGarmentRecommendations, getGarmentDetails, getStyleComparison, detectGender } from '../services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { performVirtualTryOn, getGarmentMask, getGarmentSpecs, generateGarmentImage, getStyleComparison, suggestPresentation } from '../services/geminiService';
+import { GARMENT_CATEGORIES } from '../services/taxonomy/taxonomy';
+import { isAbortError } from '../services/generation/pipeline';
 import Spinner from './common/Spinner';
-import { User, UploadCloud, Wand2, AlertTriangle, Sparkles, RefreshCw, CheckCircle, Camera, X, ScanFace, Download, ArrowRight } from 'lucide-react';
+import { User, UploadCloud, Wand2, AlertTriangle, Sparkles, RefreshCw, CheckCircle, Camera, X, Download, ArrowRight, Bookmark, BookmarkCheck, Shirt, Upload, Plus, Layers, Share2 } from 'lucide-react';
 import FloatingChatBubble from './chat/FloatingChatBubble';
+import type { ChatAttachment } from './FashionChat';
 import { getFriendlyErrorMessage, FriendlyError } from './common/errorHandler';
-import type { RecommendationItem } from '../types';
-
-type TryOnStep = 'UPLOAD_PERSON' | 'SET_PREFERENCES' | 'GENERATING_GARMENTS' | 'CHOOSE_GARMENT' | 'SHOW_RESULT';
+import WardrobeGallery from './wardrobe/WardrobeGallery';
+import GarmentUpload, { GARMENT_CATEGORY_LABELS } from './tryon/GarmentUpload';
+import type { UploadedGarment } from './tryon/GarmentUpload';
+import OutfitLayers from './tryon/OutfitLayers';
+import { saveGarment, saveTryOn } from '../services/wardrobe';
+import { formatPrice, matchProducts } from '../services/productClient';
+import ShopTheLook from './tryon/ShopTheLook';
+import PhotoChecks from './tryon/PhotoChecks';
+import ComparisonView from './tryon/ComparisonView';
+import TryOnHistory, { attemptLabel } from './tryon/TryOnHistory';
+import type { TryOnAttempt } from './tryon/TryOnHistory';
+import BatchProgress from './tryon/BatchProgress';
+import ExportPanel from './tryon/ExportPanel';
+import StyleProfileForm from './profile/StyleProfileForm';
+import type { BatchItem } from './tryon/BatchProgress';
+import { checkPersonPhoto, hasBlockingCheck } from '../services/image/photoQuality';
+import { normalizeImage, toDataUrl } from '../services/image/normalize';
+import type { NormalizedImage } from '../services/image/normalize';
+import type { PhotoCheck } from '../services/image/photoQuality';
+import { processTryOnOutput, toOriginalSize } from '../services/image/tryOnOutput';
+import type { TryOnReview } from '../services/image/tryOnOutput';
+import type { OutfitCard } from '../services/export/outfitCard';
+import { DEFAULT_STYLE_PROFILE, PRESENTATION_LABELS } from '../services/styleProfile';
+import { loadStyleProfile, saveStyleProfile } from '../services/styleProfileStore';
+import type { BoundingBox, GarmentSpec, PromptVersions, RecommendationItem, WardrobeGarment, WardrobeTryOn, GarmentCategory, OutfitLayer, ProductMatch, StyleProfile, StylistAction, StylistContext, TryOnStep } from '../types';
 
 interface ImageState {
     preview: string;
     base64: string;
+    mimeType: string;
+    // Upright size of the original photo, which may be larger than `base64`.
     width: number;
     height: number;
+    // Found by the photo checks; lets try-on results be checked for a changed face.
+    faceBox?: BoundingBox | null;
 }
 
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve((reader.result as string).split(',')[1]);
-        reader.onerror = error => reject(error);
-    });
+// One card in the garment chooser, keeping a garment's details with its image.
+// Generated garments start out pending on their spec and may fail; uploaded
+// and saved garments are ready straight away.
+type GarmentSlot =
+    | { status: 'pending'; details: GarmentSpec }
+    | { status: 'ready'; image: string; details: RecommendationItem | null; promptVersions?: PromptVersions; cached?: boolean }
+    | { status: 'failed'; details: GarmentSpec; error: FriendlyError };
+
+interface GarmentRequest {
+    profile: StyleProfile;
+    aspectRatio: string;
+    category: GarmentCategory;
+    // Skips results cached for the same profile.
+    regenerate: boolean;
+}
+
+// The banner's error, with the operation to run again when it offers a retry.
+type ShownError = FriendlyError & { onRetry?: () => void };
+
+// A garment to try on, with what it is and the pieces already worn under it.
+type TryOnRequest = Pick<TryOnAttempt, 'garmentImage' | 'garmentDetails' | 'garmentCategory' | 'layers' | 'promptVersions'>;
+
+const CANCELLED_ERROR: FriendlyError = { title: 'Stopped', message: 'This option was not generated.' };
+
+const slotImage = (slot: GarmentSlot): string | null => slot.status === 'ready' ? slot.image : null;
+
+const describeAlterations = ({ alterations, composited }: TryOnReview): string => {
+    const changed = alterations.includes('face')
+        ? 'Your face may look different from your photo.'
+        : 'The background differs from your photo.';
+    return composited
+        ? `${changed} Try again for a closer match.`
+        : `${changed} Turn on "Keep my face and background" and try again for a closer match.`;
 };
 
+const toImageState = (image: NormalizedImage): ImageState => ({
+    preview: toDataUrl(image),
+    base64: image.base64,
+    mimeType: image.mimeType,
+    width: image.originalWidth,
+    height: image.originalHeight,
+});
+
 const PrimaryButton = ({ children, onClick, type = 'button', disabled = false, isLoading = false }: { children?: React.ReactNode, onClick?: (e: any) => void, type?: 'button' | 'submit', disabled?: boolean, isLoading?: boolean }) => (
     <button
         type={type}
@@ -38,52 +101,64 @@ const PrimaryButton = ({ children, onClick, type = 'button', disabled = false, i
     </button>
 );
 
-interface TryOnComparisonViewProps {
-    originalImage: string;
-    resultImage: string | null;
+interface VirtualTryOnProps {
+    userId: string;
 }
 
-const TryOnComparisonView = ({ originalImage, resultImage }: TryOnComparisonViewProps) => (
-    <div className="grid grid-cols-2 gap-6 w-full max-w-4xl mx-auto">
-        <div className="text-center" style={{ animation: 'slideIn 0.6s ease-out' }}>
-            <h4 className="text-lg font-semibold mb-3 text-gray-400">Before</h4>
-            <div className="relative w-full bg-black/30 p-2 border border-white/10 rounded-xl transition-all duration-500 hover:border-white/30 hover:shadow-lg">
-                <img src={originalImage} alt="Original photo" className="w-full h-auto rounded-lg" />
-            </div>
-        </div>
-        <div className="text-center" style={{ animation: 'slideIn 0.6s ease-out 0.2s backwards' }}>
-            <h4 className="text-lg font-bold mb-3 text-transparent bg-clip-text bg-gradient-to-r from-amber-300 to-purple-400 animate-pulse">After</h4>
-            <div className={`relative w-full p-2 border rounded-xl transition-all duration-700 ${resultImage ? 'bg-gradient-to-br from-amber-500/10 to-purple-500/10 border-amber-500/40 shadow-[0_0_30px_rgba(245,158,11,0.15)]' : 'bg-black/30 border-white/10'}`}>
-                {resultImage && (
-                    <div className="relative overflow-hidden rounded-lg">
-                         <img 
-                            src={`data:image/png;base64,${resultImage}`} 
-                            alt="Virtual try-on result" 
-                            className="w-full h-auto rounded-lg fade-in transition-transform duration-700 hover:scale-[1.02]" 
-                        />
-                        <div className="absolute inset-0 pointer-events-none ring-1 ring-inset ring-white/10 rounded-lg"></div>
-                    </div>
-                )}
-            </div>
-        </div>
-    </div>
-);
-
-const VirtualTryOn: React.FC = () => {
+const VirtualTryOn: React.FC<VirtualTryOnProps> = ({ userId }) => {
     const [step, setStep] = useState<TryOnStep>('UPLOAD_PERSON');
     const [personImage, setPersonImage] = useState<ImageState | null>(null);
     const [capturedImage, setCapturedImage] = useState<ImageState | null>(null);
-    const [preferences, setPreferences] = useState({ style: 'Casual', colors: 'Neutral Tones', occasion: 'Weekend Outing' });
-    const [recommendedGarments, setRecommendedGarments] = useState<string[]>([]);
-    const [recommendedGarmentDetails, setRecommendedGarmentDetails] = useState<RecommendationItem[]>([]);
+    const [styleProfile, setStyleProfile] = useState<StyleProfile>(DEFAULT_STYLE_PROFILE);
+    const [garmentSlots, setGarmentSlots] = useState<GarmentSlot[]>([]);
     const [selectedGarment, setSelectedGarment] = useState<string | null>(null);
-    const [resultImage, setResultImage] = useState<string | null>(null);
-    const [styleComparisonText, setStyleComparisonText] = useState<string | null>(null);
-    const [error, setError] = useState<FriendlyError | null>(null);
+    // Every try-on made on this photo; the result shown is the active one.
+    const [tryOnHistory, setTryOnHistory] = useState<TryOnAttempt[]>([]);
+    const [activeAttemptId, setActiveAttemptId] = useState<string | null>(null);
+    // Progress of "Try On All"; null when no batch is running.
+    const [batchItems, setBatchItems] = useState<BatchItem[] | null>(null);
+    const batchAbortRef = useRef<AbortController | null>(null);
+    const tryOnAbortRef = useRef<AbortController | null>(null);
+    // Restores everything outside the garment from the photo after each try-on.
+    const [keepFaceAndBackground, setKeepFaceAndBackground] = useState<boolean>(false);
+    const [error, setError] = useState<ShownError | null>(null);
     const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
-    const [gender, setGender] = useState<string | null>(null);
-    const [isDetectingGender, setIsDetectingGender] = useState<boolean>(false);
+    // Pre-flight checks on the person photo; null while they run.
+    const [photoChecks, setPhotoChecks] = useState<PhotoCheck[] | null>(null);
+    const photoCheckRef = useRef<string | null>(null);
     const [isTryOnLoading, setIsTryOnLoading] = useState<boolean>(false);
+    const [isWardrobeOpen, setIsWardrobeOpen] = useState<boolean>(false);
+    const [savedGarments, setSavedGarments] = useState<string[]>([]);
+    const [isGarmentUploadOpen, setIsGarmentUploadOpen] = useState<boolean>(false);
+    const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+    // The kind of garment to generate next; uploaded and saved garments carry their own category.
+    const [garmentCategory, setGarmentCategory] = useState<GarmentCategory>('top');
+    const [garmentCategories, setGarmentCategories] = useState<Record<string, GarmentCategory>>({});
+    const [outfitLayers, setOutfitLayers] = useState<OutfitLayer[]>([]);
+    // Catalog matches per garment image; a missing entry means still loading.
+    const [productMatches, setProductMatches] = useState<Record<string, ProductMatch[]>>({});
+    const requestedMatches = useRef(new Set<string>());
+    // The request behind the generated slots, kept so a failed slot can be retried.
+    const garmentRequestRef = useRef<GarmentRequest | null>(null);
+    const generationAbortRef = useRef<AbortController | null>(null);
+    const recommendedGarments = garmentSlots.map(slotImage);
+    const recommendedGarmentDetails = garmentSlots.map(slot => slot.details);
+    const readyGarments = recommendedGarments.filter((garment): garment is string => garment !== null);
+    const activeAttempt = tryOnHistory.find(attempt => attempt.id === activeAttemptId) ?? null;
+    const resultImage = activeAttempt?.resultImage ?? null;
+    const toOutfitCard = (attempt: TryOnAttempt): OutfitCard => ({
+        beforeImage: personImage?.preview ?? '',
+        afterImage: `data:image/png;base64,${attempt.resultImage}`,
+        garments: [...attempt.layers, attempt].map(({ garmentImage, garmentDetails }) => ({ image: garmentImage, details: garmentDetails })),
+        comparisonText: attempt.comparisonText,
+    });
+    // Memoized so the export preview only redraws when the card changes.
+    const outfitCard = useMemo(() => activeAttempt && toOutfitCard(activeAttempt), [activeAttempt, personImage]);
+    // Favourites if there are any, otherwise every try-on of the session.
+    const lookbookCards = useMemo(() => {
+        const favorites = tryOnHistory.filter(attempt => attempt.isFavorite);
+        return (favorites.length > 0 ? favorites : tryOnHistory).map(toOutfitCard);
+    }, [tryOnHistory, personImage]);
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -111,44 +186,77 @@ const VirtualTryOn: React.FC = () => {
         };
     }, [isCameraOpen]);
 
-    const processGenderDetection = async (base64Image: string) => {
-        setIsDetectingGender(true);
+    useEffect(() => {
+        let cancelled = false;
+        loadStyleProfile(userId).then(profile => {
+            if (!cancelled) setStyleProfile(profile);
+        });
+        return () => { cancelled = true; };
+    }, [userId]);
+
+    // Looks up similar catalog products for each garment once its details are known.
+    useEffect(() => {
+        recommendedGarments.forEach((garment, idx) => {
+            const item = recommendedGarmentDetails[idx];
+            if (!garment || !item || requestedMatches.current.has(garment)) return;
+            requestedMatches.current.add(garment);
+            matchProducts({ item, image: garment, category: garmentCategories[garment] ?? 'top', presentation: styleProfile.presentation })
+                .catch(err => {
+                    console.warn("Could not find matching products:", err);
+                    return [];
+                })
+                .then(matches => setProductMatches(prev => ({ ...prev, [garment]: matches })));
+        });
+    }, [garmentSlots, garmentCategories, styleProfile.presentation]);
+
+    useEffect(() => () => generationAbortRef.current?.abort(), []);
+
+    const runPhotoChecks = async (image: ImageState, orientation = 1, orientationApplied = true) => {
+        photoCheckRef.current = image.base64;
+        setPhotoChecks(null);
+        let checks: PhotoCheck[];
+        let faceBox: BoundingBox | null = null;
         try {
-            const detectedGender = await detectGender(base64Image);
-            setGender(detectedGender);
+            const result = await checkPersonPhoto({ src: image.preview, base64: image.base64, width: image.width, height: image.height, orientation, orientationApplied });
+            checks = result.checks;
+            faceBox = result.analysis?.faceBox ?? null;
         } catch (err) {
-            console.error("Gender detection failed", err);
-            setGender("Female"); // Fallback
-        } finally {
-            setIsDetectingGender(false);
+            console.error("Photo checks failed", err);
+            checks = [{ id: 'resolution', status: 'block', message: getFriendlyErrorMessage(err).message }];
+        }
+        // A newer photo may have replaced this one while it was being checked.
+        if (photoCheckRef.current === image.base64) {
+            setPhotoChecks(checks);
+            setPersonImage(prev => prev?.base64 === image.base64 ? { ...prev, faceBox } : prev);
         }
     };
 
+    const clearPhotoChecks = () => {
+        photoCheckRef.current = null;
+        setPhotoChecks(null);
+    };
+
     const handlePersonImageUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (file) {
-            const previewUrl = URL.createObjectURL(file);
-            const base64 = await fileToBase64(file);
-            
-            const img = new Image();
-            img.onload = () => {
-                setPersonImage({ 
-                    preview: previewUrl, 
-                    base64, 
-                    width: img.width, 
-                    height: img.height 
-                });
-                // Do not auto-advance step; waiting for user confirmation
-            };
-            img.src = previewUrl;
-            setError(null);
-            
-            // Trigger gender detection in background
-            processGenderDetection(base64);
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+
+        let normalized: NormalizedImage;
+        try {
+            // Upright, downscaled and compressed, whatever format the photo came in.
+            normalized = await normalizeImage(file);
+        } catch (err) {
+            setError(getFriendlyErrorMessage(err));
+            return;
         }
+        const image = toImageState(normalized);
+        setPersonImage(image);
+        // Do not auto-advance step; waiting for user confirmation
+        runPhotoChecks(image, normalized.orientation, normalized.orientationApplied);
     }, []);
 
-    const handleCapture = useCallback(() => {
+    const handleCapture = useCallback(async () => {
         if (videoRef.current && canvasRef.current) {
             const video = videoRef.current;
             const canvas = canvasRef.current;
@@ -161,14 +269,13 @@ const VirtualTryOn: React.FC = () => {
                 context.scale(-1, 1);
                 context.drawImage(video, 0, 0, canvas.width, canvas.height);
             }
-            const dataUrl = canvas.toDataURL('image/jpeg');
-            const base64 = dataUrl.split(',')[1];
-            setCapturedImage({ 
-                preview: dataUrl, 
-                base64,
-                width: canvas.width,
-                height: canvas.height
-            });
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.95));
+            if (!blob) return;
+            try {
+                setCapturedImage(toImageState(await normalizeImage(blob)));
+            } catch (err) {
+                setError(getFriendlyErrorMessage(err));
+            }
         }
     }, [videoRef, canvasRef]);
     
@@ -183,7 +290,7 @@ const VirtualTryOn: React.FC = () => {
             setCapturedImage(null);
             setError(null);
             // Do not auto-advance; allow review in main view
-            processGenderDetection(capturedImage.base64);
+            runPhotoChecks(capturedImage);
         }
     };
     
@@ -193,17 +300,41 @@ const VirtualTryOn: React.FC = () => {
     };
 
     const handleConfirmPhoto = () => {
+        if (!photoChecks || hasBlockingCheck(photoChecks)) return;
         setStep('SET_PREFERENCES');
     };
 
     const handleChangePhoto = () => {
+        tryOnAbortRef.current?.abort();
+        tryOnAbortRef.current = null;
+        setIsTryOnLoading(false);
         setPersonImage(null);
-        setGender(null);
+        clearPhotoChecks();
+        setOutfitLayers([]);
+        setTryOnHistory([]);
+        setActiveAttemptId(null);
+        setIsExportOpen(false);
+    };
+
+    const chatAttachments: ChatAttachment[] = [
+        ...(personImage ? [{ label: 'My photo', src: personImage.preview }] : []),
+        ...(selectedGarment ? [{ label: 'Selected garment', src: `data:image/png;base64,${selectedGarment}` }] : []),
+        ...(resultImage ? [{ label: 'Try-on result', src: `data:image/png;base64,${resultImage}` }] : []),
+    ];
+
+    // The photo a garment is tried on over: the latest layered result, or the
+    // original photo before any piece has been added.
+    const lookOver = (layers: OutfitLayer[]): ImageState | null => {
+        const topLayer = layers[layers.length - 1];
+        return personImage && topLayer
+            ? { ...personImage, preview: `data:image/png;base64,${topLayer.resultImage}`, base64: topLayer.resultImage, mimeType: 'image/png' }
+            : personImage;
     };
+    const currentLook = lookOver(outfitLayers);
 
-    const handlePreferencesChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        const { name, value } = e.target;
-        setPreferences(prev => ({ ...prev, [name]: value }));
+    const handleStyleProfileChange = (profile: StyleProfile) => {
+        setStyleProfile(profile);
+        saveStyleProfile(userId, profile).catch(e => console.error("Error saving style profile:", e));
     };
 
     const playSuccessSound = () => {
@@ -262,109 +393,568 @@ const VirtualTryOn: React.FC = () => {
         oscillator.stop(now + 0.3);
     };
 
-    const handleGetRecommendations = async (e: React.FormEvent) => {
-        e.preventDefault();
+    const updateSlot = (index: number, slot: GarmentSlot) =>
+        setGarmentSlots(prev => prev.map((current, i) => i === index ? slot : current));
+
+    // Fills one slot. Once the signal is aborted the slot belongs to whoever
+    // aborted it, so nothing is written back.
+    const runVariation = async (request: GarmentRequest, index: number, spec: GarmentSpec, signal: AbortSignal): Promise<GarmentSlot | null> => {
+        let slot: GarmentSlot;
+        try {
+            const { image, promptVersions, cached } = await generateGarmentImage(spec, request.profile, request.aspectRatio, request.category, signal, { userId, regenerate: request.regenerate });
+            slot = { status: 'ready', image, details: spec, promptVersions: { ...spec.promptVersions, ...promptVersions }, cached };
+        } catch (e) {
+            if (isAbortError(e)) return null;
+            slot = { status: 'failed', details: spec, error: getFriendlyErrorMessage(e) };
+        }
+        if (signal.aborted) return null;
+        if (slot.status === 'ready') {
+            setGarmentCategories(prev => ({ ...prev, [slot.image]: request.category }));
+        }
+        updateSlot(index, slot);
+        return slot;
+    };
+
+    const generateGarments = async (profile: StyleProfile, garmentCategory: GarmentCategory, regenerate = false) => {
+        if (!profile.presentation) {
+            setError({ title: 'Choose a Style Presentation', message: 'Pick menswear, womenswear, unisex or mixed so the garments are designed for you.' });
+            setStep('SET_PREFERENCES');
+            return;
+        }
+        generationAbortRef.current?.abort();
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
         setStep('GENERATING_GARMENTS');
         setError(null);
-        
-        // Use detected gender or default to Female if something went wrong/still loading
-        const effectiveGender = gender || "Female";
 
-        try {
-            let aspectRatio = '1:1'; // Default aspect ratio
-            if (personImage && personImage.width && personImage.height) {
-                const { width, height } = personImage;
-                const ratio = width / height;
-    
-                const supportedRatios: { [key: string]: number } = {
-                    '1:1': 1,
-                    '4:3': 4 / 3,
-                    '3:4': 3 / 4,
-                    '16:9': 16 / 9,
-                    '9:16': 9 / 16,
-                };
-    
-                let closestRatioKey = '1:1';
-                let minDiff = Infinity;
-    
-                for (const key in supportedRatios) {
-                    const diff = Math.abs(ratio - supportedRatios[key]);
-                    if (diff < minDiff) {
-                        minDiff = diff;
-                        closestRatioKey = key;
-                    }
+        let aspectRatio = '1:1'; // Default aspect ratio
+        if (personImage && personImage.width && personImage.height) {
+            const { width, height } = personImage;
+            const ratio = width / height;
+
+            const supportedRatios: { [key: string]: number } = {
+                '1:1': 1,
+                '4:3': 4 / 3,
+                '3:4': 3 / 4,
+                '16:9': 16 / 9,
+                '9:16': 9 / 16,
+            };
+
+            let closestRatioKey = '1:1';
+            let minDiff = Infinity;
+
+            for (const key in supportedRatios) {
+                const diff = Math.abs(ratio - supportedRatios[key]);
+                if (diff < minDiff) {
+                    minDiff = diff;
+                    closestRatioKey = key;
                 }
-                aspectRatio = closestRatioKey;
             }
+            aspectRatio = closestRatioKey;
+        }
 
-            const [garments, details] = await Promise.all([
-                generateGarmentRecommendations(preferences, aspectRatio, effectiveGender),
-                getGarmentDetails(preferences, effectiveGender)
-            ]);
-            setRecommendedGarments(garments);
-            setRecommendedGarmentDetails(details);
-            playSuccessSound();
-            setStep('CHOOSE_GARMENT');
+        const request: GarmentRequest = { profile, aspectRatio, category: garmentCategory, regenerate };
+        garmentRequestRef.current = request;
+        setGarmentSlots([]);
+
+        // The specs come first so each card can show what it is while its image renders.
+        let specs: GarmentSpec[];
+        try {
+            specs = await getGarmentSpecs(profile, garmentCategory, { userId, regenerate });
         } catch (e) {
-            setError(getFriendlyErrorMessage(e));
+            if (controller.signal.aborted) return;
+            setError({ ...getFriendlyErrorMessage(e), onRetry: () => generateGarments(profile, garmentCategory, regenerate) });
+            setStep('SET_PREFERENCES');
+            return;
+        }
+        if (controller.signal.aborted) return;
+        setGarmentSlots(specs.map(spec => ({ status: 'pending', details: spec })));
+        setStep('CHOOSE_GARMENT');
+
+        const slots = await Promise.all(specs.map((spec, index) => runVariation(request, index, spec, controller.signal)));
+        if (controller.signal.aborted) return;
+
+        if (slots.some(slot => slot?.status === 'ready')) {
+            playSuccessSound();
+        } else {
+            const failed = slots.find(slot => slot?.status === 'failed');
+            setError({
+                ...(failed?.status === 'failed' ? failed.error : getFriendlyErrorMessage(null)),
+                onRetry: () => generateGarments(profile, garmentCategory, regenerate),
+            });
             setStep('SET_PREFERENCES');
         }
     };
 
-    const handlePerformTryOn = async () => {
-        if (!personImage || !selectedGarment) {
-            setError({ title: 'Missing Selection', message: 'Please select a person image and a garment before trying it on.' });
-            return;
+    // Replaces the chooser's cards, abandoning any generation still running.
+    const replaceGarmentSlots = (slots: GarmentSlot[]) => {
+        generationAbortRef.current?.abort();
+        garmentRequestRef.current = null;
+        setGarmentSlots(slots);
+    };
+
+    const handleRetryVariation = (index: number) => {
+        const request = garmentRequestRef.current;
+        const slot = garmentSlots[index];
+        if (!request || slot?.status !== 'failed') return;
+        if (!generationAbortRef.current || generationAbortRef.current.signal.aborted) {
+            generationAbortRef.current = new AbortController();
+        }
+        updateSlot(index, { status: 'pending', details: slot.details });
+        runVariation(request, index, slot.details, generationAbortRef.current.signal);
+    };
+
+    const handleStopGenerating = () => {
+        generationAbortRef.current?.abort();
+        setGarmentSlots(prev => prev.map(slot => slot.status === 'pending' ? { status: 'failed', details: slot.details, error: CANCELLED_ERROR } : slot));
+        if (step === 'GENERATING_GARMENTS') {
+            setStep('SET_PREFERENCES');
         }
+    };
+
+    const handleGetRecommendations = (e: React.FormEvent) => {
+        e.preventDefault();
+        generateGarments(styleProfile, garmentCategory);
+    };
+
+    // New garments for the same profile, instead of the ones cached for it.
+    const handleRegenerateGarments = () => {
+        const request = garmentRequestRef.current;
+        if (!request) return;
+        setSelectedGarment(null);
+        generateGarments(request.profile, request.category, true);
+    };
+
+    const toTryOnRequest = (garment: string): TryOnRequest => ({
+        garmentImage: garment,
+        garmentDetails: getGarmentDetailsFor(garment),
+        garmentCategory: garmentCategories[garment] ?? 'top',
+        layers: outfitLayers,
+        promptVersions: getGarmentPromptVersionsFor(garment),
+    });
+
+    const updateAttempt = (id: string, changes: Partial<TryOnAttempt>) => {
+        setTryOnHistory(prev => prev.map(attempt => attempt.id === id ? { ...attempt, ...changes } : attempt));
+    };
+
+    // Runs one try-on and post-processes it. Touches no state, so batches can
+    // run it for several garments. Rejects with an AbortError once `signal` is
+    // aborted, even if the result arrived in the meantime.
+    const makeAttempt = async (person: ImageState, request: TryOnRequest, regenerate = false, signal?: AbortSignal): Promise<TryOnAttempt> => {
+        const { image: rawResult, promptVersions, cached } = await performVirtualTryOn({
+            personImage: person.base64,
+            garmentImage: request.garmentImage,
+            width: person.width,
+            height: person.height,
+            garmentCategory: request.garmentCategory,
+        }, { userId, regenerate }, signal);
+
+        // Fit it to the photo, restore the face and background if asked, and
+        // score how much they changed. The raw result stands if this fails.
+        const mask = keepFaceAndBackground
+            ? await getGarmentMask({ personImage: person.base64, tryOnImage: rawResult, garmentCategory: request.garmentCategory }, signal).catch(err => {
+                if (!isAbortError(err)) console.warn("Could not get the garment mask:", err);
+                return null;
+            })
+            : null;
+        signal?.throwIfAborted();
+        const output = await processTryOnOutput({
+            original: person.preview,
+            width: person.width,
+            height: person.height,
+            result: rawResult,
+            mask,
+            faceBox: person.faceBox,
+        }).catch(err => {
+            console.warn("Could not post-process the try-on:", err);
+            return null;
+        });
+        signal?.throwIfAborted();
+
+        return {
+            ...request,
+            id: crypto.randomUUID(),
+            resultImage: output?.image ?? rawResult,
+            comparisonText: null,
+            review: output?.review ?? null,
+            promptVersions: { ...request.promptVersions, ...promptVersions },
+            cached: Boolean(cached),
+            createdAt: Date.now(),
+            isFavorite: false,
+            isSaved: false,
+        };
+    };
+
+    // The result stands without its comparison text.
+    const fetchComparison = async (person: ImageState, attempt: TryOnAttempt) => {
+        const comparison = await getStyleComparison(person.base64, attempt.resultImage).catch(err => {
+            console.warn("Could not get the style comparison:", err);
+            return null;
+        });
+        updateAttempt(attempt.id, {
+            comparisonText: comparison?.text ?? null,
+            promptVersions: { ...attempt.promptVersions, ...comparison?.promptVersions },
+        });
+    };
+
+    // Starting over or changing the photo aborts the try-on, and a result that
+    // arrives afterwards is dropped.
+    const runTryOn = async (person: ImageState, request: TryOnRequest, regenerate = false) => {
+        tryOnAbortRef.current?.abort();
+        const controller = new AbortController();
+        tryOnAbortRef.current = controller;
         setIsTryOnLoading(true);
         setError(null);
-        setResultImage(null);
-        setStyleComparisonText(null);
 
         try {
-            // First, perform the try-on to get the new image
-            const tryOnResult = await performVirtualTryOn({
-                personImage: personImage.base64,
-                garmentImage: selectedGarment,
-                width: personImage.width,
-                height: personImage.height
-            });
-            setResultImage(tryOnResult); 
+            const attempt = await makeAttempt(person, request, regenerate, controller.signal);
+            setTryOnHistory(prev => [...prev, attempt]);
+            setActiveAttemptId(attempt.id);
+            await fetchComparison(person, attempt);
+            if (controller.signal.aborted) return;
 
-            // Second, get the comparison text using the new image
-            const comparisonText = await getStyleComparison(personImage.base64, tryOnResult);
-            setStyleComparisonText(comparisonText);
-            
             playBopSound();
+            setStep('SHOW_RESULT');
+        } catch (e) {
+            if (controller.signal.aborted) return;
+            setError({ ...getFriendlyErrorMessage(e), onRetry: () => runTryOn(person, request, regenerate) });
+        } finally {
+            if (tryOnAbortRef.current === controller) {
+                tryOnAbortRef.current = null;
+                setIsTryOnLoading(false);
+            }
+        }
+    };
+
+    const handlePerformTryOn = () => {
+        if (!currentLook || !selectedGarment) {
+            setError({ title: 'Missing Selection', message: 'Please select a person image and a garment before trying it on.' });
+            return;
+        }
+        runTryOn(currentLook, toTryOnRequest(selectedGarment));
+    };
+
+    // Tries the shown result's garment on again, over the same look, without
+    // reusing the cached result.
+    const handleRegenerateTryOn = () => {
+        const person = activeAttempt && lookOver(activeAttempt.layers);
+        if (!activeAttempt || !person) return;
+        // Only the garment's prompts carry over; the try-on and comparison are redone.
+        const { virtualTryOn, styleComparison, ...garmentPromptVersions } = activeAttempt.promptVersions;
+        runTryOn(person, {
+            garmentImage: activeAttempt.garmentImage,
+            garmentDetails: activeAttempt.garmentDetails,
+            garmentCategory: activeAttempt.garmentCategory,
+            layers: activeAttempt.layers,
+            promptVersions: garmentPromptVersions,
+        }, true);
+    };
+
+    // Tries on every garment in the chooser, one after another, so the results
+    // can be flipped through and compared.
+    const handleTryOnAll = async () => {
+        if (!currentLook || readyGarments.length < 2) return;
+        const person = currentLook;
+        const requests = readyGarments.map(toTryOnRequest);
+        const controller = new AbortController();
+        batchAbortRef.current = controller;
+        const setItemStatus = (index: number, status: BatchItem['status']) =>
+            setBatchItems(prev => prev && prev.map((item, i) => i === index ? { ...item, status } : item));
 
-            // Finally, move to the results page
+        setError(null);
+        setIsTryOnLoading(true);
+        setBatchItems(requests.map(request => ({ garmentImage: request.garmentImage, label: request.garmentDetails?.itemName ?? 'Your garment', status: 'queued' })));
+
+        let firstAttempt: TryOnAttempt | null = null;
+        let failed = 0;
+        for (const [index, request] of requests.entries()) {
+            if (controller.signal.aborted) {
+                setItemStatus(index, 'skipped');
+                continue;
+            }
+            setItemStatus(index, 'running');
+            try {
+                const attempt = await makeAttempt(person, request, false, controller.signal);
+                // Starting over drops the batch along with everything else.
+                if (batchAbortRef.current !== controller) return;
+                setTryOnHistory(prev => [...prev, attempt]);
+                firstAttempt ??= attempt;
+                fetchComparison(person, attempt);
+                setItemStatus(index, 'done');
+            } catch (e) {
+                if (batchAbortRef.current !== controller) return;
+                // Stopping cancels the running try-on; it counts as skipped.
+                if (isAbortError(e)) {
+                    setItemStatus(index, 'skipped');
+                    continue;
+                }
+                console.error("Batch try-on failed", e);
+                failed++;
+                setItemStatus(index, 'failed');
+            }
+        }
+
+        batchAbortRef.current = null;
+        setBatchItems(null);
+        setIsTryOnLoading(false);
+        if (failed > 0) {
+            setError({ title: 'Some Try-Ons Failed', message: `${failed} of ${requests.length} garments could not be tried on. You can try them one at a time.` });
+        }
+        if (firstAttempt) {
+            setActiveAttemptId(firstAttempt.id);
+            playBopSound();
             setStep('SHOW_RESULT');
+        }
+    };
+
+    const handleStopBatch = () => {
+        batchAbortRef.current?.abort();
+    };
+
+    const handleSelectAttempt = (attempt: TryOnAttempt) => {
+        setActiveAttemptId(attempt.id);
+        setError(null);
+        setStep('SHOW_RESULT');
+    };
+
+    const handleToggleFavorite = (attempt: TryOnAttempt) => {
+        updateAttempt(attempt.id, { isFavorite: !attempt.isFavorite });
+    };
+
+    // Set by the stylist chat; runs once the selection it may have made in the
+    // same reply has been applied.
+    const [isTryOnRequested, setIsTryOnRequested] = useState(false);
+    useEffect(() => {
+        if (isTryOnRequested) {
+            setIsTryOnRequested(false);
+            handlePerformTryOn();
+        }
+    }, [isTryOnRequested]);
+
+    const isBusy = step === 'GENERATING_GARMENTS' || isTryOnLoading;
+    const canRetryError = Boolean(error?.onRetry && error.actions?.includes('retry'));
+    const canChooseAnotherPhoto = Boolean(personImage && error?.actions?.includes('choose-photo'));
+
+    const handleStylistAction = (action: StylistAction) => {
+        if (isBusy || !personImage) return;
+        switch (action.type) {
+            case 'regenerateGarments': {
+                const nextProfile = { ...styleProfile, ...action.profile };
+                const nextCategory = action.category ?? garmentCategory;
+                handleStyleProfileChange(nextProfile);
+                setGarmentCategory(nextCategory);
+                setSelectedGarment(null);
+                setActiveAttemptId(null);
+                generateGarments(nextProfile, nextCategory, true);
+                break;
+            }
+            case 'selectGarment': {
+                const garment = recommendedGarments[action.index];
+                if (garment) {
+                    setSelectedGarment(garment);
+                    setStep('CHOOSE_GARMENT');
+                }
+                break;
+            }
+            case 'tryOn':
+                setIsTryOnRequested(true);
+                break;
+        }
+    };
+
+    const stylistContext: StylistContext = {
+        step,
+        profile: styleProfile,
+        garmentCategory,
+        garments: recommendedGarmentDetails,
+        selectedGarment: selectedGarment && recommendedGarments.includes(selectedGarment) ? recommendedGarments.indexOf(selectedGarment) : null,
+        hasSelection: selectedGarment !== null,
+        hasResult: resultImage !== null,
+        outfitLayers: outfitLayers.length,
+    };
+
+    // Keeps the shown result as a layer and goes back to pick the next piece,
+    // which will be tried on over this result.
+    const handleAddLayer = () => {
+        if (!activeAttempt) return;
+        const { garmentImage, garmentDetails, garmentCategory, resultImage } = activeAttempt;
+        setOutfitLayers([...activeAttempt.layers, { garmentImage, garmentDetails, garmentCategory, resultImage }]);
+        replaceGarmentSlots([]);
+        setSelectedGarment(null);
+        setActiveAttemptId(null);
+        setSavedGarments([]);
+        setError(null);
+        setStep('SET_PREFERENCES');
+    };
+
+    const handleRemoveLastLayer = () => {
+        setOutfitLayers(prev => prev.slice(0, -1));
+    };
+
+    const getGarmentDetailsFor = (garment: string): RecommendationItem | null =>
+        recommendedGarmentDetails[recommendedGarments.indexOf(garment)] ?? null;
+
+    const getGarmentPromptVersionsFor = (garment: string): PromptVersions => {
+        const slot = garmentSlots.find(slot => slotImage(slot) === garment);
+        return slot?.status === 'ready' ? slot.promptVersions ?? {} : {};
+    };
+
+    const handleSaveGarment = async (garment: string) => {
+        try {
+            await saveGarment({
+                userId,
+                image: garment,
+                details: getGarmentDetailsFor(garment),
+                category: garmentCategories[garment] ?? 'top',
+                profile: styleProfile,
+                promptVersions: getGarmentPromptVersionsFor(garment),
+            });
+            setSavedGarments(prev => [...prev, garment]);
         } catch (e) {
             setError(getFriendlyErrorMessage(e));
-        } finally {
-            setIsTryOnLoading(false);
         }
     };
 
+    const handleSaveResult = async () => {
+        if (!personImage || !activeAttempt) return;
+        try {
+            await saveTryOn({
+                userId,
+                garmentImage: activeAttempt.garmentImage,
+                garmentDetails: activeAttempt.garmentDetails,
+                garmentCategory: activeAttempt.garmentCategory,
+                beforeImage: { base64: personImage.base64, mimeType: personImage.mimeType, width: personImage.width, height: personImage.height },
+                afterImage: activeAttempt.resultImage,
+                comparisonText: activeAttempt.comparisonText,
+                promptVersions: activeAttempt.promptVersions,
+            });
+            updateAttempt(activeAttempt.id, { isSaved: true });
+        } catch (e) {
+            setError(getFriendlyErrorMessage(e));
+        }
+    };
+
+    // Puts a saved garment into the chooser so it can be tried on the current photo.
+    const handleTryOnSavedGarment = (garment: WardrobeGarment) => {
+        replaceGarmentSlots([{ status: 'ready', image: garment.image, details: garment.details ?? null, promptVersions: garment.promptVersions }]);
+        setSelectedGarment(garment.image);
+        setGarmentCategories({ [garment.image]: garment.category ?? 'top' });
+        setSavedGarments([garment.image]);
+        setError(null);
+        setIsWardrobeOpen(false);
+        setStep('CHOOSE_GARMENT');
+    };
+
+    // Restores the saved before-photo and garment, then runs the try-on again.
+    const handleRerunTryOn = (tryOn: WardrobeTryOn) => {
+        // Photos saved before their type was recorded are JPEG.
+        const mimeType = tryOn.beforeImage.mimeType ?? 'image/jpeg';
+        const person: ImageState = {
+            ...tryOn.beforeImage,
+            preview: toDataUrl({ base64: tryOn.beforeImage.base64, mimeType }),
+            mimeType,
+        };
+        setPersonImage(person);
+        setOutfitLayers([]);
+        setTryOnHistory([]);
+        setActiveAttemptId(null);
+        // Only the garment's prompts carry over; the try-on and comparison are redone.
+        const { virtualTryOn, styleComparison, ...garmentPromptVersions } = tryOn.promptVersions ?? {};
+        replaceGarmentSlots([{ status: 'ready', image: tryOn.garmentImage, details: tryOn.garmentDetails ?? null, promptVersions: garmentPromptVersions }]);
+        setSelectedGarment(tryOn.garmentImage);
+        setGarmentCategories({ [tryOn.garmentImage]: tryOn.garmentCategory ?? 'top' });
+        setSavedGarments([]);
+        setIsWardrobeOpen(false);
+        setStep('CHOOSE_GARMENT');
+        runTryOn(person, {
+            garmentImage: tryOn.garmentImage,
+            garmentDetails: tryOn.garmentDetails ?? null,
+            garmentCategory: tryOn.garmentCategory ?? 'top',
+            layers: [],
+            promptVersions: garmentPromptVersions,
+        }, true);
+    };
+
     const handleStartOver = () => {
+        batchAbortRef.current?.abort();
+        batchAbortRef.current = null;
+        tryOnAbortRef.current?.abort();
+        tryOnAbortRef.current = null;
+        setBatchItems(null);
         setStep('UPLOAD_PERSON');
         setPersonImage(null);
-        setRecommendedGarments([]);
-        setRecommendedGarmentDetails([]);
+        clearPhotoChecks();
+        replaceGarmentSlots([]);
         setSelectedGarment(null);
-        setResultImage(null);
-        setStyleComparisonText(null);
         setError(null);
         setIsCameraOpen(false);
         setCapturedImage(null);
-        setGender(null);
         setIsTryOnLoading(false);
+        setSavedGarments([]);
+        setIsGarmentUploadOpen(false);
+        setGarmentCategory('top');
+        setGarmentCategories({});
+        setOutfitLayers([]);
+        setTryOnHistory([]);
+        setActiveAttemptId(null);
+        setProductMatches({});
+        requestedMatches.current.clear();
+    };
+
+    // Keeps the style profile and garments; only the photo and what was made from it go.
+    const handleChooseAnotherPhoto = () => {
+        setError(null);
+        setPersonImage(null);
+        clearPhotoChecks();
+        setOutfitLayers([]);
+        setTryOnHistory([]);
+        setActiveAttemptId(null);
+        setStep('UPLOAD_PERSON');
+    };
+
+    const handleRetryError = () => {
+        const retry = error?.onRetry;
+        setError(null);
+        retry?.();
     };
 
-    const handleDownloadResult = () => {
-        if (resultImage) {
+    const handleOpenGarmentUpload = () => {
+        setError(null);
+        setIsGarmentUploadOpen(true);
+        setStep('CHOOSE_GARMENT');
+    };
+
+    const handleCancelGarmentUpload = () => {
+        setIsGarmentUploadOpen(false);
+        if (recommendedGarments.length === 0) {
+            setStep('SET_PREFERENCES');
+        }
+    };
+
+    const handleUploadedGarment = ({ image, category, product }: UploadedGarment) => {
+        const details: RecommendationItem = product
+            ? {
+                itemName: product.title,
+                styleCategory: product.brand ?? GARMENT_CATEGORY_LABELS[category],
+                description: [product.price && formatPrice(product.price), product.productUrl].filter(Boolean).join(' · ') || 'Imported from a store.',
+            }
+            : { itemName: 'Your Garment', styleCategory: GARMENT_CATEGORY_LABELS[category], description: 'Uploaded by you.' };
+        setGarmentSlots(prev => [...prev, { status: 'ready', image, details }]);
+        setGarmentCategories(prev => ({ ...prev, [image]: category }));
+        setSelectedGarment(image);
+        setIsGarmentUploadOpen(false);
+    };
+
+    // Results are kept at the size the photo was sent; the download is
+    // scaled back up to the original photo's.
+    const handleDownloadResult = async () => {
+        if (resultImage && personImage) {
+            const image = await toOriginalSize(resultImage, personImage.width, personImage.height).catch(err => {
+                console.warn("Could not scale the result to the photo's size:", err);
+                return resultImage;
+            });
             const link = document.createElement('a');
-            link.href = `data:image/png;base64,${resultImage}`;
+            link.href = `data:image/png;base64,${image}`;
             link.download = 'ootd-tryon-result.png';
             document.body.appendChild(link);
             link.click();
@@ -415,23 +1005,18 @@ const VirtualTryOn: React.FC = () => {
                     return (
                         <div className="fade-in w-full max-w-md mx-auto text-center">
                             <h3 className="text-xl font-semibold text-amber-400 mb-6">Review Your Photo</h3>
-                            <div className="relative w-full aspect-[3/4] bg-black/40 rounded-xl overflow-hidden border-2 border-amber-500/50 shadow-lg mb-8">
+                            <div className="relative w-full aspect-[3/4] bg-black/40 rounded-xl overflow-hidden border-2 border-amber-500/50 shadow-lg mb-6">
                                 <img src={personImage.preview} alt="Upload preview" className="w-full h-full object-cover" />
-                                {isDetectingGender && (
-                                     <div className="absolute inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm">
-                                         <div className="text-white flex flex-col items-center">
-                                            <Spinner />
-                                            <span className="mt-2 text-sm font-medium">Analyzing style...</span>
-                                         </div>
-                                     </div>
-                                )}
+                            </div>
+                            <div className="mb-8">
+                                <PhotoChecks checks={photoChecks} />
                             </div>
                             <div className="flex flex-col sm:flex-row gap-4 justify-center">
                                 <button onClick={handleChangePhoto} className="px-6 py-3 bg-white/10 text-white font-semibold rounded-lg hover:bg-white/20 transition-colors flex items-center justify-center gap-2">
                                     <RefreshCw className="w-4 h-4" /> Change Photo
                                 </button>
-                                <PrimaryButton onClick={handleConfirmPhoto}>
-                                    Confirm & Continue <ArrowRight size={18} />
+                                <PrimaryButton onClick={handleConfirmPhoto} disabled={!photoChecks || hasBlockingCheck(photoChecks)}>
+                                    {photoChecks?.some(check => check.status === 'warn') ? 'Continue Anyway' : 'Confirm & Continue'} <ArrowRight size={18} />
                                 </PrimaryButton>
                             </div>
                         </div>
@@ -449,7 +1034,7 @@ const VirtualTryOn: React.FC = () => {
                             <label className="cursor-pointer group flex flex-col items-center justify-center h-64 bg-black/20 border-2 border-dashed border-gray-600 rounded-2xl hover:border-amber-500 hover:bg-amber-500/10 transition-all duration-300">
                                 <UploadCloud size={64} className="text-gray-500 mb-4 group-hover:text-amber-400 transition-colors" />
                                 <span className="text-2xl font-bold text-white group-hover:text-amber-400 transition-colors">Upload Image</span>
-                                <input type="file" accept="image/*" onChange={handlePersonImageUpload} className="hidden" />
+                                <input type="file" accept="image/*,.heic,.heif" onChange={handlePersonImageUpload} className="hidden" />
                             </label>
 
                             <button onClick={() => setIsCameraOpen(true)} className="group flex flex-col items-center justify-center h-64 bg-black/20 border-2 border-dashed border-gray-600 rounded-2xl hover:border-amber-500 hover:bg-amber-500/10 transition-all duration-300">
@@ -467,20 +1052,15 @@ const VirtualTryOn: React.FC = () => {
                             {/* Left Column: Image Preview with Change Button */}
                             <div className="flex flex-col">
                                 <div className="relative w-full aspect-[3/4] rounded-xl overflow-hidden border-2 border-amber-500/30 shadow-2xl bg-black/40">
-                                    <img src={personImage?.preview} alt="You" className="w-full h-full object-cover" />
+                                    <img src={currentLook?.preview} alt="You" className="w-full h-full object-cover" />
                                     <div className="absolute inset-x-0 bottom-0 p-4 bg-gradient-to-t from-black/80 to-transparent">
-                                         {gender && !isDetectingGender && (
+                                         {styleProfile.presentation && (
                                             <div className="inline-flex items-center gap-2 px-3 py-1 bg-amber-500/90 text-black text-xs font-bold rounded-full mb-2">
-                                                <ScanFace size={14} />
-                                                Detected: {gender} Style
+                                                <Shirt size={14} />
+                                                {PRESENTATION_LABELS[styleProfile.presentation]}
                                             </div>
                                         )}
                                     </div>
-                                    {isDetectingGender && (
-                                         <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
-                                             <Spinner />
-                                         </div>
-                                    )}
                                 </div>
                                 <button 
                                     onClick={handleStartOver} // Simplest way to re-upload is to go back to step 1
@@ -490,64 +1070,41 @@ const VirtualTryOn: React.FC = () => {
                                 </button>
                             </div>
 
-                            {/* Right Column: Preferences */}
+                            {/* Right Column: Style profile */}
                             <div className="flex flex-col justify-center">
                                 <div className="text-left mb-8">
-                                    <h3 className="text-3xl font-bold text-amber-400 mb-2">Define Your Look</h3>
+                                    <h3 className="text-3xl font-bold text-amber-400 mb-2">{outfitLayers.length > 0 ? 'Add the Next Piece' : 'Define Your Look'}</h3>
                                     <p className="text-gray-300">Customize the AI's recommendations to match your specific taste and the occasion.</p>
                                 </div>
 
+                                {outfitLayers.length > 0 && (
+                                    <div className="mb-6">
+                                        <OutfitLayers layers={outfitLayers} onRemoveLast={handleRemoveLastLayer} />
+                                    </div>
+                                )}
+
                                 <div className="space-y-6 bg-black/20 p-6 rounded-xl border border-white/10">
                                     <div>
-                                        <label className="block text-sm font-medium text-gray-400 mb-2">Occasion</label>
-                                        <select name="occasion" value={preferences.occasion} onChange={handlePreferencesChange} className="w-full bg-gray-800 border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-amber-500 transition-shadow">
-                                            <option>Weekend Outing</option>
-                                            <option>Office / Work</option>
-                                            <option>Formal Event</option>
-                                            <option>Date Night</option>
-                                            <option>Workout / Gym</option>
-                                            <option>Beach Vacation</option>
-                                            <option>Casual Hangout</option>
-                                            <option>Music Festival</option>
-                                            <option>Wedding Guest</option>
-                                            <option>Travel</option>
+                                        <label className="block text-sm font-medium text-gray-400 mb-2">Garment Type</label>
+                                        <select value={garmentCategory} onChange={(e) => setGarmentCategory(e.target.value as GarmentCategory)} className="w-full bg-gray-800 border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-amber-500 transition-shadow">
+                                            {GARMENT_CATEGORIES.map(c => <option key={c} value={c}>{GARMENT_CATEGORY_LABELS[c]}</option>)}
                                         </select>
                                     </div>
-                                    
-                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                                        <div>
-                                            <label className="block text-sm font-medium text-gray-400 mb-2">Style Vibe</label>
-                                            <select name="style" value={preferences.style} onChange={handlePreferencesChange} className="w-full bg-gray-800 border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-amber-500 transition-shadow">
-                                                <option>Casual</option>
-                                                <option>Formal</option>
-                                                <option>Streetwear</option>
-                                                <option>Bohemian</option>
-                                                <option>Minimalist</option>
-                                                <option>Athleisure</option>
-                                                <option>Vintage</option>
-                                                <option>Edgy</option>
-                                            </select>
-                                        </div>
-                                        <div>
-                                            <label className="block text-sm font-medium text-gray-400 mb-2">Colors</label>
-                                            <select name="colors" value={preferences.colors} onChange={handlePreferencesChange} className="w-full bg-gray-800 border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-amber-500 transition-shadow">
-                                                <option>Neutral Tones</option>
-                                                <option>Pastels</option>
-                                                <option>Earthy Tones</option>
-                                                <option>Bright & Bold</option>
-                                                <option>Jewel Tones</option>
-                                                <option>Monochromatic</option>
-                                                <option>Cool Tones</option>
-                                                <option>Warm Tones</option>
-                                            </select>
-                                        </div>
-                                    </div>
+
+                                    <StyleProfileForm
+                                        profile={styleProfile}
+                                        onChange={handleStyleProfileChange}
+                                        onSuggestPresentation={personImage ? () => suggestPresentation(personImage.base64) : undefined}
+                                    />
                                 </div>
 
-                                <div className="mt-8">
+                                <div className="mt-8 flex flex-col sm:flex-row sm:items-center gap-4">
                                     <PrimaryButton onClick={(e: any) => handleGetRecommendations(e)}>
                                         <Wand2 size={20} /> Generate Outfits
                                     </PrimaryButton>
+                                    <button onClick={handleOpenGarmentUpload} className="text-sm text-gray-400 hover:text-white underline decoration-amber-500/50 hover:decoration-amber-500 underline-offset-4 transition-all flex items-center gap-2">
+                                        <Upload size={16} /> Or try on your own garment
+                                    </button>
                                 </div>
                             </div>
                         </div>
@@ -565,47 +1122,151 @@ const VirtualTryOn: React.FC = () => {
                         </div>
                         <h3 className="mt-8 text-2xl font-bold text-white">Preparing Your Recommendation Outfits</h3>
                         <p className="mt-2 text-gray-400">Our AI is curating the best looks based on your style...</p>
+                        <button onClick={handleStopGenerating} className="mt-6 px-6 py-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+                            Cancel
+                        </button>
                     </div>
                 );
 
             case 'CHOOSE_GARMENT':
+                if (isGarmentUploadOpen) {
+                    return <GarmentUpload onGarmentReady={handleUploadedGarment} onCancel={handleCancelGarmentUpload} />;
+                }
+
                 return (
                     <div className="fade-in">
-                        <h3 className="text-2xl font-bold text-center text-amber-400 mb-8">Step 3: Choose Your Favorite Shirt</h3>
+                        <h3 className="text-2xl font-bold text-center text-amber-400 mb-8">Step 3: Choose Your Favorite Piece</h3>
+                        {garmentSlots.some(slot => slot.status === 'pending') ? (
+                            <div className="flex justify-center -mt-4 mb-6">
+                                <button onClick={handleStopGenerating} className="text-sm text-gray-400 hover:text-white underline underline-offset-4 transition-colors">
+                                    Stop generating
+                                </button>
+                            </div>
+                        ) : garmentSlots.some(slot => slot.status === 'ready' && slot.cached) && (
+                            <div className="flex flex-col sm:flex-row justify-center items-center gap-2 -mt-4 mb-6 text-sm text-gray-400">
+                                <span>You've generated these before for the same profile.</span>
+                                <button onClick={handleRegenerateGarments} className="flex items-center gap-1.5 hover:text-white underline decoration-amber-500/50 underline-offset-4 transition-colors">
+                                    <RefreshCw size={14} /> Regenerate anyway
+                                </button>
+                            </div>
+                        )}
                         
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-10">
-                            {recommendedGarments.map((garment, idx) => (
-                                <div 
-                                    key={idx}
-                                    onClick={() => setSelectedGarment(garment)}
-                                    className={`group cursor-pointer relative rounded-xl overflow-hidden border-2 transition-all duration-300 ${selectedGarment === garment ? 'border-amber-500 scale-105 shadow-[0_0_20px_rgba(245,158,11,0.3)]' : 'border-white/10 hover:border-white/30'}`}
-                                >
-                                    <img src={`data:image/png;base64,${garment}`} alt={`Option ${idx + 1}`} className="w-full h-64 object-cover" />
-                                    <div className="absolute bottom-0 inset-x-0 bg-gradient-to-t from-black/90 to-transparent p-4 pt-10">
-                                        <p className="font-bold text-white">{recommendedGarmentDetails[idx]?.itemName || `Option ${idx + 1}`}</p>
-                                        <p className="text-xs text-amber-200 mt-1">{recommendedGarmentDetails[idx]?.styleCategory}</p>
-                                    </div>
-                                    {selectedGarment === garment && (
-                                        <div className="absolute top-2 right-2 bg-amber-500 text-black p-1 rounded-full shadow-lg">
-                                            <CheckCircle size={20} />
+                            {garmentSlots.map((slot, idx) => {
+                                if (slot.status === 'pending') {
+                                    return (
+                                        <div key={idx} className="flex flex-col items-center justify-center h-64 rounded-xl border-2 border-white/10 bg-black/20 animate-pulse">
+                                            <Sparkles className="text-amber-400 mb-3" size={28} />
+                                            <p className="font-bold text-white">{slot.details.itemName}</p>
+                                            <p className="text-xs text-gray-400 mt-1">Generating...</p>
                                         </div>
-                                    )}
-                                </div>
-                            ))}
-                        </div>
-
-                        <div className="flex flex-col sm:flex-row justify-center items-center gap-4">
-                             <button onClick={handleStartOver} className="px-6 py-3 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
-                                Start Over
-                            </button>
-                            <PrimaryButton 
-                                onClick={handlePerformTryOn} 
-                                disabled={!selectedGarment} 
-                                isLoading={isTryOnLoading}
+                                    );
+                                }
+                                if (slot.status === 'failed') {
+                                    return (
+                                        <div key={idx} className="flex flex-col items-center justify-center h-64 p-4 text-center rounded-xl border-2 border-dashed border-red-500/40 bg-red-500/5">
+                                            <AlertTriangle className="text-red-400 mb-2" size={28} />
+                                            <p className="font-bold text-white">{slot.details.itemName}</p>
+                                            <p className="text-sm text-red-300 mt-1">{slot.error.title}</p>
+                                            <p className="text-xs text-gray-400 mt-1 mb-4">{slot.error.message}</p>
+                                            <button
+                                                onClick={() => handleRetryVariation(idx)}
+                                                className="flex items-center gap-2 px-4 py-2 bg-white/10 text-white text-sm font-semibold rounded-lg hover:bg-white/20 transition-colors"
+                                            >
+                                                <RefreshCw size={16} /> Retry
+                                            </button>
+                                        </div>
+                                    );
+                                }
+                                const garment = slot.image;
+                                return (
+                                    <div 
+                                        key={idx}
+                                        onClick={() => setSelectedGarment(garment)}
+                                        className={`group cursor-pointer relative rounded-xl overflow-hidden border-2 transition-all duration-300 ${selectedGarment === garment ? 'border-amber-500 scale-105 shadow-[0_0_20px_rgba(245,158,11,0.3)]' : 'border-white/10 hover:border-white/30'}`}
+                                    >
+                                        <div className="relative">
+                                            <img src={`data:image/png;base64,${garment}`} alt={`Option ${idx + 1}`} className="w-full h-64 object-cover" />
+                                            <div className="absolute bottom-0 inset-x-0 bg-gradient-to-t from-black/90 to-transparent p-4 pt-10">
+                                                <p className="font-bold text-white">{slot.details?.itemName || `Option ${idx + 1}`}</p>
+                                                <p className="text-xs text-amber-200 mt-1">{slot.details?.styleCategory}</p>
+                                            </div>
+                                        </div>
+                                        {slot.details && (
+                                            <div className="p-3 bg-black/40">
+                                                <ShopTheLook matches={productMatches[garment]} compact />
+                                            </div>
+                                        )}
+                                        {selectedGarment === garment && (
+                                            <div className="absolute top-2 right-2 bg-amber-500 text-black p-1 rounded-full shadow-lg">
+                                                <CheckCircle size={20} />
+                                            </div>
+                                        )}
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleSaveGarment(garment); }}
+                                            disabled={savedGarments.includes(garment)}
+                                            className="absolute top-2 left-2 bg-black/60 text-white p-1.5 rounded-full hover:bg-black/80 disabled:text-amber-400 transition-colors"
+                                            aria-label={savedGarments.includes(garment) ? 'Saved to wardrobe' : 'Save to wardrobe'}
+                                        >
+                                            {savedGarments.includes(garment) ? <BookmarkCheck size={18} /> : <Bookmark size={18} />}
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                            <button
+                                onClick={handleOpenGarmentUpload}
+                                className="group flex flex-col items-center justify-center h-64 bg-black/20 border-2 border-dashed border-gray-600 rounded-xl hover:border-amber-500 hover:bg-amber-500/10 transition-all duration-300"
                             >
-                                <Wand2 size={20} /> Try It On
-                            </PrimaryButton>
+                                <Upload size={40} className="text-gray-500 mb-3 group-hover:text-amber-400 transition-colors" />
+                                <span className="font-bold text-white group-hover:text-amber-400 transition-colors">Upload Your Own</span>
+                                <span className="text-xs text-gray-400 mt-1">Try on a product you found</span>
+                            </button>
                         </div>
+
+                        <label className="flex items-start justify-center gap-2 mb-6 text-sm text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={keepFaceAndBackground}
+                                onChange={e => setKeepFaceAndBackground(e.target.checked)}
+                                className="mt-0.5 accent-amber-500"
+                            />
+                            <span>
+                                Keep my face and background exactly as they are
+                                <span className="block text-xs text-gray-500">Restores everything outside the garment from your photo. Takes a little longer.</span>
+                            </span>
+                        </label>
+
+                        {batchItems ? (
+                            <BatchProgress items={batchItems} onStop={handleStopBatch} />
+                        ) : (
+                            <div className="flex flex-col sm:flex-row justify-center items-center gap-4">
+                                <button onClick={handleStartOver} className="px-6 py-3 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+                                    Start Over
+                                </button>
+                                {readyGarments.length > 1 && (
+                                    <button
+                                        onClick={handleTryOnAll}
+                                        disabled={isTryOnLoading}
+                                        className="px-6 py-3 bg-white/10 text-white font-semibold rounded-lg hover:bg-white/20 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+                                    >
+                                        <Layers size={18} /> Try On All ({readyGarments.length})
+                                    </button>
+                                )}
+                                <PrimaryButton 
+                                    onClick={handlePerformTryOn} 
+                                    disabled={!selectedGarment} 
+                                    isLoading={isTryOnLoading}
+                                >
+                                    <Wand2 size={20} /> Try It On
+                                </PrimaryButton>
+                            </div>
+                        )}
+
+                        {tryOnHistory.length > 0 && !batchItems && (
+                            <div className="w-full mt-8">
+                                <TryOnHistory attempts={tryOnHistory} activeId={activeAttemptId} onSelect={handleSelectAttempt} onToggleFavorite={handleToggleFavorite} />
+                            </div>
+                        )}
                     </div>
                 );
 
@@ -613,23 +1274,88 @@ const VirtualTryOn: React.FC = () => {
                 return (
                     <div className="fade-in flex flex-col items-center w-full">
                         <div className="w-full mb-8">
-                           {personImage && <TryOnComparisonView originalImage={personImage.preview} resultImage={resultImage} />}
+                           {personImage && activeAttempt && (
+                               <ComparisonView
+                                   images={[
+                                       { label: 'Before', src: personImage.preview },
+                                       ...tryOnHistory.map((attempt, idx) => ({ label: attemptLabel(attempt, idx), src: `data:image/png;base64,${attempt.resultImage}` })),
+                                   ]}
+                                   focusIndex={tryOnHistory.indexOf(activeAttempt) + 1}
+                               />
+                           )}
                         </div>
 
-                        {styleComparisonText && (
+                        {tryOnHistory.length > 1 && (
+                            <div className="w-full mb-8">
+                                <TryOnHistory attempts={tryOnHistory} activeId={activeAttemptId} onSelect={handleSelectAttempt} onToggleFavorite={handleToggleFavorite} />
+                            </div>
+                        )}
+
+                        {activeAttempt?.cached && (
+                            <div className="flex flex-col sm:flex-row justify-center items-center gap-2 mb-8 text-sm text-gray-400">
+                                <span>This is the result from the last time you tried this on.</span>
+                                <button onClick={handleRegenerateTryOn} disabled={isTryOnLoading} className="flex items-center gap-1.5 hover:text-white disabled:opacity-50 underline decoration-amber-500/50 underline-offset-4 transition-colors">
+                                    {isTryOnLoading ? <><Spinner /> Regenerating...</> : <><RefreshCw size={14} /> Regenerate anyway</>}
+                                </button>
+                            </div>
+                        )}
+
+                        {activeAttempt?.review && activeAttempt.review.alterations.length > 0 && (
+                            <div className="w-full max-w-2xl mx-auto bg-amber-900/30 border border-amber-700/60 text-amber-200 px-4 py-3 rounded-lg flex items-start gap-3 mb-8">
+                                <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                                <div className="text-sm">
+                                    <p className="font-bold">This result changed more than the outfit</p>
+                                    <p className="opacity-90">{describeAlterations(activeAttempt.review)}</p>
+                                </div>
+                            </div>
+                        )}
+
+                        {activeAttempt?.comparisonText && (
                             <div className="max-w-2xl mx-auto bg-amber-500/10 border border-amber-500/20 rounded-lg p-4 mb-8 text-center" style={{ animation: 'fadeIn 0.8s ease-out 0.5s backwards' }}>
-                                <p className="text-amber-200 italic text-lg">"{styleComparisonText}"</p>
+                                <p className="text-amber-200 italic text-lg">"{activeAttempt.comparisonText}"</p>
+                            </div>
+                        )}
+
+                        {activeAttempt && (
+                            <div className="w-full max-w-2xl mx-auto bg-black/20 border border-white/10 rounded-xl p-4 mb-8 space-y-4">
+                                {[...activeAttempt.layers, activeAttempt].map(({ garmentImage: garment, garmentDetails: details }) => (
+                                    <div key={garment} className="flex gap-3">
+                                        <img src={`data:image/png;base64,${garment}`} alt={details?.itemName ?? 'Garment'} className="w-16 h-16 object-cover rounded-lg flex-shrink-0" />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-bold text-white mb-1">{details?.itemName ?? 'Your garment'}</p>
+                                            {details && <ShopTheLook matches={productMatches[garment]} />}
+                                        </div>
+                                    </div>
+                                ))}
                             </div>
                         )}
 
                         <div className="flex flex-col sm:flex-row gap-4">
                             <button onClick={handleStartOver} className="px-6 py-3 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
                                 Start Over
+                            </button>
+                            {garmentSlots.length > 0 && (
+                                <button onClick={() => setStep('CHOOSE_GARMENT')} className="px-6 py-3 bg-white/10 text-white font-semibold rounded-lg hover:bg-white/20 transition-colors flex items-center justify-center gap-2">
+                                    <Shirt size={18} /> Try Another Garment
+                                </button>
+                            )}
+                            <button onClick={handleAddLayer} className="px-6 py-3 bg-white/10 text-white font-semibold rounded-lg hover:bg-white/20 transition-colors flex items-center justify-center gap-2">
+                                <Plus size={18} /> Add Another Piece
+                            </button>
+                            <button onClick={handleSaveResult} disabled={activeAttempt?.isSaved} className="px-6 py-3 bg-white/10 text-white font-semibold rounded-lg hover:bg-white/20 disabled:text-amber-400 disabled:cursor-default transition-colors flex items-center justify-center gap-2">
+                                {activeAttempt?.isSaved ? <><BookmarkCheck size={18} /> Saved to Wardrobe</> : <><Bookmark size={18} /> Save to Wardrobe</>}
+                            </button>
+                            <button onClick={() => setIsExportOpen(open => !open)} aria-expanded={isExportOpen} className="px-6 py-3 bg-white/10 text-white font-semibold rounded-lg hover:bg-white/20 transition-colors flex items-center justify-center gap-2">
+                                <Share2 size={18} /> Share Card
                             </button>
                              <PrimaryButton onClick={handleDownloadResult}>
                                 <Download size={20} /> Save Result
                             </PrimaryButton>
                         </div>
+
+                        {isExportOpen && outfitCard && (
+                            <ExportPanel card={outfitCard} lookbook={lookbookCards} onClose={() => setIsExportOpen(false)} />
+                        )}
                     </div>
                 );
         }
@@ -637,18 +1363,56 @@ const VirtualTryOn: React.FC = () => {
 
     return (
         <div className="relative min-h-[600px] flex flex-col items-center justify-center">
+            {!isWardrobeOpen && (
+                <button
+                    onClick={() => setIsWardrobeOpen(true)}
+                    className="absolute top-0 right-0 flex items-center gap-2 px-4 py-2 bg-white/10 text-white text-sm font-semibold rounded-lg hover:bg-white/20 transition-colors"
+                >
+                    <Shirt size={16} /> My Wardrobe
+                </button>
+            )}
             {error && (
                 <div className="w-full max-w-2xl mb-6 bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-lg flex items-start gap-3 fade-in">
                     <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
                     <div>
                         <h4 className="font-bold">{error.title}</h4>
                         <p className="text-sm opacity-90">{error.message}</p>
+                        {(canRetryError || canChooseAnotherPhoto) && (
+                            <div className="flex gap-2 mt-3">
+                                {canRetryError && (
+                                    <button
+                                        onClick={handleRetryError}
+                                        disabled={isBusy}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 bg-red-500/20 text-white text-sm font-semibold rounded-lg hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                                    >
+                                        <RefreshCw size={14} /> Try again
+                                    </button>
+                                )}
+                                {canChooseAnotherPhoto && (
+                                    <button
+                                        onClick={handleChooseAnotherPhoto}
+                                        disabled={isBusy}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 bg-red-500/20 text-white text-sm font-semibold rounded-lg hover:bg-red-500/30 transition-colors disabled:opacity-50"
+                                    >
+                                        <Camera size={14} /> Choose another photo
+                                    </button>
+                                )}
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
             
-            {renderContent()}
-            <FloatingChatBubble />
+            {isWardrobeOpen ? (
+                <WardrobeGallery
+                    userId={userId}
+                    canTryOnGarments={personImage !== null}
+                    onTryOnGarment={handleTryOnSavedGarment}
+                    onRerunTryOn={handleRerunTryOn}
+                    onClose={() => setIsWardrobeOpen(false)}
+                />
+            ) : renderContent()}
+            <FloatingChatBubble attachments={chatAttachments} context={stylistContext} onAction={handleStylistAction} />
         </div>
     );
 };
@@ -1,8 +1,17 @@
 import React, { useState } from 'react';
 import FashionChat from '../FashionChat';
+import type { ChatAttachment } from '../FashionChat';
+import type { StylistAction, StylistContext } from '../../types';
 import { MessageSquare, X } from 'lucide-react';
 
-const FloatingChatBubble: React.FC = () => {
+interface FloatingChatBubbleProps {
+  // Images from the try-on flow that can be attached to a chat message.
+  attachments?: ChatAttachment[];
+  context?: StylistContext | null;
+  onAction?: (action: StylistAction) => void;
+}
+
+const FloatingChatBubble: React.FC<FloatingChatBubbleProps> = ({ attachments, context, onAction }) => {
   const [isChatOpen, setIsChatOpen] = useState(false);
 
   return (
@@ -15,7 +24,7 @@ const FloatingChatBubble: React.FC = () => {
       >
         {isChatOpen ? <X size={28} /> : <MessageSquare size={28} />}
       </button>
-      <FashionChat isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} />
+      <FashionChat isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} attachments={attachments} context={context} onAction={onAction} />
     </>
   );
 };
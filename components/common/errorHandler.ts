@@ -1,59 +1,107 @@
+import { ApiError, isRetryableCode } from '../../services/apiErrors';
+import type { ApiErrorCode } from '../../services/apiErrors';
+import { ServiceError } from '../../services/serviceErrors';
+
+// What the UI can offer next to an error.
+export type ErrorAction = 'retry' | 'choose-photo';
+
 export interface FriendlyError {
     title: string;
     message: string;
+    actions?: ErrorAction[];
 }
 
+const actionsFor = (code: ApiErrorCode): ErrorAction[] => {
+    if (code === 'SAFETY_BLOCKED' || code === 'INVALID_IMAGE') {
+        return ['choose-photo'];
+    }
+    return isRetryableCode(code) ? ['retry'] : [];
+};
+
+const describeCode = (error: ApiError | ServiceError): Omit<FriendlyError, 'actions'> | null => {
+    switch (error.code) {
+        case 'RATE_LIMITED':
+            return {
+                title: 'Too Many Requests',
+                message: `You're going a little fast. Please wait ${(error instanceof ApiError && error.retryAfterSeconds) || 30} seconds and try again.`
+            };
+        case 'UNAUTHORIZED':
+            return {
+                title: 'Session Expired',
+                message: 'Your session has ended. Please sign out and sign in again to continue.'
+            };
+        case 'QUOTA_EXCEEDED':
+            return {
+                title: 'API Quota Exceeded',
+                message: 'The AI service has reached its request limit. Please try again later.'
+            };
+        case 'CONFIGURATION':
+            return {
+                title: 'Configuration Error',
+                message: 'The service is not configured correctly. Please contact support.'
+            };
+        case 'BAD_REQUEST':
+            return {
+                title: 'Invalid Request',
+                message: 'Some of the information sent was invalid. Please check your photo and selections and try again.'
+            };
+        case 'SAFETY_BLOCKED':
+            return {
+                title: 'Blocked by Safety Filters',
+                message: "The AI declined this request because of its safety filters. Please try a different photo or garment."
+            };
+        case 'INVALID_IMAGE':
+            return {
+                title: 'Photo Could Not Be Used',
+                // Errors raised while preparing the photo say what to do about it.
+                message: error instanceof ServiceError
+                    ? error.message
+                    : "We couldn't read or process this photo. Please choose a clear JPEG, PNG, WebP or HEIC photo."
+            };
+        case 'NETWORK':
+            return {
+                title: 'Connection Issue',
+                message: 'We couldn\'t reach our AI services. Please check your internet connection and try again.'
+            };
+        case 'TIMEOUT':
+            return {
+                title: 'Request Timed Out',
+                message: 'The AI took too long to respond. This is usually temporary, so please try again.'
+            };
+        case 'MODEL_OUTPUT':
+            return {
+                title: 'Unexpected AI Response',
+                message: "The AI returned something we couldn't use. This is sometimes temporary. Please try again."
+            };
+        case 'UPSTREAM_FAILED':
+            // Carries the service's own message.
+            return {
+                title: 'Request Failed',
+                message: error.message
+            };
+    }
+    return null;
+};
+
 export const getFriendlyErrorMessage = (error: unknown): FriendlyError => {
     const defaultError: FriendlyError = {
         title: 'An Unexpected Error Occurred',
-        message: 'Something went wrong on our end. Please try again in a few moments.'
+        message: 'Something went wrong on our end. Please try again in a few moments.',
+        actions: ['retry'],
     };
 
     if (!(error instanceof Error)) {
         return defaultError;
     }
 
-    const errorMessage = error.message.toLowerCase();
-
-    // Specific error for quota exceeded
-    if (errorMessage.includes("exceeded your current quota") || errorMessage.includes("resource_exhausted")) {
-        return {
-            title: 'API Quota Exceeded',
-            message: 'You have exceeded your request limit for the AI service. Please check your plan and billing details, or try again later.'
-        };
-    }
-
-    // Specific error from geminiService
-    if (errorMessage.includes("could not perform the virtual try-on")) {
-        return {
-            title: 'Virtual Try-On Failed',
-            message: "We couldn't place the garment on the photo. This can happen with complex poses or lighting. Please try a different photo or garment."
-        };
-    }
-
-    if (errorMessage.includes("could not generate")) { // Catches garment recommendation images
-        return {
-            title: 'Image Generation Failed',
-            message: "The AI had trouble creating the images. This is sometimes temporary. Please try again."
-        };
-    }
-
-    // Generic technical errors
-    if (errorMessage.includes('api key')) {
-        return {
-            title: 'Configuration Error',
-            message: 'The service is not configured correctly. Please contact support.'
-        };
-    }
-
-    if (errorMessage.includes('network') || errorMessage.includes('failed to fetch')) {
-        return {
-            title: 'Connection Issue',
-            message: 'We couldn\'t reach our AI services. Please check your internet connection and try again.'
-        };
+    if (error instanceof ApiError || error instanceof ServiceError) {
+        const described = describeCode(error);
+        if (described) {
+            return { ...described, actions: actionsFor(error.code) };
+        }
     }
 
-    // Fallback to the service message if it doesn't match above, but still looks custom
+    // Other errors (storage, image decoding) carry a user-facing message.
     if (error.message.startsWith('Could not')) {
          return {
             title: 'Request Failed',
@@ -62,4 +110,4 @@ export const getFriendlyErrorMessage = (error: unknown): FriendlyError => {
     }
 
     return defaultError;
-};
\ No newline at end of file
+};
@@ -0,0 +1,351 @@
+import React, { useState, useEffect } from 'react';
+import { Heart, Ban, ChevronDown, ScanFace } from 'lucide-react';
+import Spinner from '../common/Spinner';
+import {
+    PRESENTATION_LABELS,
+    STYLE_PRESENTATIONS,
+    FIT_LABELS,
+    CLIMATE_LABELS,
+    MODESTY_LABELS,
+    CURRENCY_OPTIONS,
+    MAX_STYLE_WEIGHT,
+} from '../../services/styleProfile';
+import { TAXONOMY, OCCASION_NAMES, STYLE_NAMES } from '../../services/taxonomy/taxonomy';
+import type { TaxonomyPalette } from '../../services/taxonomy/taxonomy';
+import type { BodyMeasurements, Climate, FitPreference, ModestyConstraint, StylePresentation, StyleProfile } from '../../types';
+
+interface StyleProfileFormProps {
+    profile: StyleProfile;
+    onChange: (profile: StyleProfile) => void;
+    // Offered when there is a photo to look at; the answer is only ever a suggestion.
+    onSuggestPresentation?: () => Promise<StylePresentation | null>;
+}
+
+const inputClass = 'w-full bg-gray-800 border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-amber-500 transition-shadow';
+const labelClass = 'block text-sm font-medium text-gray-400 mb-2';
+
+const MEASUREMENT_LABELS: Record<keyof BodyMeasurements, string> = {
+    height: 'Height',
+    chest: 'Chest / bust',
+    waist: 'Waist',
+    hips: 'Hips',
+};
+
+const toOptionalNumber = (value: string): number | null => {
+    const number = Number(value);
+    return value.trim() === '' || !Number.isFinite(number) || number <= 0 ? null : number;
+};
+
+const splitList = (value: string): string[] =>
+    [...new Set(value.split(',').map(item => item.trim()).filter(Boolean))];
+
+const StyleProfileForm: React.FC<StyleProfileFormProps> = ({ profile, onChange, onSuggestPresentation }) => {
+    // Edited as text so commas can be typed; parsed when the field is left.
+    const [brandsText, setBrandsText] = useState(profile.brands.join(', '));
+    // Undefined until asked for; null when the photo gave no clear lead.
+    const [suggestion, setSuggestion] = useState<StylePresentation | null | undefined>(undefined);
+    const [isSuggesting, setIsSuggesting] = useState(false);
+    const [suggestionError, setSuggestionError] = useState(false);
+
+    useEffect(() => {
+        setBrandsText(profile.brands.join(', '));
+    }, [profile.brands]);
+
+    const update = (changes: Partial<StyleProfile>) => onChange({ ...profile, ...changes });
+
+    const handleSuggest = async () => {
+        if (!onSuggestPresentation) return;
+        setIsSuggesting(true);
+        setSuggestionError(false);
+        try {
+            setSuggestion(await onSuggestPresentation());
+        } catch {
+            setSuggestionError(true);
+        } finally {
+            setIsSuggesting(false);
+        }
+    };
+
+    const toggleStyle = (name: string) => {
+        const isSelected = profile.styles.some(style => style.name === name);
+        if (isSelected && profile.styles.length === 1) return;
+        update({
+            styles: isSelected
+                ? profile.styles.filter(style => style.name !== name)
+                : [...profile.styles, { name, weight: Math.ceil(MAX_STYLE_WEIGHT / 2) }],
+        });
+    };
+
+    const setStyleWeight = (name: string, weight: number) =>
+        update({ styles: profile.styles.map(style => style.name === name ? { ...style, weight } : style) });
+
+    // Each click moves a color along: no opinion, favourite, avoided.
+    const cycleColor = (name: string) => {
+        const favoriteColors = profile.favoriteColors.filter(color => color !== name);
+        const avoidedColors = profile.avoidedColors.filter(color => color !== name);
+        if (profile.favoriteColors.includes(name)) {
+            avoidedColors.push(name);
+        } else if (!profile.avoidedColors.includes(name)) {
+            favoriteColors.push(name);
+        }
+        update({ favoriteColors, avoidedColors });
+    };
+
+    // A palette adds its colors to the favourites, even ones previously avoided.
+    const applyPalette = ({ colors }: TaxonomyPalette) =>
+        update({
+            favoriteColors: [...new Set([...profile.favoriteColors, ...colors])],
+            avoidedColors: profile.avoidedColors.filter(color => !colors.includes(color)),
+        });
+
+    const toggleModesty = (key: ModestyConstraint) =>
+        update({ modesty: profile.modesty.includes(key) ? profile.modesty.filter(item => item !== key) : [...profile.modesty, key] });
+
+    // Colors set by the stylist chat may not be among the swatches.
+    const knownColors = new Set(TAXONOMY.colors.map(color => color.name));
+    const colors = [
+        ...TAXONOMY.colors,
+        ...[...profile.favoriteColors, ...profile.avoidedColors].filter(name => !knownColors.has(name)).map(name => ({ name, hex: null })),
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <p id="profile-presentation" className={labelClass}>Style presentation</p>
+                <div role="radiogroup" aria-labelledby="profile-presentation" className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {STYLE_PRESENTATIONS.map(presentation => (
+                        <button
+                            key={presentation}
+                            type="button"
+                            role="radio"
+                            aria-checked={profile.presentation === presentation}
+                            onClick={() => update({ presentation })}
+                            className={`px-3 py-2 text-sm text-left rounded-lg transition-colors ${profile.presentation === presentation ? 'bg-amber-500 text-gray-900 font-semibold' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                        >
+                            {PRESENTATION_LABELS[presentation]}
+                        </button>
+                    ))}
+                </div>
+                {!profile.presentation && <p className="mt-2 text-xs text-amber-300">Choose which departments to design from before generating.</p>}
+                {onSuggestPresentation && (
+                    <div className="mt-2 flex items-center gap-2 text-sm text-gray-400">
+                        {isSuggesting ? (
+                            <><Spinner /> Looking at your outfit...</>
+                        ) : suggestion ? (
+                            <>
+                                Suggested from your photo: <span className="text-white">{PRESENTATION_LABELS[suggestion]}</span>
+                                {profile.presentation !== suggestion && (
+                                    <button type="button" onClick={() => update({ presentation: suggestion })} className="text-amber-400 hover:text-amber-300 underline underline-offset-4">
+                                        Use it
+                                    </button>
+                                )}
+                            </>
+                        ) : (
+                            <>
+                                {suggestion === null && <span>Your photo gave no clear lead.</span>}
+                                {suggestionError && <span className="text-red-300">Couldn't get a suggestion.</span>}
+                                {suggestion === undefined && (
+                                    <button type="button" onClick={handleSuggest} className="flex items-center gap-1.5 hover:text-white underline decoration-amber-500/50 underline-offset-4">
+                                        <ScanFace size={14} /> Suggest from my photo
+                                    </button>
+                                )}
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <label htmlFor="profile-occasion" className={labelClass}>Occasion</label>
+                <select id="profile-occasion" value={profile.occasion} onChange={(e) => update({ occasion: e.target.value })} className={inputClass}>
+                    {!OCCASION_NAMES.includes(profile.occasion) && <option>{profile.occasion}</option>}
+                    {OCCASION_NAMES.map(occasion => <option key={occasion}>{occasion}</option>)}
+                </select>
+            </div>
+
+            <div>
+                <p className={labelClass}>Style Vibe <span className="text-gray-500 font-normal">(pick one or more)</span></p>
+                <div className="flex flex-wrap gap-2">
+                    {[...new Set([...STYLE_NAMES, ...profile.styles.map(style => style.name)])].map(name => {
+                        const isSelected = profile.styles.some(style => style.name === name);
+                        return (
+                            <button
+                                key={name}
+                                type="button"
+                                onClick={() => toggleStyle(name)}
+                                aria-pressed={isSelected}
+                                className={`px-3 py-1.5 text-sm rounded-full transition-colors ${isSelected ? 'bg-amber-500 text-gray-900 font-semibold' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                            >
+                                {name}
+                            </button>
+                        );
+                    })}
+                </div>
+                {profile.styles.length > 1 && (
+                    <div className="mt-3 space-y-2">
+                        {profile.styles.map(style => (
+                            <div key={style.name} className="flex items-center gap-3 text-sm">
+                                <span className="w-24 truncate text-gray-300">{style.name}</span>
+                                <span className="text-xs text-gray-500">A touch</span>
+                                <input
+                                    type="range"
+                                    min={1}
+                                    max={MAX_STYLE_WEIGHT}
+                                    value={style.weight}
+                                    onChange={(e) => setStyleWeight(style.name, Number(e.target.value))}
+                                    aria-label={`How much ${style.name}`}
+                                    className="flex-1 accent-amber-500"
+                                />
+                                <span className="text-xs text-gray-500">Mostly</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <p className={labelClass}>Colors <span className="text-gray-500 font-normal">(click once to favour, twice to avoid)</span></p>
+                <div className="flex flex-wrap gap-2">
+                    {colors.map(({ name, hex }) => {
+                        const isFavorite = profile.favoriteColors.includes(name);
+                        const isAvoided = profile.avoidedColors.includes(name);
+                        return (
+                            <button
+                                key={name}
+                                type="button"
+                                onClick={() => cycleColor(name)}
+                                aria-label={`${name}: ${isFavorite ? 'favourite' : isAvoided ? 'avoided' : 'no preference'}`}
+                                className={`flex items-center gap-1.5 pl-1.5 pr-2.5 py-1 text-xs rounded-full border transition-colors ${isFavorite ? 'border-amber-500 bg-amber-500/10 text-white' : isAvoided ? 'border-red-500/60 bg-red-500/10 text-gray-400 line-through' : 'border-white/10 bg-white/5 text-gray-300 hover:border-white/30'}`}
+                            >
+                                {hex ? <span className="w-4 h-4 rounded-full border border-white/20" style={{ backgroundColor: hex }} /> : null}
+                                {name}
+                                {isFavorite && <Heart size={12} className="text-amber-400" fill="currentColor" />}
+                                {isAvoided && <Ban size={12} className="text-red-400" />}
+                            </button>
+                        );
+                    })}
+                </div>
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                    Add a palette:
+                    {TAXONOMY.palettes.map(palette => (
+                        <button
+                            key={palette.name}
+                            type="button"
+                            onClick={() => applyPalette(palette)}
+                            title={palette.colors.join(', ')}
+                            className="flex items-center gap-1.5 px-2.5 py-1 rounded-full border border-white/10 bg-white/5 text-gray-300 hover:border-white/30 transition-colors"
+                        >
+                            <span className="flex -space-x-1">
+                                {palette.colors.map(name => (
+                                    <span key={name} className="w-3 h-3 rounded-full border border-gray-900" style={{ backgroundColor: TAXONOMY.colors.find(color => color.name === name)?.hex }} />
+                                ))}
+                            </span>
+                            {palette.name}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="profile-fit" className={labelClass}>Fit</label>
+                    <select id="profile-fit" value={profile.fit} onChange={(e) => update({ fit: e.target.value as FitPreference })} className={inputClass}>
+                        {(Object.keys(FIT_LABELS) as FitPreference[]).map(fit => <option key={fit} value={fit}>{FIT_LABELS[fit]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="profile-climate" className={labelClass}>Climate</label>
+                    <select id="profile-climate" value={profile.climate ?? ''} onChange={(e) => update({ climate: (e.target.value || null) as Climate | null })} className={inputClass}>
+                        <option value="">Any</option>
+                        {(Object.keys(CLIMATE_LABELS) as Climate[]).map(climate => <option key={climate} value={climate}>{CLIMATE_LABELS[climate]}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <details className="group">
+                <summary className="flex items-center gap-2 cursor-pointer text-sm font-medium text-gray-400 hover:text-white list-none">
+                    <ChevronDown size={16} className="transition-transform group-open:rotate-180" /> Measurements, budget, coverage and brands
+                </summary>
+                <div className="mt-4 space-y-6">
+                    <div>
+                        <p className={labelClass}>Measurements (cm)</p>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                            {(Object.keys(MEASUREMENT_LABELS) as (keyof BodyMeasurements)[]).map(key => (
+                                <input
+                                    key={key}
+                                    type="number"
+                                    min={1}
+                                    inputMode="decimal"
+                                    placeholder={MEASUREMENT_LABELS[key]}
+                                    aria-label={`${MEASUREMENT_LABELS[key]} in centimetres`}
+                                    value={profile.measurements[key] ?? ''}
+                                    onChange={(e) => update({ measurements: { ...profile.measurements, [key]: toOptionalNumber(e.target.value) } })}
+                                    className={inputClass}
+                                />
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <p className={labelClass}>Budget per piece</p>
+                        <div className="grid grid-cols-3 gap-3">
+                            <input
+                                type="number"
+                                min={1}
+                                placeholder="Min"
+                                aria-label="Minimum price"
+                                value={profile.budget.min ?? ''}
+                                onChange={(e) => update({ budget: { ...profile.budget, min: toOptionalNumber(e.target.value) } })}
+                                className={inputClass}
+                            />
+                            <input
+                                type="number"
+                                min={1}
+                                placeholder="Max"
+                                aria-label="Maximum price"
+                                value={profile.budget.max ?? ''}
+                                onChange={(e) => update({ budget: { ...profile.budget, max: toOptionalNumber(e.target.value) } })}
+                                className={inputClass}
+                            />
+                            <select aria-label="Currency" value={profile.budget.currency} onChange={(e) => update({ budget: { ...profile.budget, currency: e.target.value } })} className={inputClass}>
+                                {CURRENCY_OPTIONS.map(currency => <option key={currency}>{currency}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <p className={labelClass}>Coverage</p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {(Object.keys(MODESTY_LABELS) as ModestyConstraint[]).map(key => (
+                                <label key={key} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={profile.modesty.includes(key)}
+                                        onChange={() => toggleModesty(key)}
+                                        className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-amber-500 focus:ring-amber-500"
+                                    />
+                                    {MODESTY_LABELS[key]}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label htmlFor="profile-brands" className={labelClass}>Brands you like</label>
+                        <input
+                            id="profile-brands"
+                            type="text"
+                            placeholder="e.g. Uniqlo, COS, Arket"
+                            value={brandsText}
+                            onChange={(e) => setBrandsText(e.target.value)}
+                            onBlur={() => update({ brands: splitList(brandsText) })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+            </details>
+        </div>
+    );
+};
+
+export default StyleProfileForm;
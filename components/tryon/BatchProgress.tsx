@@ -0,0 +1,53 @@
+import React from 'react';
+import { CheckCircle, XCircle, Square } from 'lucide-react';
+import Spinner from '../common/Spinner';
+
+export interface BatchItem {
+    garmentImage: string;
+    label: string;
+    status: 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+}
+
+interface BatchProgressProps {
+    items: BatchItem[];
+    onStop: () => void;
+}
+
+const BatchProgress: React.FC<BatchProgressProps> = ({ items, onStop }) => {
+    const finished = items.filter(item => item.status !== 'queued' && item.status !== 'running').length;
+    const isRunning = items.some(item => item.status === 'queued' || item.status === 'running');
+
+    return (
+        <div className="w-full max-w-xl mx-auto bg-black/30 p-5 rounded-xl border border-white/10 fade-in">
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="font-bold text-white">Trying on {items.length} garments</h4>
+                <span className="text-sm text-gray-400">{finished} of {items.length}</span>
+            </div>
+            <div className="h-2 bg-white/10 rounded-full overflow-hidden mb-4">
+                <div className="h-full bg-amber-500 transition-all duration-500" style={{ width: `${(finished / items.length) * 100}%` }} />
+            </div>
+            <ul className="space-y-2 mb-4">
+                {items.map(item => (
+                    <li key={item.garmentImage} className="flex items-center gap-3 text-sm">
+                        <img src={`data:image/png;base64,${item.garmentImage}`} alt="" className="w-10 h-10 object-cover rounded-md flex-shrink-0" />
+                        <span className="flex-1 truncate text-gray-200">{item.label}</span>
+                        {item.status === 'queued' && <span className="text-gray-500">Waiting</span>}
+                        {item.status === 'running' && <Spinner />}
+                        {item.status === 'done' && <CheckCircle size={18} className="text-green-400" />}
+                        {item.status === 'failed' && <XCircle size={18} className="text-red-400" />}
+                        {item.status === 'skipped' && <span className="text-gray-500">Skipped</span>}
+                    </li>
+                ))}
+            </ul>
+            <button
+                onClick={onStop}
+                disabled={!isRunning}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white/10 text-white text-sm font-semibold rounded-lg hover:bg-white/20 disabled:opacity-50 transition-colors"
+            >
+                <Square size={14} /> Stop
+            </button>
+        </div>
+    );
+};
+
+export default BatchProgress;
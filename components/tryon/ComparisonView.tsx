@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Columns2, SquareSplitHorizontal, Repeat, ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+
+export interface ComparisonImage {
+    label: string;
+    src: string;
+}
+
+interface ComparisonViewProps {
+    // The original photo first, then every try-on result worth comparing.
+    images: ComparisonImage[];
+    // The image on the right, following a result picked elsewhere; the newest by default.
+    focusIndex?: number;
+}
+
+type ComparisonMode = 'slider' | 'side-by-side' | 'flicker';
+
+// Zoom and pan shared by every viewport, in viewport pixels.
+interface View {
+    scale: number;
+    x: number;
+    y: number;
+}
+
+const MAX_ZOOM = 6;
+const WHEEL_ZOOM_SPEED = 0.002;
+const BUTTON_ZOOM_STEP = 1.5;
+const FLICKER_INTERVAL_MS = 400;
+const SLIDER_KEY_STEP = 0.05;
+const RESET_VIEW: View = { scale: 1, x: 0, y: 0 };
+
+const MODES: { mode: ComparisonMode; label: string; icon: React.ReactNode }[] = [
+    { mode: 'slider', label: 'Slider', icon: <SquareSplitHorizontal size={16} /> },
+    { mode: 'side-by-side', label: 'Side by side', icon: <Columns2 size={16} /> },
+    { mode: 'flicker', label: 'Flicker', icon: <Repeat size={16} /> },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Zooms by `factor` around a point in the viewport, keeping the image covering it.
+const zoomAt = (view: View, factor: number, px: number, py: number, width: number, height: number): View => {
+    const scale = clamp(view.scale * factor, 1, MAX_ZOOM);
+    const ratio = scale / view.scale;
+    return {
+        scale,
+        x: clamp(px - (px - view.x) * ratio, width * (1 - scale), 0),
+        y: clamp(py - (py - view.y) * ratio, height * (1 - scale), 0),
+    };
+};
+
+const panBy = (view: View, dx: number, dy: number, width: number, height: number): View => ({
+    ...view,
+    x: clamp(view.x + dx, width * (1 - view.scale), 0),
+    y: clamp(view.y + dy, height * (1 - view.scale), 0),
+});
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ images, focusIndex = images.length - 1 }) => {
+    const [mode, setMode] = useState<ComparisonMode>('slider');
+    const [leftIndex, setLeftIndex] = useState(0);
+    const [rightIndex, setRightIndex] = useState(focusIndex);
+    const [split, setSplit] = useState(0.5);
+    const [view, setView] = useState<View>(RESET_VIEW);
+    const [isFlickerRight, setIsFlickerRight] = useState(false);
+    const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+    const viewportsRef = useRef<(HTMLDivElement | null)[]>([]);
+    const isDraggingSplitRef = useRef(false);
+
+    // A new or newly picked result is shown as soon as it arrives.
+    useEffect(() => {
+        setLeftIndex(prev => Math.min(prev, images.length - 1));
+        setRightIndex(focusIndex);
+    }, [images.length, focusIndex]);
+
+    useEffect(() => {
+        if (mode !== 'flicker') return;
+        const timer = setInterval(() => setIsFlickerRight(prev => !prev), FLICKER_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [mode]);
+
+    // React's wheel listeners are passive, so page scrolling can only be
+    // stopped with a native listener.
+    useEffect(() => {
+        const handleWheel = (e: WheelEvent) => {
+            const viewport = e.currentTarget as HTMLDivElement;
+            const rect = viewport.getBoundingClientRect();
+            e.preventDefault();
+            setView(prev => zoomAt(prev, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), e.clientX - rect.left, e.clientY - rect.top, rect.width, rect.height));
+        };
+        const viewports = viewportsRef.current.filter((v): v is HTMLDivElement => v !== null);
+        viewports.forEach(v => v.addEventListener('wheel', handleWheel, { passive: false }));
+        return () => viewports.forEach(v => v.removeEventListener('wheel', handleWheel));
+    }, [mode]);
+
+    const left = images[leftIndex] ?? images[0];
+    const right = images[rightIndex] ?? images[images.length - 1];
+
+    const updateSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        setSplit(clamp((e.clientX - rect.left) / rect.width, 0, 1));
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (isDraggingSplitRef.current) {
+            updateSplit(e);
+            return;
+        }
+        const pointers = pointersRef.current;
+        const previous = pointers.get(e.pointerId);
+        if (!previous) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+
+        if (pointers.size === 2) {
+            // Pinch: zoom by the change in finger distance, around their midpoint.
+            const [other] = [...pointers.entries()].filter(([id]) => id !== e.pointerId).map(([, p]) => p);
+            const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+            const after = Math.hypot(e.clientX - other.x, e.clientY - other.y);
+            if (before > 0) {
+                const midX = (e.clientX + other.x) / 2 - rect.left;
+                const midY = (e.clientY + other.y) / 2 - rect.top;
+                setView(prev => zoomAt(prev, after / before, midX, midY, rect.width, rect.height));
+            }
+        } else {
+            setView(prev => panBy(prev, e.clientX - previous.x, e.clientY - previous.y, rect.width, rect.height));
+        }
+        pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        pointersRef.current.delete(e.pointerId);
+        isDraggingSplitRef.current = false;
+    };
+
+    const handleSplitPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.stopPropagation();
+        // Captured by the viewport, so the drag carries on outside the handle.
+        e.currentTarget.parentElement?.setPointerCapture(e.pointerId);
+        isDraggingSplitRef.current = true;
+    };
+
+    const handleSplitKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+            e.preventDefault();
+            setSplit(prev => clamp(prev + (e.key === 'ArrowLeft' ? -SLIDER_KEY_STEP : SLIDER_KEY_STEP), 0, 1));
+        }
+    };
+
+    const zoomByButton = (factor: number) => {
+        const viewport = viewportsRef.current.find(v => v !== null);
+        if (!viewport) return;
+        const { width, height } = viewport.getBoundingClientRect();
+        setView(prev => zoomAt(prev, factor, width / 2, height / 2, width, height));
+    };
+
+    const renderLayer = (image: ComparisonImage, className: string, style?: React.CSSProperties) => (
+        <div className={`overflow-hidden ${className}`} style={style}>
+            <img
+                src={image.src}
+                alt={image.label}
+                draggable={false}
+                className="w-full h-full object-contain select-none"
+                style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`, transformOrigin: '0 0' }}
+            />
+        </div>
+    );
+
+    const viewportProps = (index: number) => ({
+        ref: (el: HTMLDivElement | null) => { viewportsRef.current[index] = el; },
+        onPointerDown: handlePointerDown,
+        onPointerMove: handlePointerMove,
+        onPointerUp: handlePointerUp,
+        onPointerCancel: handlePointerUp,
+        onDoubleClick: () => setView(RESET_VIEW),
+        className: `relative w-full bg-black/30 rounded-lg overflow-hidden touch-none ${view.scale > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`,
+    });
+
+    // The original sizes every viewport; try-on results are fitted to it.
+    const sizer = <img src={images[0].src} alt="" aria-hidden="true" className="w-full h-auto invisible" />;
+
+    const caption = (text: string, side: 'left' | 'right') => (
+        <span className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} px-2 py-0.5 bg-black/60 text-xs font-semibold text-white rounded pointer-events-none`}>
+            {text}
+        </span>
+    );
+
+    const imagePicker = (label: string, value: number, onChange: (index: number) => void) => (
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+            {label}
+            <select
+                value={value}
+                onChange={e => onChange(Number(e.target.value))}
+                className="bg-black/40 border border-white/10 text-white text-sm rounded-lg px-2 py-1 focus:ring-amber-500 focus:border-amber-500"
+            >
+                {images.map((image, idx) => <option key={idx} value={idx}>{image.label}</option>)}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="w-full max-w-4xl mx-auto">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex bg-black/30 rounded-lg p-1 border border-white/10">
+                    {MODES.map(({ mode: option, label, icon }) => (
+                        <button
+                            key={option}
+                            onClick={() => setMode(option)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${mode === option ? 'bg-amber-500 text-gray-900' : 'text-gray-300 hover:text-white'}`}
+                        >
+                            {icon} {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-1">
+                    <button onClick={() => zoomByButton(1 / BUTTON_ZOOM_STEP)} disabled={view.scale <= 1} className="p-2 text-gray-300 hover:text-white disabled:opacity-40" aria-label="Zoom out">
+                        <ZoomOut size={18} />
+                    </button>
+                    <span className="w-12 text-center text-sm text-gray-400">{Math.round(view.scale * 100)}%</span>
+                    <button onClick={() => zoomByButton(BUTTON_ZOOM_STEP)} disabled={view.scale >= MAX_ZOOM} className="p-2 text-gray-300 hover:text-white disabled:opacity-40" aria-label="Zoom in">
+                        <ZoomIn size={18} />
+                    </button>
+                    <button onClick={() => setView(RESET_VIEW)} disabled={view.scale === 1} className="p-2 text-gray-300 hover:text-white disabled:opacity-40" aria-label="Reset zoom">
+                        <Maximize size={18} />
+                    </button>
+                </div>
+            </div>
+
+            {images.length > 2 && (
+                <div className="flex flex-wrap justify-center gap-4 mb-4">
+                    {imagePicker('Left', leftIndex, setLeftIndex)}
+                    {imagePicker('Right', rightIndex, setRightIndex)}
+                </div>
+            )}
+
+            {mode === 'side-by-side' && (
+                <div className="grid grid-cols-2 gap-4">
+                    {[left, right].map((image, idx) => (
+                        <div key={idx} {...viewportProps(idx)}>
+                            {sizer}
+                            {renderLayer(image, 'absolute inset-0')}
+                            {caption(image.label, 'left')}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {mode === 'slider' && (
+                <div {...viewportProps(0)}>
+                    {sizer}
+                    {renderLayer(left, 'absolute inset-0')}
+                    {renderLayer(right, 'absolute inset-0', { clipPath: `inset(0 0 0 ${split * 100}%)` })}
+                    {caption(left.label, 'left')}
+                    {caption(right.label, 'right')}
+                    <div
+                        role="slider"
+                        tabIndex={0}
+                        aria-label="Comparison position"
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={Math.round(split * 100)}
+                        onPointerDown={handleSplitPointerDown}
+                        onKeyDown={handleSplitKeyDown}
+                        className="absolute inset-y-0 -ml-4 w-8 flex justify-center cursor-ew-resize focus:outline-none group"
+                        style={{ left: `${split * 100}%` }}
+                    >
+                        <div className="w-0.5 h-full bg-white/90 shadow-[0_0_6px_rgba(0,0,0,0.6)]" />
+                        <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-gray-900 flex items-center justify-center shadow-lg group-focus:ring-4 group-focus:ring-amber-300">
+                            <SquareSplitHorizontal size={16} />
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {mode === 'flicker' && (
+                <div {...viewportProps(0)}>
+                    {sizer}
+                    {renderLayer(isFlickerRight ? right : left, 'absolute inset-0')}
+                    {caption(isFlickerRight ? right.label : left.label, 'left')}
+                </div>
+            )}
+
+            <p className="mt-3 text-xs text-center text-gray-500">Scroll or pinch to zoom, drag to move around, double-click to reset.</p>
+        </div>
+    );
+};
+
+export default ComparisonView;
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { Download, FileText, X } from 'lucide-react';
+import Spinner from '../common/Spinner';
+import { CARD_LAYOUTS, canvasToBlob, downloadBlob, renderLookbook, renderOutfitCard } from '../../services/export/outfitCard';
+import type { CardFormat, CardLayout, OutfitCard } from '../../services/export/outfitCard';
+
+interface ExportPanelProps {
+    card: OutfitCard;
+    // Cards for the PDF lookbook, one page each.
+    lookbook: OutfitCard[];
+    onClose: () => void;
+}
+
+const LAYOUTS = Object.keys(CARD_LAYOUTS) as CardLayout[];
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ card, lookbook, onClose }) => {
+    const [layout, setLayout] = useState<CardLayout>('story');
+    const [format, setFormat] = useState<CardFormat>('png');
+    const [preview, setPreview] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setPreview(null);
+        renderOutfitCard(card, layout)
+            .then(canvas => !cancelled && setPreview(canvas.toDataURL('image/jpeg', 0.8)))
+            .catch(() => !cancelled && setError("Couldn't draw the card. Please try again."));
+        return () => { cancelled = true; };
+    }, [card, layout]);
+
+    const runExport = async (task: () => Promise<void>) => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            await task();
+        } catch {
+            setError("Couldn't create the file. Please try again.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleDownloadCard = () => runExport(async () => {
+        const canvas = await renderOutfitCard(card, layout);
+        downloadBlob(await canvasToBlob(canvas, format), `ootd-${layout}.${format === 'png' ? 'png' : 'jpg'}`);
+    });
+
+    const handleDownloadLookbook = () => runExport(async () => {
+        downloadBlob(await renderLookbook(lookbook, layout), 'ootd-lookbook.pdf');
+    });
+
+    return (
+        <div className="w-full max-w-3xl mx-auto bg-black/30 p-5 rounded-xl border border-white/10 mt-8 fade-in">
+            <div className="flex items-center justify-between mb-4">
+                <h4 className="font-bold text-white">Share your outfit</h4>
+                <button onClick={onClose} className="p-1 text-gray-400 hover:text-white transition-colors" aria-label="Close">
+                    <X size={20} />
+                </button>
+            </div>
+            <div className="flex flex-col md:flex-row gap-6">
+                <div className="md:w-1/2 flex items-center justify-center bg-black/30 rounded-lg min-h-[240px]">
+                    {preview
+                        ? <img src={preview} alt="Outfit card preview" className="max-h-[420px] w-auto rounded-lg" />
+                        : <Spinner />}
+                </div>
+                <div className="md:w-1/2 space-y-5">
+                    <div>
+                        <p className="text-sm font-semibold text-gray-300 mb-2">Layout</p>
+                        <div className="flex flex-wrap gap-2">
+                            {LAYOUTS.map(name => (
+                                <button
+                                    key={name}
+                                    onClick={() => setLayout(name)}
+                                    aria-pressed={layout === name}
+                                    className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${layout === name ? 'bg-amber-500 text-gray-900 font-semibold' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                                >
+                                    {CARD_LAYOUTS[name].label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <p className="text-sm font-semibold text-gray-300 mb-2">Format</p>
+                        <div className="flex gap-2">
+                            {(['png', 'jpeg'] as CardFormat[]).map(name => (
+                                <button
+                                    key={name}
+                                    onClick={() => setFormat(name)}
+                                    aria-pressed={format === name}
+                                    className={`px-3 py-1.5 text-sm rounded-lg uppercase transition-colors ${format === name ? 'bg-amber-500 text-gray-900 font-semibold' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                                >
+                                    {name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    {error && <p className="text-sm text-red-300">{error}</p>}
+                    <div className="flex flex-col gap-3">
+                        <button
+                            onClick={handleDownloadCard}
+                            disabled={isExporting}
+                            className="flex items-center justify-center gap-2 px-4 py-2.5 bg-amber-500 text-gray-900 font-bold rounded-lg hover:bg-amber-400 disabled:opacity-50 transition-colors"
+                        >
+                            <Download size={18} /> Download image
+                        </button>
+                        <button
+                            onClick={handleDownloadLookbook}
+                            disabled={isExporting}
+                            className="flex items-center justify-center gap-2 px-4 py-2.5 bg-white/10 text-white font-semibold rounded-lg hover:bg-white/20 disabled:opacity-50 transition-colors"
+                        >
+                            <FileText size={18} /> Download PDF lookbook ({lookbook.length} {lookbook.length === 1 ? 'page' : 'pages'})
+                        </button>
+                        {isExporting && <p className="text-xs text-gray-400 text-center">Creating your file…</p>}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExportPanel;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { UploadCloud, Clipboard, Scissors, Eraser, CheckCircle, AlertTriangle, X, Store } from 'lucide-react';
+import Spinner from '../common/Spinner';
+import { getFriendlyErrorMessage } from '../common/errorHandler';
+import { analyzeGarmentImage, removeGarmentBackground } from '../../services/geminiService';
+import { GARMENT_CATEGORIES } from '../../services/taxonomy/taxonomy';
+import { fileToPngBase64, cropPng } from '../../services/image/canvas';
+import { IMAGE_MAX_DIMENSION } from '../../services/image/normalize';
+import { formatPrice } from '../../services/productClient';
+import ProductImport from './ProductImport';
+import type { GarmentAnalysis, GarmentCategory, Product } from '../../types';
+
+export const GARMENT_CATEGORY_LABELS: Record<GarmentCategory, string> = {
+    top: 'Top',
+    bottom: 'Bottom',
+    dress: 'Dress',
+    outerwear: 'Outerwear',
+    footwear: 'Footwear',
+    accessory: 'Accessory',
+};
+
+export interface UploadedGarment {
+    image: string;
+    category: GarmentCategory;
+    // Set when the garment was imported from a store page or feed.
+    product: Product | null;
+}
+
+interface GarmentUploadProps {
+    onGarmentReady: (garment: UploadedGarment) => void;
+    onCancel: () => void;
+}
+
+const GarmentUpload: React.FC<GarmentUploadProps> = ({ onGarmentReady, onCancel }) => {
+    const [source, setSource] = useState<'upload' | 'store'>('upload');
+    const [product, setProduct] = useState<Product | null>(null);
+    const [original, setOriginal] = useState<string | null>(null);
+    const [cropped, setCropped] = useState<string | null>(null);
+    const [cleaned, setCleaned] = useState<string | null>(null);
+    const [useCrop, setUseCrop] = useState(true);
+    const [analysis, setAnalysis] = useState<GarmentAnalysis | null>(null);
+    const [category, setCategory] = useState<GarmentCategory>('top');
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [isRemovingBackground, setIsRemovingBackground] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const baseImage = useCrop && cropped ? cropped : original;
+    const currentImage = cleaned ?? baseImage;
+
+    const handleImage = useCallback(async (file: Blob, fromProduct: Product | null = null) => {
+        // HEIC files often arrive without a type; decoding tells us soon enough.
+        if (file.type !== '' && !file.type.startsWith('image/')) {
+            setError('That file is not an image. Please choose a photo of the garment.');
+            return;
+        }
+        setProduct(fromProduct);
+        setError(null);
+        setAnalysis(null);
+        setCropped(null);
+        setCleaned(null);
+        setUseCrop(true);
+        setIsAnalyzing(true);
+
+        try {
+            const { base64 } = await fileToPngBase64(file, IMAGE_MAX_DIMENSION);
+            setOriginal(base64);
+
+            const result = await analyzeGarmentImage(base64);
+            setAnalysis(result);
+            setCategory(result.category);
+            if (result.boundingBox) {
+                const crop = await cropPng(base64, result.boundingBox);
+                setCropped(crop.base64);
+            }
+        } catch (e) {
+            setError(getFriendlyErrorMessage(e).message);
+        } finally {
+            setIsAnalyzing(false);
+        }
+    }, []);
+
+    // Lets shoppers paste a product image copied from a store page.
+    useEffect(() => {
+        const handlePaste = (e: ClipboardEvent) => {
+            const item = Array.from(e.clipboardData?.items ?? []).find(i => i.type.startsWith('image/'));
+            const file = item?.getAsFile();
+            if (file) {
+                e.preventDefault();
+                handleImage(file);
+            }
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [handleImage]);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) {
+            handleImage(file);
+        }
+        e.target.value = '';
+    };
+
+    const handleToggleCrop = () => {
+        setUseCrop(prev => !prev);
+        setCleaned(null);
+    };
+
+    const handleRemoveBackground = async () => {
+        if (!baseImage) return;
+        setIsRemovingBackground(true);
+        setError(null);
+        try {
+            setCleaned(await removeGarmentBackground(baseImage));
+        } catch (e) {
+            setError(getFriendlyErrorMessage(e).message);
+        } finally {
+            setIsRemovingBackground(false);
+        }
+    };
+
+    const canUse = !!currentImage && !!analysis?.isSingleGarment && !isAnalyzing && !isRemovingBackground;
+
+    return (
+        <div className="fade-in w-full max-w-3xl mx-auto bg-black/20 border border-white/10 rounded-xl p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-amber-400">Try On Your Own Garment</h3>
+                <button onClick={onCancel} className="p-1 rounded-full text-gray-400 hover:bg-white/10 hover:text-white transition-colors" aria-label="Cancel garment upload">
+                    <X size={20} />
+                </button>
+            </div>
+
+            {!original ? (
+                <>
+                    <div className="flex gap-2 mb-4">
+                        <button onClick={() => setSource('upload')} className={`px-3 py-1.5 rounded-lg text-sm font-semibold flex items-center gap-2 transition-colors ${source === 'upload' ? 'bg-amber-500 text-gray-900' : 'bg-white/10 text-white hover:bg-white/20'}`}>
+                            <UploadCloud size={16} /> Upload Photo
+                        </button>
+                        <button onClick={() => setSource('store')} className={`px-3 py-1.5 rounded-lg text-sm font-semibold flex items-center gap-2 transition-colors ${source === 'store' ? 'bg-amber-500 text-gray-900' : 'bg-white/10 text-white hover:bg-white/20'}`}>
+                            <Store size={16} /> Import from Store
+                        </button>
+                    </div>
+                    {source === 'store' ? (
+                        <ProductImport onProductSelected={(selected, image) => handleImage(image, selected)} />
+                    ) : (
+                        <label className="cursor-pointer group flex flex-col items-center justify-center h-56 border-2 border-dashed border-gray-600 rounded-2xl hover:border-amber-500 hover:bg-amber-500/10 transition-all duration-300">
+                            <UploadCloud size={48} className="text-gray-500 mb-3 group-hover:text-amber-400 transition-colors" />
+                            <span className="text-lg font-bold text-white group-hover:text-amber-400 transition-colors">Upload a product photo</span>
+                            <span className="mt-2 text-sm text-gray-400 flex items-center gap-1.5"><Clipboard size={14} /> or paste an image (Ctrl/Cmd + V)</span>
+                            <input type="file" accept="image/*,.heic,.heif" onChange={handleFileChange} className="hidden" />
+                        </label>
+                    )}
+                </>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="relative bg-white rounded-lg overflow-hidden flex items-center justify-center aspect-square">
+                        {currentImage && <img src={`data:image/png;base64,${currentImage}`} alt="Your garment" className="max-w-full max-h-full object-contain" />}
+                        {(isAnalyzing || isRemovingBackground) && (
+                            <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                                <div className="text-white flex flex-col items-center">
+                                    <Spinner />
+                                    <span className="mt-2 text-sm font-medium">{isAnalyzing ? 'Checking your garment...' : 'Removing background...'}</span>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex flex-col gap-4">
+                        {product && (
+                            <div>
+                                <p className="font-bold text-white">{product.title}</p>
+                                <p className="text-sm text-gray-400">{[product.brand, product.price && formatPrice(product.price)].filter(Boolean).join(' · ')}</p>
+                                {product.sizeChart.length > 0 && (
+                                    <table className="mt-2 w-full text-xs text-gray-300">
+                                        <thead>
+                                            <tr className="text-gray-500">
+                                                <th className="text-left font-medium">Size</th>
+                                                {Object.keys(product.sizeChart[0].measurements).map(name => <th key={name} className="text-left font-medium">{name}</th>)}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {product.sizeChart.map(row => (
+                                                <tr key={row.size}>
+                                                    <td className="font-semibold text-amber-200">{row.size}</td>
+                                                    {Object.keys(product.sizeChart[0].measurements).map(name => <td key={name}>{row.measurements[name] ?? '–'}</td>)}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+                        )}
+                        {analysis && !analysis.isSingleGarment && (
+                            <div className="bg-red-900/50 border border-red-700 text-red-200 px-3 py-2 rounded-lg text-sm flex items-start gap-2">
+                                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                <span>{analysis.issue ?? 'We need a photo showing exactly one garment.'} Please upload a photo of a single item.</span>
+                            </div>
+                        )}
+                        {analysis?.isSingleGarment && (
+                            <div className="bg-green-900/50 border border-green-700 text-green-200 px-3 py-2 rounded-lg text-sm flex items-center gap-2">
+                                <CheckCircle className="w-4 h-4 flex-shrink-0 text-green-400" />
+                                <span>Looks good! We found one garment.</span>
+                            </div>
+                        )}
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-400 mb-2">Garment type</label>
+                            <select
+                                value={category}
+                                onChange={(e) => setCategory(e.target.value as GarmentCategory)}
+                                disabled={!analysis}
+                                className="w-full bg-gray-800 border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-amber-500 transition-shadow disabled:opacity-50"
+                            >
+                                {GARMENT_CATEGORIES.map(c => <option key={c} value={c}>{GARMENT_CATEGORY_LABELS[c]}</option>)}
+                            </select>
+                        </div>
+
+                        <div className="flex flex-wrap gap-2">
+                            {cropped && (
+                                <button onClick={handleToggleCrop} className="px-3 py-2 bg-white/10 text-white text-sm font-semibold rounded-lg hover:bg-white/20 transition-colors flex items-center gap-2">
+                                    <Scissors size={16} /> {useCrop ? 'Show Full Photo' : 'Crop to Garment'}
+                                </button>
+                            )}
+                            <button
+                                onClick={handleRemoveBackground}
+                                disabled={!baseImage || !!cleaned || isRemovingBackground || isAnalyzing}
+                                className="px-3 py-2 bg-white/10 text-white text-sm font-semibold rounded-lg hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+                            >
+                                <Eraser size={16} /> {cleaned ? 'Background Removed' : 'Remove Background'}
+                            </button>
+                            <label className="px-3 py-2 bg-white/10 text-white text-sm font-semibold rounded-lg hover:bg-white/20 transition-colors flex items-center gap-2 cursor-pointer">
+                                <UploadCloud size={16} /> Different Photo
+                                <input type="file" accept="image/*,.heic,.heif" onChange={handleFileChange} className="hidden" />
+                            </label>
+                        </div>
+
+                        <button
+                            onClick={() => currentImage && onGarmentReady({ image: currentImage, category, product })}
+                            disabled={!canUse}
+                            className="mt-auto inline-flex items-center justify-center gap-2 px-6 py-3 bg-amber-500 text-gray-900 font-bold rounded-lg hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            <CheckCircle size={18} /> Use This Garment
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {error && (
+                <div className="mt-4 bg-red-900/50 border border-red-700 text-red-200 px-3 py-2 rounded-lg text-sm flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GarmentUpload;
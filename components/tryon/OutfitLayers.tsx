@@ -0,0 +1,36 @@
+import React from 'react';
+import { Layers, Undo2 } from 'lucide-react';
+import { GARMENT_CATEGORY_LABELS } from './GarmentUpload';
+import type { OutfitLayer } from '../../types';
+
+interface OutfitLayersProps {
+    layers: OutfitLayer[];
+    onRemoveLast: () => void;
+}
+
+const OutfitLayers: React.FC<OutfitLayersProps> = ({ layers, onRemoveLast }) => {
+    return (
+        <div className="bg-black/20 p-4 rounded-xl border border-white/10">
+            <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-semibold text-gray-300 flex items-center gap-2">
+                    <Layers size={16} className="text-amber-400" /> Your outfit so far
+                </h4>
+                <button onClick={onRemoveLast} className="text-xs text-gray-400 hover:text-white flex items-center gap-1 transition-colors">
+                    <Undo2 size={14} /> Remove last piece
+                </button>
+            </div>
+            <ol className="flex gap-3 overflow-x-auto">
+                {layers.map((layer, idx) => (
+                    <li key={idx} className="flex-shrink-0 w-20 text-center">
+                        <div className="w-20 h-20 bg-white rounded-lg overflow-hidden flex items-center justify-center">
+                            <img src={`data:image/png;base64,${layer.garmentImage}`} alt={layer.garmentDetails?.itemName ?? `Piece ${idx + 1}`} className="max-w-full max-h-full object-contain" />
+                        </div>
+                        <span className="block mt-1 text-xs text-amber-200">{idx + 1}. {GARMENT_CATEGORY_LABELS[layer.garmentCategory]}</span>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default OutfitLayers;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import type { PhotoCheck } from '../../services/image/photoQuality';
+
+interface PhotoChecksProps {
+    // null while the checks are running.
+    checks: PhotoCheck[] | null;
+}
+
+const STATUS_STYLES: Record<PhotoCheck['status'], { icon: React.ReactNode; text: string }> = {
+    pass: { icon: <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5 text-green-400" />, text: 'text-gray-300' },
+    warn: { icon: <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5 text-amber-400" />, text: 'text-amber-200' },
+    block: { icon: <XCircle className="w-4 h-4 flex-shrink-0 mt-0.5 text-red-400" />, text: 'text-red-200' },
+};
+
+// Problems first, so the fix the shopper needs is the first thing they read.
+const STATUS_ORDER: PhotoCheck['status'][] = ['block', 'warn', 'pass'];
+
+const PhotoChecks: React.FC<PhotoChecksProps> = ({ checks }) => {
+    if (checks === null) {
+        return <p className="text-sm text-gray-400 animate-pulse">Checking your photo...</p>;
+    }
+
+    const sorted = [...checks].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+    return (
+        <ul className="space-y-2 text-left bg-black/20 p-4 rounded-xl border border-white/10">
+            {sorted.map(check => (
+                <li key={check.id} className={`flex items-start gap-2 text-sm ${STATUS_STYLES[check.status].text}`}>
+                    {STATUS_STYLES[check.status].icon}
+                    <span>{check.message}</span>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export default PhotoChecks;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Link2, FileUp, AlertTriangle, Tag } from 'lucide-react';
+import Spinner from '../common/Spinner';
+import { getFriendlyErrorMessage } from '../common/errorHandler';
+import { importProductsFromUrl, importProductFeed, fetchProductImage, formatPrice } from '../../services/productClient';
+import type { Product, ProductImportResult } from '../../types';
+
+interface ProductImportProps {
+    onProductSelected: (product: Product, image: Blob) => void;
+}
+
+const ProductImport: React.FC<ProductImportProps> = ({ onProductSelected }) => {
+    const [url, setUrl] = useState('');
+    const [result, setResult] = useState<ProductImportResult | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [loadingProductId, setLoadingProductId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const runImport = async (load: () => Promise<ProductImportResult>) => {
+        setIsImporting(true);
+        setError(null);
+        setResult(null);
+        try {
+            const imported = await load();
+            if (imported.products.length === 0) {
+                setError('No products with a name and photo were found.');
+            }
+            setResult(imported);
+        } catch (e) {
+            setError(getFriendlyErrorMessage(e).message);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleImportUrl = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (url.trim()) {
+            runImport(() => importProductsFromUrl(url.trim()));
+        }
+    };
+
+    const handleFeedFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const format = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+        runImport(async () => importProductFeed(await file.text(), format));
+    };
+
+    const handleSelect = async (product: Product) => {
+        setLoadingProductId(product.id);
+        setError(null);
+        try {
+            onProductSelected(product, await fetchProductImage(product));
+        } catch (e) {
+            setError(getFriendlyErrorMessage(e).message);
+        } finally {
+            setLoadingProductId(null);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <form onSubmit={handleImportUrl} className="flex flex-col sm:flex-row gap-2">
+                <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="Paste a product page or feed link"
+                    className="flex-1 bg-gray-800 border-gray-700 rounded-lg p-3 text-white placeholder-gray-500 focus:ring-2 focus:ring-amber-500 transition-shadow"
+                />
+                <button
+                    type="submit"
+                    disabled={!url.trim() || isImporting}
+                    className="px-4 py-3 bg-amber-500 text-gray-900 font-bold rounded-lg hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+                >
+                    {isImporting ? <Spinner /> : <Link2 size={18} />} Import
+                </button>
+            </form>
+            <label className="self-start text-sm text-gray-400 hover:text-white cursor-pointer flex items-center gap-1.5 transition-colors">
+                <FileUp size={14} /> Or load a product feed file (.json or .csv)
+                <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFeedFile} className="hidden" />
+            </label>
+
+            {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-200 px-3 py-2 rounded-lg text-sm flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {result && result.products.length > 0 && (
+                <div>
+                    <p className="text-xs text-gray-400 mb-2">
+                        {result.products.length} product{result.products.length === 1 ? '' : 's'} found
+                        {result.skipped > 0 && ` (${result.skipped} skipped without a name or photo)`}. Choose one to try on.
+                    </p>
+                    <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-80 overflow-y-auto">
+                        {result.products.map(product => (
+                            <li key={product.id}>
+                                <button
+                                    onClick={() => handleSelect(product)}
+                                    disabled={loadingProductId !== null}
+                                    className="w-full text-left bg-black/30 border border-white/10 rounded-lg overflow-hidden hover:border-amber-500 disabled:opacity-60 transition-colors"
+                                >
+                                    <div className="relative bg-white aspect-square flex items-center justify-center">
+                                        <img src={product.imageUrl} alt={product.title} className="max-w-full max-h-full object-contain" />
+                                        {loadingProductId === product.id && (
+                                            <div className="absolute inset-0 bg-black/50 flex items-center justify-center"><Spinner /></div>
+                                        )}
+                                    </div>
+                                    <div className="p-2">
+                                        <p className="text-sm font-semibold text-white truncate">{product.title}</p>
+                                        <p className="text-xs text-gray-400 truncate">{[product.brand, product.price && formatPrice(product.price)].filter(Boolean).join(' · ')}</p>
+                                        {product.sizeChart.length > 0 && (
+                                            <p className="text-xs text-amber-200 mt-1 flex items-center gap-1"><Tag size={12} /> {product.sizeChart.map(row => row.size).join(', ')}</p>
+                                        )}
+                                    </div>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProductImport;
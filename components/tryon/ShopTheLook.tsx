@@ -0,0 +1,57 @@
+import React from 'react';
+import { ShoppingBag, ExternalLink } from 'lucide-react';
+import { formatPrice } from '../../services/productClient';
+import type { ProductMatch } from '../../types';
+
+interface ShopTheLookProps {
+    // undefined while matches are loading.
+    matches: ProductMatch[] | undefined;
+    compact?: boolean;
+}
+
+const ShopTheLook: React.FC<ShopTheLookProps> = ({ matches, compact = false }) => {
+    if (matches === undefined) {
+        return <p className="text-xs text-gray-500 animate-pulse">Finding similar products...</p>;
+    }
+    if (matches.length === 0) {
+        return compact ? null : <p className="text-sm text-gray-500">No similar products in the catalog yet.</p>;
+    }
+
+    return (
+        <div>
+            <h5 className={`font-semibold text-gray-300 flex items-center gap-1.5 mb-2 ${compact ? 'text-xs' : 'text-sm'}`}>
+                <ShoppingBag size={compact ? 12 : 16} className="text-amber-400" /> Shop similar
+            </h5>
+            <ul className="space-y-2">
+                {matches.map(({ product, matchedOn }) => (
+                    <li key={product.id} className="flex items-center gap-2">
+                        <div className={`${compact ? 'w-8 h-8' : 'w-12 h-12'} flex-shrink-0 bg-white rounded overflow-hidden flex items-center justify-center`}>
+                            <img src={product.imageUrl} alt="" className="max-w-full max-h-full object-contain" />
+                        </div>
+                        <div className="min-w-0 flex-1">
+                            <p className={`${compact ? 'text-xs' : 'text-sm'} text-white truncate`}>{product.title}</p>
+                            <p className="text-xs text-gray-400 truncate">
+                                {[product.brand, product.price && formatPrice(product.price)].filter(Boolean).join(' · ')}
+                                {!compact && matchedOn.length > 0 && <span className="text-amber-200"> · {matchedOn.join(', ')}</span>}
+                            </p>
+                        </div>
+                        {product.productUrl && (
+                            <a
+                                href={product.productUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                onClick={(e) => e.stopPropagation()}
+                                className="p-1.5 text-gray-400 hover:text-amber-400 transition-colors"
+                                aria-label={`View ${product.title} in store`}
+                            >
+                                <ExternalLink size={compact ? 14 : 16} />
+                            </a>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ShopTheLook;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { History, Star } from 'lucide-react';
+import type { TryOnReview } from '../../services/image/tryOnOutput';
+import type { GarmentCategory, OutfitLayer, PromptVersions, RecommendationItem } from '../../types';
+
+// One try-on made during the session, kept so results can be revisited and compared.
+export interface TryOnAttempt {
+    id: string;
+    garmentImage: string;
+    garmentDetails: RecommendationItem | null;
+    garmentCategory: GarmentCategory;
+    // The pieces already on when this garment was tried on.
+    layers: OutfitLayer[];
+    resultImage: string;
+    // Arrives after the result; null until then, or if it failed.
+    comparisonText: string | null;
+    // Null when the result couldn't be post-processed.
+    review: TryOnReview | null;
+    // The prompts behind the garment, the try-on and the comparison.
+    promptVersions: PromptVersions;
+    // Reused from an earlier try-on of the same garment on the same look.
+    cached: boolean;
+    createdAt: number;
+    isFavorite: boolean;
+    isSaved: boolean;
+}
+
+export const attemptLabel = (attempt: TryOnAttempt, index: number): string =>
+    `${index + 1}. ${attempt.garmentDetails?.itemName ?? 'Your garment'}${attempt.isFavorite ? ' ★' : ''}`;
+
+interface TryOnHistoryProps {
+    attempts: TryOnAttempt[];
+    activeId: string | null;
+    onSelect: (attempt: TryOnAttempt) => void;
+    onToggleFavorite: (attempt: TryOnAttempt) => void;
+}
+
+const TryOnHistory: React.FC<TryOnHistoryProps> = ({ attempts, activeId, onSelect, onToggleFavorite }) => {
+    return (
+        <div className="w-full max-w-4xl mx-auto bg-black/20 p-4 rounded-xl border border-white/10">
+            <h4 className="text-sm font-semibold text-gray-300 flex items-center gap-2 mb-3">
+                <History size={16} className="text-amber-400" /> This session's try-ons
+            </h4>
+            <ol className="flex gap-3 overflow-x-auto pb-1">
+                {attempts.map((attempt, idx) => (
+                    <li key={attempt.id} className="relative flex-shrink-0 w-24">
+                        <button
+                            onClick={() => onSelect(attempt)}
+                            className={`block w-24 h-32 rounded-lg overflow-hidden border-2 transition-colors ${attempt.id === activeId ? 'border-amber-500' : 'border-transparent hover:border-white/30'}`}
+                            aria-label={`Show ${attemptLabel(attempt, idx)}`}
+                            aria-current={attempt.id === activeId}
+                        >
+                            <img src={`data:image/png;base64,${attempt.resultImage}`} alt="" className="w-full h-full object-cover" />
+                        </button>
+                        <button
+                            onClick={() => onToggleFavorite(attempt)}
+                            className={`absolute top-1.5 right-1.5 p-1 rounded-full bg-black/60 hover:bg-black/80 transition-colors ${attempt.isFavorite ? 'text-amber-400' : 'text-white'}`}
+                            aria-label={attempt.isFavorite ? 'Remove from favourites' : 'Add to favourites'}
+                            aria-pressed={attempt.isFavorite}
+                        >
+                            <Star size={14} fill={attempt.isFavorite ? 'currentColor' : 'none'} />
+                        </button>
+                        <p className="mt-1 text-xs text-white truncate">{attempt.garmentDetails?.itemName ?? 'Your garment'}</p>
+                        <p className="text-[10px] text-gray-500">{new Date(attempt.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default TryOnHistory;
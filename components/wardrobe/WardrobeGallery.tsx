@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Shirt, Images, Trash2, Tag, X, Wand2, RefreshCw, AlertTriangle } from 'lucide-react';
+import Spinner from '../common/Spinner';
+import { getFriendlyErrorMessage, FriendlyError } from '../common/errorHandler';
+import {
+    listGarments,
+    listTryOns,
+    deleteGarment,
+    deleteTryOn,
+    setGarmentTags,
+    setTryOnTags,
+} from '../../services/wardrobe';
+import { summarizeStyleProfile } from '../../services/styleProfile';
+import type { WardrobeGarment, WardrobeTryOn } from '../../types';
+
+type WardrobeTab = 'garments' | 'tryOns';
+
+interface WardrobeGalleryProps {
+    userId: string;
+    // Saved garments can only be tried on once there is a person photo.
+    canTryOnGarments: boolean;
+    onTryOnGarment: (garment: WardrobeGarment) => void;
+    onRerunTryOn: (tryOn: WardrobeTryOn) => void;
+    onClose: () => void;
+}
+
+const TagEditor = ({ tags, onChange }: { tags: string[], onChange: (tags: string[]) => void }) => {
+    const [draft, setDraft] = useState('');
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (draft.trim()) {
+            onChange([...tags, draft]);
+            setDraft('');
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5">
+            {tags.map(tag => (
+                <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 bg-amber-500/20 text-amber-200 text-xs rounded-full">
+                    {tag}
+                    <button onClick={() => onChange(tags.filter(t => t !== tag))} aria-label={`Remove tag ${tag}`} className="hover:text-white">
+                        <X size={12} />
+                    </button>
+                </span>
+            ))}
+            <form onSubmit={handleAdd} className="inline-flex items-center gap-1">
+                <Tag size={12} className="text-gray-500" />
+                <input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="Add tag"
+                    className="w-20 bg-transparent border-b border-gray-700 text-xs text-white placeholder-gray-500 focus:outline-none focus:border-amber-500"
+                />
+            </form>
+        </div>
+    );
+};
+
+const WardrobeGallery: React.FC<WardrobeGalleryProps> = ({ userId, canTryOnGarments, onTryOnGarment, onRerunTryOn, onClose }) => {
+    const [tab, setTab] = useState<WardrobeTab>('garments');
+    const [garments, setGarments] = useState<WardrobeGarment[]>([]);
+    const [tryOns, setTryOns] = useState<WardrobeTryOn[]>([]);
+    const [activeTag, setActiveTag] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<FriendlyError | null>(null);
+
+    useEffect(() => {
+        Promise.all([listGarments(userId), listTryOns(userId)])
+            .then(([savedGarments, savedTryOns]) => {
+                setGarments(savedGarments);
+                setTryOns(savedTryOns);
+            })
+            .catch(e => setError(getFriendlyErrorMessage(e)))
+            .finally(() => setIsLoading(false));
+    }, [userId]);
+
+    const items = tab === 'garments' ? garments : tryOns;
+    const allTags = useMemo(() => [...new Set(items.flatMap(item => item.tags))].sort(), [items]);
+    const visibleGarments = activeTag ? garments.filter(g => g.tags.includes(activeTag)) : garments;
+    const visibleTryOns = activeTag ? tryOns.filter(t => t.tags.includes(activeTag)) : tryOns;
+
+    const handleSwitchTab = (nextTab: WardrobeTab) => {
+        setTab(nextTab);
+        setActiveTag(null);
+    };
+
+    const handleGarmentTags = async (id: string, tags: string[]) => {
+        try {
+            const updated = await setGarmentTags(id, tags);
+            setGarments(prev => prev.map(g => g.id === id ? updated : g));
+        } catch (e) {
+            setError(getFriendlyErrorMessage(e));
+        }
+    };
+
+    const handleTryOnTags = async (id: string, tags: string[]) => {
+        try {
+            const updated = await setTryOnTags(id, tags);
+            setTryOns(prev => prev.map(t => t.id === id ? updated : t));
+        } catch (e) {
+            setError(getFriendlyErrorMessage(e));
+        }
+    };
+
+    const handleDeleteGarment = async (id: string) => {
+        try {
+            await deleteGarment(id);
+            setGarments(prev => prev.filter(g => g.id !== id));
+        } catch (e) {
+            setError(getFriendlyErrorMessage(e));
+        }
+    };
+
+    const handleDeleteTryOn = async (id: string) => {
+        try {
+            await deleteTryOn(id);
+            setTryOns(prev => prev.filter(t => t.id !== id));
+        } catch (e) {
+            setError(getFriendlyErrorMessage(e));
+        }
+    };
+
+    const tabClass = (isActive: boolean) =>
+        `flex items-center gap-2 px-4 py-2 rounded-lg font-semibold transition-colors ${isActive ? 'bg-amber-500 text-gray-900' : 'bg-white/10 text-white hover:bg-white/20'}`;
+
+    return (
+        <div className="fade-in w-full max-w-5xl mx-auto">
+            <div className="flex items-center justify-between mb-6">
+                <h3 className="text-2xl font-bold text-amber-400">My Wardrobe</h3>
+                <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white transition-colors" aria-label="Close wardrobe">
+                    <X size={22} />
+                </button>
+            </div>
+
+            <div className="flex gap-3 mb-4">
+                <button onClick={() => handleSwitchTab('garments')} className={tabClass(tab === 'garments')}>
+                    <Shirt size={18} /> Garments ({garments.length})
+                </button>
+                <button onClick={() => handleSwitchTab('tryOns')} className={tabClass(tab === 'tryOns')}>
+                    <Images size={18} /> Try-Ons ({tryOns.length})
+                </button>
+            </div>
+
+            {allTags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-6">
+                    {allTags.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                            className={`px-3 py-1 text-xs rounded-full border transition-colors ${activeTag === tag ? 'bg-amber-500 text-gray-900 border-amber-500' : 'border-white/20 text-gray-300 hover:border-amber-500'}`}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {error && (
+                <div className="mb-6 bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-lg flex items-start gap-3">
+                    <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                    <div>
+                        <h4 className="font-bold">{error.title}</h4>
+                        <p className="text-sm opacity-90">{error.message}</p>
+                    </div>
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-16"><Spinner /></div>
+            ) : items.length === 0 ? (
+                <p className="text-center text-gray-400 py-16">
+                    {tab === 'garments'
+                        ? 'No saved garments yet. Save your favourites from the recommendations.'
+                        : 'No saved try-ons yet. Save a result after trying something on.'}
+                </p>
+            ) : tab === 'garments' ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
+                    {visibleGarments.map(garment => (
+                        <div key={garment.id} className="bg-black/20 border border-white/10 rounded-xl overflow-hidden flex flex-col">
+                            <img src={`data:image/png;base64,${garment.image}`} alt={garment.details?.itemName ?? 'Saved garment'} className="w-full h-56 object-cover" />
+                            <div className="p-4 flex flex-col gap-3 flex-1">
+                                <div>
+                                    <p className="font-bold text-white">{garment.details?.itemName ?? 'Saved garment'}</p>
+                                    <p className="text-xs text-gray-400">{summarizeStyleProfile(garment.profile)}</p>
+                                </div>
+                                <TagEditor tags={garment.tags} onChange={(tags) => handleGarmentTags(garment.id, tags)} />
+                                <div className="mt-auto flex gap-2">
+                                    <button
+                                        onClick={() => onTryOnGarment(garment)}
+                                        disabled={!canTryOnGarments}
+                                        title={canTryOnGarments ? undefined : 'Add your photo first'}
+                                        className="flex-1 inline-flex items-center justify-center gap-2 px-3 py-2 bg-amber-500 text-gray-900 text-sm font-bold rounded-lg hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                        <Wand2 size={16} /> Try On
+                                    </button>
+                                    <button onClick={() => handleDeleteGarment(garment.id)} className="p-2 rounded-lg bg-white/10 text-gray-300 hover:bg-red-600 hover:text-white transition-colors" aria-label="Delete garment">
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {visibleTryOns.map(tryOn => (
+                        <div key={tryOn.id} className="bg-black/20 border border-white/10 rounded-xl overflow-hidden flex flex-col">
+                            <div className="grid grid-cols-2 gap-1 bg-black/30">
+                                <img src={`data:${tryOn.beforeImage.mimeType ?? 'image/jpeg'};base64,${tryOn.beforeImage.base64}`} alt="Before" className="w-full h-56 object-cover" />
+                                <img src={`data:image/png;base64,${tryOn.afterImage}`} alt="After" className="w-full h-56 object-cover" />
+                            </div>
+                            <div className="p-4 flex flex-col gap-3 flex-1">
+                                <div>
+                                    <p className="font-bold text-white">{tryOn.garmentDetails?.itemName ?? 'Try-on result'}</p>
+                                    {tryOn.comparisonText && <p className="text-sm text-amber-200 italic mt-1">"{tryOn.comparisonText}"</p>}
+                                    <p className="text-xs text-gray-500 mt-1">{new Date(tryOn.createdAt).toLocaleString()}</p>
+                                </div>
+                                <TagEditor tags={tryOn.tags} onChange={(tags) => handleTryOnTags(tryOn.id, tags)} />
+                                <div className="mt-auto flex gap-2">
+                                    <button
+                                        onClick={() => onRerunTryOn(tryOn)}
+                                        className="flex-1 inline-flex items-center justify-center gap-2 px-3 py-2 bg-amber-500 text-gray-900 text-sm font-bold rounded-lg hover:bg-amber-400 transition-colors"
+                                    >
+                                        <RefreshCw size={16} /> Re-run Try-On
+                                    </button>
+                                    <button onClick={() => handleDeleteTryOn(tryOn.id)} className="p-2 rounded-lg bg-white/10 text-gray-300 hover:bg-red-600 hover:text-white transition-colors" aria-label="Delete try-on">
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WardrobeGallery;
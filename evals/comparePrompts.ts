@@ -0,0 +1,246 @@
+import { copyFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { setProvider } from '../services/providers';
+import type { AIProvider, AIOperation, ContentPart, GenerateJsonRequest } from '../services/providers/types';
+import { createGeminiProviderFromEnv } from '../services/providers/liveProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import {
+    suggestPresentation,
+    getGarmentSpecs,
+    generateGarmentImage,
+    performVirtualTryOn,
+    getStyleComparison,
+    analyzePersonPhoto,
+    analyzeGarmentImage,
+    removeGarmentBackground,
+    getGarmentMask,
+} from '../services/geminiService';
+import { PROMPT_IDS, activePromptVersion, getPromptTemplate, setPromptVersion } from '../services/prompts/registry';
+import type { PromptId } from '../services/prompts/registry';
+import { PROMPT_TEMPLATES } from '../services/prompts/templates';
+import { DEFAULT_STYLE_PROFILE } from '../services/styleProfile';
+import { detectMimeType, readPngSize } from '../services/image/format';
+import { renderReport } from './report';
+import type { EvalCell, EvalOutput, EvalRow } from './report';
+import type { GarmentCategory, GarmentSpec, StyleProfile } from '../types';
+
+// Runs two versions of one prompt over the fixture photos and writes a
+// side-by-side report for review:
+//
+//   npm run eval:prompts -- --prompt virtualTryOn --a 1 --b 2 [--provider mock|gemini]
+//
+// Without --a and --b, the active version is compared with the newest one.
+
+const EVALS_DIR = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(EVALS_DIR, 'fixtures');
+
+interface EvalCase {
+    id: string;
+    person: string;
+    garment: string;
+    category: GarmentCategory;
+    profile: Partial<StyleProfile>;
+}
+
+interface LoadedCase extends EvalCase {
+    personImage: string;
+    garmentImage: string;
+    width: number;
+    height: number;
+    fullProfile: StyleProfile;
+}
+
+// Inputs a case needs that come from another prompt. They are made once with
+// the active versions and shared, so both sides see exactly the same input.
+interface SharedInputs {
+    spec?: GarmentSpec;
+    tryOnImage?: string;
+}
+
+type RunResult = { image: string } | { text: string };
+
+// What to prepare and run for each prompt. Only the run is timed and compared.
+const EVAL_STEPS: Record<PromptId, {
+    prepare?: (evalCase: LoadedCase) => Promise<SharedInputs>;
+    run: (evalCase: LoadedCase, shared: SharedInputs) => Promise<RunResult>;
+}> = {
+    suggestPresentation: {
+        run: async ({ personImage }) => ({ text: String(await suggestPresentation(personImage)) }),
+    },
+    garmentSpecs: {
+        run: async ({ fullProfile, category }) =>
+            ({ text: JSON.stringify(await getGarmentSpecs(fullProfile, category), null, 2) }),
+    },
+    garmentImage: {
+        prepare: async ({ fullProfile, category }) => ({ spec: (await getGarmentSpecs(fullProfile, category))[0] }),
+        run: async ({ fullProfile, category }, { spec }) =>
+            generateGarmentImage(spec!, fullProfile, '1:1', category),
+    },
+    virtualTryOn: {
+        run: ({ personImage, garmentImage, width, height, category }) =>
+            performVirtualTryOn({ personImage, garmentImage, width, height, garmentCategory: category }),
+    },
+    styleComparison: {
+        prepare: async ({ personImage, garmentImage, width, height, category }) => ({
+            tryOnImage: (await performVirtualTryOn({ personImage, garmentImage, width, height, garmentCategory: category })).image,
+        }),
+        run: async ({ personImage }, { tryOnImage }) => getStyleComparison(personImage, tryOnImage!),
+    },
+    personAnalysis: {
+        run: async ({ personImage }) => ({ text: JSON.stringify(await analyzePersonPhoto(personImage), null, 2) }),
+    },
+    garmentAnalysis: {
+        run: async ({ garmentImage }) => ({ text: JSON.stringify(await analyzeGarmentImage(garmentImage), null, 2) }),
+    },
+    garmentBackgroundRemoval: {
+        run: async ({ garmentImage }) => ({ image: await removeGarmentBackground(garmentImage) }),
+    },
+    garmentMask: {
+        prepare: async ({ personImage, garmentImage, width, height, category }) => ({
+            tryOnImage: (await performVirtualTryOn({ personImage, garmentImage, width, height, garmentCategory: category })).image,
+        }),
+        run: async ({ personImage, category }, { tryOnImage }) =>
+            ({ image: await getGarmentMask({ personImage, tryOnImage: tryOnImage!, garmentCategory: category }) }),
+    },
+};
+
+const loadCases = async (): Promise<LoadedCase[]> => {
+    const cases = JSON.parse(await readFile(path.join(FIXTURES_DIR, 'cases.json'), 'utf8')) as EvalCase[];
+    return Promise.all(cases.map(async evalCase => {
+        const personImage = (await readFile(path.join(FIXTURES_DIR, evalCase.person))).toString('base64');
+        const garmentImage = (await readFile(path.join(FIXTURES_DIR, evalCase.garment))).toString('base64');
+        // Fixture photos are PNGs, so the try-on can ask for their size.
+        const size = readPngSize(personImage);
+        if (!size) {
+            throw new Error(`${evalCase.person} is not a PNG.`);
+        }
+        return {
+            ...evalCase,
+            personImage,
+            garmentImage,
+            ...size,
+            fullProfile: { ...DEFAULT_STYLE_PROFILE, ...evalCase.profile },
+        };
+    }));
+};
+
+const textOf = (parts: ContentPart[]): string =>
+    parts.flatMap(part => 'text' in part ? [part.text] : []).join('\n');
+
+// Notes the prompt of every request, so the report shows what was really sent.
+const withPromptLog = (provider: AIProvider, log: { operation: AIOperation; prompt: string }[]): AIProvider => ({
+    ...provider,
+    generateText: request => {
+        log.push({ operation: request.operation, prompt: textOf(request.parts) });
+        return provider.generateText(request);
+    },
+    generateJson: <T,>(request: GenerateJsonRequest) => {
+        log.push({ operation: request.operation, prompt: textOf(request.parts) });
+        return provider.generateJson<T>(request);
+    },
+    generateImage: request => {
+        log.push({ operation: request.operation, prompt: request.prompt });
+        return provider.generateImage(request);
+    },
+    editImage: request => {
+        log.push({ operation: request.operation, prompt: textOf(request.parts) });
+        return provider.editImage(request);
+    },
+});
+
+const createProvider = (name: string): AIProvider => {
+    if (name === 'mock') {
+        return createMockProvider();
+    }
+    if (name !== 'gemini') {
+        throw new Error(`Unknown provider "${name}". Use "mock" or "gemini".`);
+    }
+    return createGeminiProviderFromEnv('use --provider mock');
+};
+
+const readVersion = (value: string | undefined, fallback: number, flag: string): number => {
+    if (value === undefined) return fallback;
+    const version = Number(value);
+    if (!Number.isInteger(version)) {
+        throw new Error(`--${flag} must be a version number.`);
+    }
+    return version;
+};
+
+const main = async () => {
+    const { values } = parseArgs({
+        options: {
+            prompt: { type: 'string' },
+            a: { type: 'string' },
+            b: { type: 'string' },
+            provider: { type: 'string', default: 'mock' },
+            out: { type: 'string', default: path.join(EVALS_DIR, 'out') },
+        },
+    });
+    const promptId = PROMPT_IDS.find(id => id === values.prompt);
+    if (!promptId) {
+        throw new Error(`--prompt must be one of ${PROMPT_IDS.join(', ')}.`);
+    }
+    const newest = Math.max(...PROMPT_TEMPLATES[promptId].versions.map(template => template.version));
+    const versionA = readVersion(values.a, activePromptVersion(promptId), 'a');
+    const versionB = readVersion(values.b, newest, 'b');
+    const templateA = getPromptTemplate(promptId, versionA);
+    const templateB = getPromptTemplate(promptId, versionB);
+
+    const log: { operation: AIOperation; prompt: string }[] = [];
+    setProvider(withPromptLog(createProvider(values.provider), log));
+
+    const createdAt = Date.now();
+    const outDir = path.join(values.out, `${promptId}-v${versionA}-v${versionB}-${new Date(createdAt).toISOString().replace(/[:.]/g, '-')}`);
+    await mkdir(outDir, { recursive: true });
+
+    const runCell = async (evalCase: LoadedCase, shared: SharedInputs, version: number, side: 'a' | 'b'): Promise<EvalCell> => {
+        setPromptVersion(promptId, version);
+        log.length = 0;
+        const startedAt = performance.now();
+        let output: EvalOutput;
+        try {
+            const result = await EVAL_STEPS[promptId].run(evalCase, shared);
+            if ('image' in result) {
+                const extension = detectMimeType(result.image) === 'image/jpeg' ? 'jpg' : 'png';
+                const file = `${evalCase.id}-${side}.${extension}`;
+                await writeFile(path.join(outDir, file), Buffer.from(result.image, 'base64'));
+                output = { kind: 'image', file };
+            } else {
+                output = { kind: 'text', text: result.text };
+            }
+        } catch (error) {
+            output = { kind: 'error', message: error instanceof Error ? error.message : String(error) };
+        } finally {
+            setPromptVersion(promptId, null);
+        }
+        const durationMs = performance.now() - startedAt;
+        return { output, prompt: log.find(entry => entry.operation === promptId)?.prompt ?? null, durationMs };
+    };
+
+    const rows: EvalRow[] = [];
+    for (const evalCase of await loadCases()) {
+        console.log(`${evalCase.id}: running version ${versionA} and version ${versionB}...`);
+        const shared = await EVAL_STEPS[promptId].prepare?.(evalCase) ?? {};
+        const personFile = `${evalCase.id}-person.png`;
+        await copyFile(path.join(FIXTURES_DIR, evalCase.person), path.join(outDir, personFile));
+        rows.push({
+            caseId: evalCase.id,
+            personFile,
+            a: await runCell(evalCase, shared, versionA, 'a'),
+            b: await runCell(evalCase, shared, versionB, 'b'),
+        });
+    }
+
+    const report = { promptId, provider: values.provider, createdAt, a: templateA, b: templateB, rows };
+    await writeFile(path.join(outDir, 'results.json'), JSON.stringify(report, null, 2));
+    await writeFile(path.join(outDir, 'report.html'), renderReport(report));
+    console.log(`Report written to ${path.join(outDir, 'report.html')}`);
+};
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
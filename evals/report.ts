@@ -0,0 +1,87 @@
+import type { PromptTemplate } from '../services/prompts/registry';
+
+// The side-by-side HTML page for one prompt comparison. Images are written
+// next to it, so the page only links them.
+
+export type EvalOutput =
+    | { kind: 'image'; file: string }
+    | { kind: 'text'; text: string }
+    | { kind: 'error'; message: string };
+
+export interface EvalCell {
+    output: EvalOutput;
+    // The prompt text exactly as the provider received it.
+    prompt: string | null;
+    durationMs: number;
+}
+
+export interface EvalRow {
+    caseId: string;
+    personFile: string;
+    a: EvalCell;
+    b: EvalCell;
+}
+
+export interface EvalReport {
+    promptId: string;
+    provider: string;
+    createdAt: number;
+    a: PromptTemplate;
+    b: PromptTemplate;
+    rows: EvalRow[];
+}
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderOutput = (output: EvalOutput): string => {
+    switch (output.kind) {
+        case 'image':
+            return `<a href="${escapeHtml(output.file)}"><img src="${escapeHtml(output.file)}" alt=""></a>`;
+        case 'text':
+            return `<pre class="output">${escapeHtml(output.text)}</pre>`;
+        case 'error':
+            return `<p class="error">Failed: ${escapeHtml(output.message)}</p>`;
+    }
+};
+
+const renderCell = ({ output, prompt, durationMs }: EvalCell): string => `
+        <td>
+            ${renderOutput(output)}
+            <p class="meta">${(durationMs / 1000).toFixed(1)} s</p>
+            ${prompt === null ? '' : `<details><summary>Prompt sent</summary><pre>${escapeHtml(prompt)}</pre></details>`}
+        </td>`;
+
+const renderVersionHeading = (label: string, template: PromptTemplate): string =>
+    `<th>${label}: version ${template.version}<p class="notes">${escapeHtml(template.notes)}</p></th>`;
+
+export const renderReport = (report: EvalReport): string => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.promptId)} v${report.a.version} vs v${report.b.version}</title>
+<style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+    table { border-collapse: collapse; width: 100%; table-layout: fixed; }
+    th, td { border: 1px solid #d1d5db; padding: 0.75rem; vertical-align: top; text-align: left; }
+    th:first-child, td:first-child { width: 12rem; }
+    img { max-width: 100%; max-height: 360px; }
+    pre { white-space: pre-wrap; font-size: 0.8rem; background: #f3f4f6; padding: 0.5rem; }
+    .notes, .meta { color: #6b7280; font-size: 0.8rem; font-weight: normal; margin: 0.25rem 0 0; }
+    .error { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.promptId)}: version ${report.a.version} vs version ${report.b.version}</h1>
+<p>Provider: ${escapeHtml(report.provider)} · ${new Date(report.createdAt).toLocaleString()} · ${report.rows.length} cases</p>
+<table>
+    <thead><tr><th>Case</th>${renderVersionHeading('A', report.a)}${renderVersionHeading('B', report.b)}</tr></thead>
+    <tbody>${report.rows.map(row => `
+    <tr>
+        <td><strong>${escapeHtml(row.caseId)}</strong><br><img src="${escapeHtml(row.personFile)}" alt=""></td>${renderCell(row.a)}${renderCell(row.b)}
+    </tr>`).join('')}
+    </tbody>
+</table>
+</body>
+</html>
+`;
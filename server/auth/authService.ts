@@ -0,0 +1,171 @@
+import { randomUUID } from 'node:crypto';
+import { ApiError } from '../../services/apiErrors';
+import type { User } from '../../types';
+import type { AuthStore, StoredUser, EmailTokenPurpose } from './authStore';
+import type { Mailer } from './mailer';
+import { hashPassword, verifyPassword, createToken, hashToken } from './passwords';
+
+export interface AuthServiceConfig {
+    store: AuthStore;
+    mailer: Mailer;
+    // Base URL of the frontend, used to build links in emails.
+    appUrl: string;
+    sessionTtlMs: number;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+const VERIFY_EMAIL_TTL_MS = 24 * 60 * 60 * 1000;
+const RESET_PASSWORD_TTL_MS = 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const toPublicUser = ({ id, name, email }: StoredUser): User => ({ id, name, email });
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const assertPassword = (password: string) => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new ApiError('BAD_REQUEST', `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`, 400);
+    }
+};
+
+export const createAuthService = ({ store, mailer, appUrl, sessionTtlMs }: AuthServiceConfig) => {
+    // Checked against for unknown emails, so a login takes as long whether or
+    // not the account exists.
+    const dummyPasswordHash = hashPassword(createToken());
+
+    const findUserByEmail = (email: string) =>
+        store.read().users.find(u => u.email === normalizeEmail(email));
+
+    const issueEmailToken = async (user: StoredUser, purpose: EmailTokenPurpose, ttlMs: number): Promise<string> => {
+        const token = createToken();
+        await store.update(data => {
+            // Only the newest link of each kind stays valid.
+            data.emailTokens = data.emailTokens.filter(t => !(t.userId === user.id && t.purpose === purpose));
+            data.emailTokens.push({ tokenHash: hashToken(token), userId: user.id, purpose, expiresAt: Date.now() + ttlMs });
+        });
+        return token;
+    };
+
+    const consumeEmailToken = (token: string, purpose: EmailTokenPurpose) =>
+        store.update(data => {
+            const tokenHash = hashToken(token);
+            const record = data.emailTokens.find(t => t.tokenHash === tokenHash && t.purpose === purpose);
+            if (!record) {
+                throw new ApiError('BAD_REQUEST', 'This link is invalid or has expired. Please request a new one.', 400);
+            }
+            data.emailTokens = data.emailTokens.filter(t => t !== record);
+            const user = data.users.find(u => u.id === record.userId);
+            if (!user) {
+                throw new ApiError('BAD_REQUEST', 'This link is invalid or has expired. Please request a new one.', 400);
+            }
+            return user;
+        });
+
+    const sendVerificationEmail = async (user: StoredUser) => {
+        const token = await issueEmailToken(user, 'verify-email', VERIFY_EMAIL_TTL_MS);
+        await mailer.send(user.email, 'Verify your email address',
+            `Hi ${user.name},\n\nConfirm your email to start using AI-Based OOTD:\n${appUrl}/?verifyToken=${token}\n\nThis link expires in 24 hours.`);
+    };
+
+    return {
+        register: async (name: string, email: string, password: string): Promise<User> => {
+            const normalizedEmail = normalizeEmail(email);
+            if (!EMAIL_PATTERN.test(normalizedEmail)) {
+                throw new ApiError('BAD_REQUEST', 'Please enter a valid email address.', 400);
+            }
+            assertPassword(password);
+
+            const passwordHash = await hashPassword(password);
+            const user = await store.update(data => {
+                if (data.users.some(u => u.email === normalizedEmail)) {
+                    throw new ApiError('CONFLICT', 'An account with this email already exists. Please log in.', 409);
+                }
+                const newUser: StoredUser = {
+                    id: randomUUID(),
+                    name: name.trim(),
+                    email: normalizedEmail,
+                    passwordHash,
+                    emailVerified: false,
+                    createdAt: new Date().toISOString(),
+                };
+                data.users.push(newUser);
+                return newUser;
+            });
+
+            await sendVerificationEmail(user);
+            return toPublicUser(user);
+        },
+
+        login: async (email: string, password: string): Promise<{ user: User; token: string }> => {
+            const user = findUserByEmail(email);
+            const passwordMatches = await verifyPassword(password, user?.passwordHash ?? await dummyPasswordHash);
+            if (!user || !passwordMatches) {
+                throw new ApiError('UNAUTHORIZED', 'Invalid email or password.', 401);
+            }
+            if (!user.emailVerified) {
+                throw new ApiError('EMAIL_NOT_VERIFIED', 'Please verify your email address before signing in.', 403);
+            }
+
+            const token = createToken();
+            await store.update(data => {
+                data.sessions.push({ tokenHash: hashToken(token), userId: user.id, expiresAt: Date.now() + sessionTtlMs });
+            });
+            return { user: toPublicUser(user), token };
+        },
+
+        logout: async (token: string) => {
+            const tokenHash = hashToken(token);
+            await store.update(data => {
+                data.sessions = data.sessions.filter(s => s.tokenHash !== tokenHash);
+            });
+        },
+
+        getSessionUser: (token: string): User | null => {
+            const tokenHash = hashToken(token);
+            const { sessions, users } = store.read();
+            const session = sessions.find(s => s.tokenHash === tokenHash && s.expiresAt > Date.now());
+            const user = session && users.find(u => u.id === session.userId);
+            return user ? toPublicUser(user) : null;
+        },
+
+        verifyEmail: async (token: string) => {
+            const user = await consumeEmailToken(token, 'verify-email');
+            await store.update(() => {
+                user.emailVerified = true;
+            });
+        },
+
+        // Always succeeds so the response doesn't reveal which emails exist.
+        resendVerification: async (email: string) => {
+            const user = findUserByEmail(email);
+            if (user && !user.emailVerified) {
+                await sendVerificationEmail(user);
+            }
+        },
+
+        requestPasswordReset: async (email: string) => {
+            const user = findUserByEmail(email);
+            if (!user) {
+                return;
+            }
+            const token = await issueEmailToken(user, 'reset-password', RESET_PASSWORD_TTL_MS);
+            await mailer.send(user.email, 'Reset your password',
+                `Hi ${user.name},\n\nReset your password here:\n${appUrl}/?resetToken=${token}\n\nThis link expires in 1 hour. If you didn't ask for this, you can ignore this email.`);
+        },
+
+        // Resetting signs the user out everywhere. Following the emailed link
+        // also proves they own the address.
+        resetPassword: async (token: string, password: string) => {
+            assertPassword(password);
+            const user = await consumeEmailToken(token, 'reset-password');
+            const passwordHash = await hashPassword(password);
+            await store.update(data => {
+                user.passwordHash = passwordHash;
+                user.emailVerified = true;
+                data.sessions = data.sessions.filter(s => s.userId !== user.id);
+            });
+        },
+    };
+};
+
+export type AuthService = ReturnType<typeof createAuthService>;
@@ -0,0 +1,75 @@
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export interface StoredUser {
+    id: string;
+    name: string;
+    email: string;
+    passwordHash: string;
+    emailVerified: boolean;
+    createdAt: string;
+}
+
+export interface StoredSession {
+    tokenHash: string;
+    userId: string;
+    expiresAt: number;
+}
+
+export type EmailTokenPurpose = 'verify-email' | 'reset-password';
+
+export interface StoredEmailToken {
+    tokenHash: string;
+    userId: string;
+    purpose: EmailTokenPurpose;
+    expiresAt: number;
+}
+
+export interface AuthData {
+    users: StoredUser[];
+    sessions: StoredSession[];
+    emailTokens: StoredEmailToken[];
+}
+
+export interface AuthStore {
+    read: () => AuthData;
+    // Applies a mutation and persists the result. Writes are serialized.
+    update: <T>(mutate: (data: AuthData) => T) => Promise<T>;
+}
+
+const emptyData = (): AuthData => ({ users: [], sessions: [], emailTokens: [] });
+
+// JSON-file store. Everything is held in memory and the file is rewritten
+// atomically (write + rename) after each change.
+export const createFileAuthStore = async (filePath: string): Promise<AuthStore> => {
+    let data = emptyData();
+    try {
+        data = { ...emptyData(), ...JSON.parse(await readFile(filePath, 'utf8')) };
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new Error(`Could not read auth data from ${filePath}.`, { cause: error });
+        }
+    }
+
+    let pendingWrite: Promise<void> = Promise.resolve();
+
+    const persist = async () => {
+        await mkdir(dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+        await rename(tmpPath, filePath);
+    };
+
+    return {
+        read: () => data,
+        update: async (mutate) => {
+            const now = Date.now();
+            data.sessions = data.sessions.filter(s => s.expiresAt > now);
+            data.emailTokens = data.emailTokens.filter(t => t.expiresAt > now);
+            const result = mutate(data);
+            pendingWrite = pendingWrite.then(persist, persist);
+            await pendingWrite;
+            return result;
+        },
+    };
+};
@@ -0,0 +1,31 @@
+export const SESSION_COOKIE = 'ootd_session';
+
+// Pairs whose value isn't valid percent-encoding are skipped, so one bad
+// cookie set by another app on the domain doesn't fail every request.
+export const parseCookies = (header: string | undefined): Record<string, string> => {
+    const cookies: Record<string, string> = {};
+    for (const pair of (header ?? '').split(';')) {
+        const index = pair.indexOf('=');
+        if (index > 0) {
+            try {
+                cookies[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+            } catch {
+                // Malformed; ignore it.
+            }
+        }
+    }
+    return cookies;
+};
+
+// HttpOnly so page scripts (and anything injected into them) can't read it.
+export const serializeSessionCookie = (token: string, maxAgeSeconds: number, secure: boolean): string =>
+    [
+        `${SESSION_COOKIE}=${encodeURIComponent(token)}`,
+        'Path=/',
+        'HttpOnly',
+        'SameSite=Lax',
+        `Max-Age=${maxAgeSeconds}`,
+        ...(secure ? ['Secure'] : []),
+    ].join('; ');
+
+export const clearSessionCookie = (secure: boolean): string => serializeSessionCookie('', 0, secure);
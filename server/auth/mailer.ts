@@ -0,0 +1,10 @@
+export interface Mailer {
+    send: (to: string, subject: string, body: string) => Promise<void>;
+}
+
+// Development mailer: prints the message (and its link) to the server log.
+export const createConsoleMailer = (): Mailer => ({
+    send: async (to, subject, body) => {
+        console.log(`\n[mail] To: ${to}\n[mail] Subject: ${subject}\n${body}\n`);
+    },
+});
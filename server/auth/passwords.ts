@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt>$<hash>", both base64.
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [scheme, saltB64, hashB64] = stored.split('$');
+    if (scheme !== 'scrypt' || !saltB64 || !hashB64) {
+        return false;
+    }
+    const expected = Buffer.from(hashB64, 'base64');
+    const actual = await scryptAsync(password, Buffer.from(saltB64, 'base64'), expected.length);
+    return timingSafeEqual(actual, expected);
+};
+
+// Opaque tokens (sessions, email links) are handed out once and only their
+// hash is stored, so a leaked data file cannot be replayed.
+export const createToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
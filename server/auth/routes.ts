@@ -0,0 +1,97 @@
+import { requireString } from '../http';
+import type { Route } from '../http';
+import type { AuthService } from './authService';
+import { serializeSessionCookie, clearSessionCookie } from './cookies';
+
+interface AuthRouteOptions {
+    sessionTtlMs: number;
+    secureCookies: boolean;
+}
+
+export const createAuthRoutes = (auth: AuthService, { sessionTtlMs, secureCookies }: AuthRouteOptions): Route[] => [
+    {
+        method: 'POST',
+        path: '/api/auth/register',
+        cost: 1,
+        requiresAuth: false,
+        handler: async (body) => {
+            const user = await auth.register(
+                requireString(body, 'name'),
+                requireString(body, 'email'),
+                requireString(body, 'password'),
+            );
+            return { user };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/api/auth/login',
+        cost: 1,
+        requiresAuth: false,
+        handler: async (body, { setCookie }) => {
+            const { user, token } = await auth.login(requireString(body, 'email'), requireString(body, 'password'));
+            setCookie(serializeSessionCookie(token, Math.floor(sessionTtlMs / 1000), secureCookies));
+            return { user };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/api/auth/logout',
+        cost: 0,
+        requiresAuth: false,
+        handler: async (_body, { sessionToken, setCookie }) => {
+            if (sessionToken) {
+                await auth.logout(sessionToken);
+            }
+            setCookie(clearSessionCookie(secureCookies));
+            return { ok: true };
+        },
+    },
+    {
+        method: 'GET',
+        path: '/api/auth/session',
+        cost: 0,
+        requiresAuth: false,
+        handler: async (_body, { user }) => ({ user }),
+    },
+    {
+        method: 'POST',
+        path: '/api/auth/verify-email',
+        cost: 1,
+        requiresAuth: false,
+        handler: async (body) => {
+            await auth.verifyEmail(requireString(body, 'token'));
+            return { ok: true };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/api/auth/resend-verification',
+        cost: 1,
+        requiresAuth: false,
+        handler: async (body) => {
+            await auth.resendVerification(requireString(body, 'email'));
+            return { ok: true };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/api/auth/request-password-reset',
+        cost: 1,
+        requiresAuth: false,
+        handler: async (body) => {
+            await auth.requestPasswordReset(requireString(body, 'email'));
+            return { ok: true };
+        },
+    },
+    {
+        method: 'POST',
+        path: '/api/auth/reset-password',
+        cost: 1,
+        requiresAuth: false,
+        handler: async (body) => {
+            await auth.resetPassword(requireString(body, 'token'), requireString(body, 'password'));
+            return { ok: true };
+        },
+    },
+];
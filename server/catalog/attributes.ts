@@ -0,0 +1,83 @@
+// Keyword vocabularies for reading colors, fabrics and styles out of free text
+// such as a recommendation's description. Each canonical value lists the words
+// that map onto it.
+
+const COLORS: Record<string, string[]> = {
+    black: ['black', 'jet', 'onyx', 'charcoal'],
+    white: ['white', 'ivory', 'cream', 'off-white', 'ecru'],
+    grey: ['grey', 'gray', 'slate', 'heather', 'silver'],
+    beige: ['beige', 'tan', 'sand', 'sandstone', 'camel', 'khaki', 'taupe', 'oatmeal', 'stone'],
+    brown: ['brown', 'chocolate', 'cognac', 'mocha', 'rust', 'terracotta'],
+    navy: ['navy', 'midnight', 'indigo'],
+    blue: ['blue', 'denim', 'cobalt', 'sky', 'azure', 'teal', 'turquoise'],
+    green: ['green', 'olive', 'sage', 'emerald', 'forest', 'mint'],
+    red: ['red', 'burgundy', 'merlot', 'wine', 'maroon', 'crimson', 'scarlet', 'oxblood'],
+    pink: ['pink', 'blush', 'rose', 'fuchsia', 'magenta'],
+    purple: ['purple', 'lavender', 'lilac', 'plum', 'violet'],
+    yellow: ['yellow', 'mustard', 'lemon', 'gold'],
+    orange: ['orange', 'coral', 'peach', 'apricot'],
+};
+
+const FABRICS: Record<string, string[]> = {
+    cotton: ['cotton', 'poplin', 'oxford', 'twill', 'chambray', 'seersucker'],
+    linen: ['linen'],
+    silk: ['silk'],
+    satin: ['satin', 'sateen'],
+    denim: ['denim', 'jean'],
+    wool: ['wool', 'merino', 'tweed', 'cashmere'],
+    leather: ['leather', 'suede'],
+    knit: ['knit', 'ribbed', 'cable'],
+    jersey: ['jersey'],
+    chiffon: ['chiffon', 'georgette', 'sheer'],
+    synthetic: ['polyester', 'nylon', 'mesh', 'technical', 'moisture-wicking', 'performance'],
+    flannel: ['flannel'],
+    corduroy: ['corduroy'],
+    velvet: ['velvet'],
+    crochet: ['crochet', 'lace'],
+    canvas: ['canvas'],
+};
+
+const STYLES: Record<string, string[]> = {
+    casual: ['casual', 'everyday', 'relaxed', 'weekend'],
+    formal: ['formal', 'evening', 'tuxedo', 'dressy', 'elegant'],
+    classic: ['classic', 'timeless', 'tailored', 'preppy'],
+    modern: ['modern', 'contemporary', 'sleek'],
+    edgy: ['edgy', 'bold', 'statement', 'grunge'],
+    athletic: ['athletic', 'sporty', 'activewear', 'athleisure', 'gym', 'performance'],
+    streetwear: ['streetwear', 'street', 'oversized', 'graphic'],
+    bohemian: ['bohemian', 'boho', 'festival', 'fringe'],
+    minimalist: ['minimalist', 'minimal', 'clean', 'understated'],
+    vintage: ['vintage', 'retro', 'washed', 'distressed'],
+    romantic: ['romantic', 'feminine', 'ruffle', 'floral'],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findTerms = (vocabulary: Record<string, string[]>, text: string): string[] => {
+    const lower = text.toLowerCase();
+    return Object.entries(vocabulary)
+        .filter(([, words]) => words.some(word => new RegExp(`\\b${escapeRegExp(word)}s?\\b`).test(lower)))
+        .map(([canonical]) => canonical);
+};
+
+export interface GarmentAttributes {
+    colors: string[];
+    fabrics: string[];
+    styles: string[];
+}
+
+export const extractAttributes = (text: string): GarmentAttributes => ({
+    colors: findTerms(COLORS, text),
+    fabrics: findTerms(FABRICS, text),
+    styles: findTerms(STYLES, text),
+});
+
+// Maps catalog-supplied values ("Navy", "Merino") onto the same canonical
+// terms that extractAttributes produces, keeping unknown values as-is.
+export const normalizeTerms = (values: string[], kind: keyof GarmentAttributes): string[] => {
+    const vocabulary = kind === 'colors' ? COLORS : kind === 'fabrics' ? FABRICS : STYLES;
+    return [...new Set(values.flatMap(value => {
+        const terms = findTerms(vocabulary, value);
+        return terms.length > 0 ? terms : [value.trim().toLowerCase()];
+    }))].filter(Boolean);
+};
@@ -0,0 +1,80 @@
+import { readFile } from 'node:fs/promises';
+import type { GarmentCategory, Product } from '../../types';
+import { GARMENT_CATEGORIES } from '../../services/taxonomy/taxonomy';
+import { extractAttributes, normalizeTerms } from './attributes';
+import { parsePrice, toProduct } from './normalize';
+import { readSizeChart } from './productFeed';
+
+export type CatalogGender = 'Male' | 'Female' | 'Unisex';
+
+// A product in the local shop-the-look catalog, with the attributes the
+// matcher ranks on.
+export interface CatalogProduct extends Product {
+    category: GarmentCategory;
+    gender: CatalogGender;
+    colors: string[];
+    fabrics: string[];
+    styles: string[];
+}
+
+const readStrings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const toCatalogProduct = (entry: Record<string, unknown>): CatalogProduct | null => {
+    const product = toProduct({
+        id: typeof entry.id === 'string' ? entry.id : null,
+        title: typeof entry.title === 'string' ? entry.title : null,
+        brand: typeof entry.brand === 'string' ? entry.brand : null,
+        price: typeof entry.price === 'object' && entry.price !== null
+            ? parsePrice((entry.price as Record<string, unknown>).amount, (entry.price as Record<string, unknown>).currency)
+            : parsePrice(entry.price),
+        imageUrl: typeof entry.imageUrl === 'string' ? entry.imageUrl : null,
+        productUrl: typeof entry.productUrl === 'string' ? entry.productUrl : null,
+        sizeChart: readSizeChart(entry.sizeChart),
+    }, null);
+    const category = entry.category as GarmentCategory;
+    if (!product || !GARMENT_CATEGORIES.includes(category)) {
+        return null;
+    }
+
+    // Attributes the catalog leaves out are read from the title and description.
+    const described = extractAttributes(`${product.title} ${typeof entry.description === 'string' ? entry.description : ''}`);
+    const colors = readStrings(entry.colors);
+    const fabrics = readStrings(entry.fabrics);
+    const styles = readStrings(entry.styles);
+
+    return {
+        ...product,
+        category,
+        gender: entry.gender === 'Male' || entry.gender === 'Female' ? entry.gender : 'Unisex',
+        colors: colors.length > 0 ? normalizeTerms(colors, 'colors') : described.colors,
+        fabrics: fabrics.length > 0 ? normalizeTerms(fabrics, 'fabrics') : described.fabrics,
+        styles: styles.length > 0 ? normalizeTerms(styles, 'styles') : described.styles,
+    };
+};
+
+// A missing catalog file leaves shop-the-look empty rather than stopping the server.
+export const loadCatalog = async (file: string): Promise<CatalogProduct[]> => {
+    let entries: unknown;
+    try {
+        entries = JSON.parse(await readFile(file, 'utf8'));
+    } catch (error) {
+        console.warn(`Product catalog ${file} could not be loaded; shop-the-look is disabled.`, error);
+        return [];
+    }
+    if (!Array.isArray(entries)) {
+        console.warn(`Product catalog ${file} must be a JSON array; shop-the-look is disabled.`);
+        return [];
+    }
+
+    const catalog: CatalogProduct[] = [];
+    entries.forEach((entry, index) => {
+        const product = typeof entry === 'object' && entry !== null ? toCatalogProduct(entry) : null;
+        if (product) {
+            catalog.push(product);
+        } else {
+            console.warn(`Skipping catalog entry ${index}: it needs a title, an absolute imageUrl and a valid category.`);
+        }
+    });
+    return catalog;
+};
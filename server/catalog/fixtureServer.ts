@@ -0,0 +1,60 @@
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { MOCK_GARMENT_IMAGES } from '../../services/providers/mockFixtures';
+
+// Stand-in store for trying the product importer offline. Serves the saved
+// pages and feeds in ./fixtures, plus /images/tee-<n>.png from the mock
+// provider's garment images. Run the API server with
+// PRODUCT_IMPORT_ALLOW_PRIVATE_HOSTS=true so it may fetch from localhost. The
+// importer tests start their own copy.
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const PORT = Number(process.env.FIXTURE_PORT ?? 8788);
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.json': 'application/json',
+    '.csv': 'text/csv; charset=utf-8',
+};
+
+export const createFixtureServer = () => createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    const image = pathname.match(/^\/images\/tee-(\d+)\.png$/);
+    if (image && MOCK_GARMENT_IMAGES[Number(image[1])]) {
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(Buffer.from(MOCK_GARMENT_IMAGES[Number(image[1])], 'base64'));
+        return;
+    }
+
+    // Old product links redirect, like real stores do after a rename.
+    if (pathname === '/products/linen-shirt') {
+        res.writeHead(301, { Location: '/linen-shirt.html' });
+        res.end();
+        return;
+    }
+
+    const file = path.basename(pathname);
+    const contentType = CONTENT_TYPES[path.extname(file)];
+    if (!contentType) {
+        res.writeHead(404).end();
+        return;
+    }
+    try {
+        const body = await readFile(path.join(FIXTURES_DIR, file));
+        res.writeHead(200, { 'Content-Type': contentType });
+        res.end(body);
+    } catch {
+        res.writeHead(404).end();
+    }
+});
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    createFixtureServer().listen(PORT, () => {
+        console.log(`Product fixture server listening on http://localhost:${PORT}`);
+        console.log(`  Pages: /linen-shirt.html, /denim-jacket.html, /no-product.html (and /products/linen-shirt redirect)`);
+        console.log(`  Feeds: /feed.json, /feed.csv`);
+    });
+}
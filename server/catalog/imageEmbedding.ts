@@ -0,0 +1,132 @@
+import { inflateSync } from 'node:zlib';
+
+// A small, dependency-free image embedding for product matching: a coarse RGB
+// histogram of the garment's pixels, skipping the white studio background.
+// Only 8-bit, non-interlaced PNGs are decoded (the format the image models
+// and most product shots use); anything else simply has no embedding.
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+const BINS_PER_CHANNEL = 4;
+const MAX_SAMPLES = 64 * 1024;
+// Sizes come from the client, so larger images aren't decoded at all.
+const MAX_PIXELS = 4096 * 4096;
+
+interface DecodedImage {
+    width: number;
+    height: number;
+    channels: number;
+    pixels: Buffer;
+}
+
+const paeth = (a: number, b: number, c: number) => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+const decodePng = (data: Buffer): DecodedImage | null => {
+    if (data.length < 8 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+        return null;
+    }
+
+    let width = 0;
+    let height = 0;
+    let channels = 0;
+    const idat: Buffer[] = [];
+    for (let offset = 8; offset + 8 <= data.length;) {
+        const length = data.readUInt32BE(offset);
+        const type = data.toString('latin1', offset + 4, offset + 8);
+        const chunk = data.subarray(offset + 8, offset + 8 + length);
+        if (type === 'IHDR') {
+            if (chunk.length < 13) {
+                return null;
+            }
+            width = chunk.readUInt32BE(0);
+            height = chunk.readUInt32BE(4);
+            const bitDepth = chunk[8];
+            const colorType = chunk[9];
+            const interlace = chunk[12];
+            channels = CHANNELS[colorType] ?? 0;
+            if (bitDepth !== 8 || interlace !== 0 || channels === 0) {
+                return null;
+            }
+        } else if (type === 'IDAT') {
+            idat.push(chunk);
+        } else if (type === 'IEND') {
+            break;
+        }
+        offset += length + 12;
+    }
+    if (!width || !height || width * height > MAX_PIXELS || idat.length === 0) {
+        return null;
+    }
+
+    // Each row is a filter byte and its pixels. Inflating stops past that, and
+    // anything shorter or longer is not the image the header describes.
+    const stride = width * channels;
+    const expectedLength = (stride + 1) * height;
+    const raw = inflateSync(Buffer.concat(idat), { maxOutputLength: expectedLength });
+    if (raw.length !== expectedLength) {
+        return null;
+    }
+    const pixels = Buffer.alloc(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const row = y * stride;
+        for (let x = 0; x < stride; x++) {
+            const left = x >= channels ? pixels[row + x - channels] : 0;
+            const up = y > 0 ? pixels[row - stride + x] : 0;
+            const upLeft = y > 0 && x >= channels ? pixels[row - stride + x - channels] : 0;
+            const predictor = filter === 1 ? left
+                : filter === 2 ? up
+                : filter === 3 ? (left + up) >> 1
+                : filter === 4 ? paeth(left, up, upLeft)
+                : 0;
+            pixels[row + x] = (line[x] + predictor) & 0xff;
+        }
+    }
+    return { width, height, channels, pixels };
+};
+
+const colorHistogram = ({ width, height, channels, pixels }: DecodedImage): number[] | null => {
+    const histogram = new Array<number>(BINS_PER_CHANNEL ** 3).fill(0);
+    const step = Math.max(1, Math.floor(Math.sqrt((width * height) / MAX_SAMPLES)));
+    const binSize = 256 / BINS_PER_CHANNEL;
+
+    for (let y = 0; y < height; y += step) {
+        for (let x = 0; x < width; x += step) {
+            const i = (y * width + x) * channels;
+            const isGray = channels < 3;
+            const r = pixels[i];
+            const g = isGray ? r : pixels[i + 1];
+            const b = isGray ? r : pixels[i + 2];
+            const alpha = channels === 4 ? pixels[i + 3] : channels === 2 ? pixels[i + 1] : 255;
+            if (alpha < 128 || (r > 235 && g > 235 && b > 235)) {
+                continue;
+            }
+            const bin = (Math.floor(r / binSize) * BINS_PER_CHANNEL + Math.floor(g / binSize)) * BINS_PER_CHANNEL + Math.floor(b / binSize);
+            histogram[bin]++;
+        }
+    }
+
+    const norm = Math.sqrt(histogram.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? histogram.map(v => v / norm) : null;
+};
+
+export const embedImage = (base64: string): number[] | null => {
+    try {
+        const image = decodePng(Buffer.from(base64, 'base64'));
+        return image ? colorHistogram(image) : null;
+    } catch (error) {
+        console.warn('Could not embed image for product matching:', error);
+        return null;
+    }
+};
+
+// Embeddings are L2-normalized, so the dot product is the cosine similarity.
+export const cosineSimilarity = (a: number[], b: number[]): number =>
+    a.length === b.length ? a.reduce((sum, v, i) => sum + v * b[i], 0) : 0;
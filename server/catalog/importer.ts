@@ -0,0 +1,233 @@
+import { lookup } from 'node:dns/promises';
+import http from 'node:http';
+import type { IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { isIP } from 'node:net';
+import type { LookupFunction } from 'node:net';
+import { ApiError } from '../../services/apiErrors';
+import type { InlineImage } from '../../services/providers/types';
+import type { ProductFeedFormat, ProductImportResult } from '../../types';
+import { parseProductPage } from './productPage';
+import { parseProductFeed } from './productFeed';
+
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const USER_AGENT = 'ai-ootd-product-importer/1.0';
+
+export interface ProductImporterOptions {
+    // Lets the importer reach localhost and private networks, e.g. the local
+    // fixture server. Keep this off anywhere the API is exposed.
+    allowPrivateHosts: boolean;
+    timeoutMs?: number;
+}
+
+export interface ProductImporter {
+    importFromUrl: (url: string) => Promise<ProductImportResult>;
+    importFeed: (text: string, format: ProductFeedFormat) => ProductImportResult;
+    fetchImage: (url: string) => Promise<InlineImage>;
+}
+
+interface FetchedResource {
+    body: Buffer;
+    contentType: string;
+    url: URL;
+}
+
+interface CheckedAddress {
+    address: string;
+    family: number;
+}
+
+// Everything but the public unicast internet: this network, private,
+// shared (CGNAT), loopback, link-local, IETF protocol assignments, benchmarking,
+// multicast, reserved and broadcast.
+const isPrivateIPv4 = (address: string): boolean => {
+    const [a, b, c] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+        || (a === 100 && b >= 64 && b <= 127)
+        || (a === 169 && b === 254)
+        || (a === 172 && b >= 16 && b <= 31)
+        || (a === 192 && b === 0 && c === 0)
+        || (a === 192 && b === 168)
+        || (a === 198 && (b === 18 || b === 19))
+        || a >= 224;
+};
+
+// IPv6 forms that carry an IPv4 address in their last 32 bits: IPv4-mapped
+// (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64 (64:ff9b::/96). URLs write
+// the IPv4 part in hex, e.g. [::ffff:7f00:1].
+const EMBEDDED_IPV4 = /^(?:::ffff:|::|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/;
+
+const isPrivateAddress = (address: string): boolean => {
+    if (isIP(address) === 4) {
+        return isPrivateIPv4(address);
+    }
+    const lower = address.toLowerCase();
+    const embedded = lower.match(EMBEDDED_IPV4);
+    if (embedded) {
+        const [, dotted, highHex, lowHex] = embedded;
+        if (dotted) {
+            return isPrivateIPv4(dotted);
+        }
+        const [high, low] = [parseInt(highHex, 16), parseInt(lowHex, 16)];
+        return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    // Unspecified, loopback, local-use NAT64, unique local, link-local and multicast.
+    return lower === '::' || lower === '::1' || /^64:ff9b:1:/.test(lower)
+        || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || /^ff/.test(lower);
+};
+
+// Answers the connection's DNS lookup with the address already checked, so a
+// host can't pass the check with one answer and connect with another.
+const pinnedLookup = ({ address, family }: CheckedAddress): LookupFunction => (_hostname, options, callback) => {
+    if (options.all) {
+        callback(null, [{ address, family }]);
+    } else {
+        callback(null, address, family);
+    }
+};
+
+const sendRequest = (url: URL, headers: Record<string, string>, lookup: LookupFunction | undefined, signal: AbortSignal): Promise<IncomingMessage> =>
+    new Promise((resolve, reject) => {
+        const client = url.protocol === 'https:' ? https : http;
+        client.get(url, { headers, lookup, signal }, resolve).on('error', reject);
+    });
+
+export const createProductImporter = ({ allowPrivateHosts, timeoutMs = 10_000 }: ProductImporterOptions): ProductImporter => {
+    // Returns the address to connect to, or null to let the connection look
+    // the host up itself.
+    const checkUrl = async (url: URL): Promise<CheckedAddress | null> => {
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new ApiError('BAD_REQUEST', 'Only http and https links can be imported.', 400);
+        }
+        if (allowPrivateHosts) {
+            return null;
+        }
+        const hostname = url.hostname.replace(/^\[|\]$/g, '');
+        const addresses = isIP(hostname)
+            ? [{ address: hostname, family: isIP(hostname) }]
+            : await lookup(hostname, { all: true }).catch(() => []);
+        if (addresses.length === 0) {
+            throw new ApiError('BAD_REQUEST', `Could not find the store at ${url.hostname}.`, 400);
+        }
+        if (addresses.some(({ address }) => isPrivateAddress(address))) {
+            throw new ApiError('BAD_REQUEST', 'That link points to a private network address and cannot be imported.', 400);
+        }
+        return addresses[0];
+    };
+
+    // Follows redirects by hand so every hop passes the host check.
+    const fetchResource = async (rawUrl: string, accept: string, maxBytes: number): Promise<FetchedResource> => {
+        let url: URL;
+        try {
+            url = new URL(rawUrl);
+        } catch {
+            throw new ApiError('BAD_REQUEST', 'Please enter a full link starting with http:// or https://.', 400);
+        }
+
+        for (let redirects = 0; ; redirects++) {
+            const checked = await checkUrl(url);
+            // Covers connecting and reading the body.
+            const signal = AbortSignal.timeout(timeoutMs);
+            const timedOut = (error: unknown) =>
+                new ApiError('TIMEOUT', `${url.hostname} took too long to respond. Please try again.`, 504, undefined, { cause: error });
+
+            let response: IncomingMessage;
+            try {
+                response = await sendRequest(
+                    url,
+                    { Accept: accept, 'User-Agent': USER_AGENT },
+                    checked ? pinnedLookup(checked) : undefined,
+                    signal
+                );
+            } catch (error) {
+                if (signal.aborted) {
+                    throw timedOut(error);
+                }
+                throw new ApiError('UPSTREAM_FAILED', `Could not reach ${url.hostname}. Please check the link and try again.`, 502, undefined, { cause: error });
+            }
+
+            const status = response.statusCode ?? 0;
+            const { location } = response.headers;
+            if (status >= 300 && status < 400 && location) {
+                response.resume();
+                if (redirects >= MAX_REDIRECTS) {
+                    throw new ApiError('UPSTREAM_FAILED', 'The store redirected too many times.', 502);
+                }
+                url = new URL(location, url);
+                continue;
+            }
+            if (status < 200 || status >= 300) {
+                response.resume();
+                throw new ApiError('UPSTREAM_FAILED', `The store responded with HTTP ${status}.`, 502);
+            }
+
+            const declaredLength = Number(response.headers['content-length'] ?? 0);
+            if (declaredLength > maxBytes) {
+                response.destroy();
+                throw new ApiError('BAD_REQUEST', 'The linked file is too large to import.', 413);
+            }
+            const chunks: Buffer[] = [];
+            let size = 0;
+            try {
+                for await (const chunk of response) {
+                    size += chunk.length;
+                    if (size > maxBytes) {
+                        response.destroy();
+                        throw new ApiError('BAD_REQUEST', 'The linked file is too large to import.', 413);
+                    }
+                    chunks.push(chunk);
+                }
+            } catch (error) {
+                if (error instanceof ApiError) {
+                    throw error;
+                }
+                if (signal.aborted) {
+                    throw timedOut(error);
+                }
+                throw new ApiError('UPSTREAM_FAILED', `The connection to ${url.hostname} was lost. Please try again.`, 502, undefined, { cause: error });
+            }
+            return { body: Buffer.concat(chunks), contentType: response.headers['content-type'] ?? '', url };
+        }
+    };
+
+    const detectFeedFormat = ({ contentType, url }: FetchedResource): ProductFeedFormat | null => {
+        if (contentType.includes('json') || url.pathname.endsWith('.json')) {
+            return 'json';
+        }
+        if (contentType.includes('csv') || url.pathname.endsWith('.csv')) {
+            return 'csv';
+        }
+        return null;
+    };
+
+    return {
+        importFromUrl: async (url) => {
+            const resource = await fetchResource(url, 'text/html, application/json, text/csv;q=0.9, */*;q=0.5', MAX_PAGE_BYTES);
+            const text = resource.body.toString('utf8');
+
+            const feedFormat = detectFeedFormat(resource);
+            if (feedFormat) {
+                return parseProductFeed(text, feedFormat, resource.url.href);
+            }
+
+            const product = parseProductPage(text, resource.url.href);
+            if (!product) {
+                throw new ApiError('BAD_REQUEST', "We couldn't find a product with a name and photo on that page.", 422);
+            }
+            return { products: [product], skipped: 0 };
+        },
+
+        importFeed: (text, format) => parseProductFeed(text, format),
+
+        fetchImage: async (url) => {
+            const resource = await fetchResource(url, 'image/*', MAX_IMAGE_BYTES);
+            const mimeType = resource.contentType.split(';')[0].trim();
+            if (!mimeType.startsWith('image/')) {
+                throw new ApiError('BAD_REQUEST', 'The product image link did not return an image.', 422);
+            }
+            return { mimeType, data: resource.body.toString('base64') };
+        },
+    };
+};
@@ -0,0 +1,118 @@
+import type { GarmentCategory, ProductMatch, RecommendationItem, StylePresentation } from '../../types';
+import type { InlineImage } from '../../services/providers/types';
+import { extractAttributes } from './attributes';
+import type { GarmentAttributes } from './attributes';
+import type { CatalogProduct } from './catalog';
+import { embedImage, cosineSimilarity } from './imageEmbedding';
+
+export interface MatchQuery {
+    item: RecommendationItem;
+    category: GarmentCategory;
+    presentation: StylePresentation | null;
+    // Base64 PNG of the generated garment, used when image embeddings are on.
+    image: string | null;
+}
+
+export interface ProductMatcherOptions {
+    catalog: CatalogProduct[];
+    // Loads catalog images for embedding. Leave unset to rank on attributes only.
+    loadImage?: (url: string) => Promise<InlineImage>;
+}
+
+export interface ProductMatcher {
+    match: (query: MatchQuery, limit: number) => Promise<ProductMatch[]>;
+}
+
+const WEIGHTS = { colors: 0.4, fabrics: 0.25, styles: 0.2, image: 0.35 };
+
+// Share of the query's terms that the product also has.
+const overlap = (query: string[], product: string[]) => {
+    const matched = query.filter(term => product.includes(term));
+    return { matched, ratio: query.length > 0 ? matched.length / query.length : 0 };
+};
+
+export const createProductMatcher = ({ catalog, loadImage }: ProductMatcherOptions): ProductMatcher => {
+    let catalogEmbeddings: Promise<Map<string, number[]>> | null = null;
+
+    // Embedded once, on the first match that brings an image.
+    const getCatalogEmbeddings = () => {
+        catalogEmbeddings ??= (async () => {
+            const embeddings = new Map<string, number[]>();
+            if (!loadImage) {
+                return embeddings;
+            }
+            await Promise.all(catalog.map(async product => {
+                try {
+                    const image = await loadImage(product.imageUrl);
+                    const embedding = image.mimeType === 'image/png' ? embedImage(image.data) : null;
+                    if (embedding) {
+                        embeddings.set(product.id, embedding);
+                    }
+                } catch (error) {
+                    console.warn(`Could not load catalog image for "${product.title}":`, error);
+                }
+            }));
+            return embeddings;
+        })();
+        return catalogEmbeddings;
+    };
+
+    return {
+        match: async ({ item, category, presentation, image }, limit) => {
+            const described = extractAttributes(`${item.itemName} ${item.description}`);
+            const query: GarmentAttributes = {
+                ...described,
+                styles: [...new Set([...described.styles, ...extractAttributes(item.styleCategory).styles])],
+            };
+            const queryEmbedding = image && loadImage ? embedImage(image) : null;
+            const embeddings = queryEmbedding ? await getCatalogEmbeddings() : new Map<string, number[]>();
+
+            // Menswear and womenswear shoppers see their department and unisex
+            // products; unisex and mixed shoppers see every department.
+            const department = presentation === 'menswear' ? 'Male' : presentation === 'womenswear' ? 'Female' : null;
+            const candidates = catalog.filter(product =>
+                product.category === category
+                && (department === null || product.gender === 'Unisex' || product.gender === department));
+
+            return candidates
+                .map(product => {
+                    let score = 0;
+                    let weight = 0;
+                    const matchedOn: string[] = [];
+                    for (const key of ['colors', 'fabrics', 'styles'] as const) {
+                        if (query[key].length === 0) continue;
+                        const { matched, ratio } = overlap(query[key], product[key]);
+                        score += WEIGHTS[key] * ratio;
+                        weight += WEIGHTS[key];
+                        matchedOn.push(...matched);
+                    }
+                    const productEmbedding = embeddings.get(product.id);
+                    if (queryEmbedding && productEmbedding) {
+                        const similarity = Math.max(0, cosineSimilarity(queryEmbedding, productEmbedding));
+                        score += WEIGHTS.image * similarity;
+                        weight += WEIGHTS.image;
+                        if (similarity >= 0.8) {
+                            matchedOn.push('similar look');
+                        }
+                    }
+                    return { product, score: weight > 0 ? score / weight : 0, matchedOn };
+                })
+                .filter(match => match.score > 0)
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit)
+                .map(({ product, score, matchedOn }) => ({
+                    product: {
+                        id: product.id,
+                        title: product.title,
+                        brand: product.brand,
+                        price: product.price,
+                        sizeChart: product.sizeChart,
+                        imageUrl: product.imageUrl,
+                        productUrl: product.productUrl,
+                    },
+                    score: Math.round(score * 100) / 100,
+                    matchedOn,
+                }));
+        },
+    };
+};
@@ -0,0 +1,132 @@
+import type { Product, ProductPrice, SizeChartRow } from '../../types';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    '$': 'USD',
+    'US$': 'USD',
+    '€': 'EUR',
+    '£': 'GBP',
+    '¥': 'JPY',
+    '₩': 'KRW',
+    'RM': 'MYR',
+    'S$': 'SGD',
+    'A$': 'AUD',
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+};
+
+export const decodeEntities = (text: string): string =>
+    text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+
+export const stripTags = (html: string): string =>
+    decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+const readAmount = (text: string): number | null => {
+    const match = text.match(/\d[\d.,]*/);
+    if (!match) {
+        return null;
+    }
+    let digits = match[0];
+    // "1.299,00" and "29,99" use a decimal comma; "1,299.00" uses a thousands comma.
+    if (/,\d{1,2}$/.test(digits)) {
+        digits = digits.replace(/\./g, '').replace(',', '.');
+    } else {
+        digits = digits.replace(/,/g, '');
+    }
+    const amount = Number(digits);
+    return Number.isFinite(amount) ? amount : null;
+};
+
+// Accepts numbers and strings like "29.99 USD", "$29.99" or "RM 89.00". Prices
+// without a recognisable currency are dropped rather than guessed.
+export const parsePrice = (value: unknown, currency?: unknown): ProductPrice | null => {
+    if (typeof value !== 'number' && typeof value !== 'string') {
+        return null;
+    }
+    const text = String(value).trim();
+    const amount = typeof value === 'number' ? value : readAmount(text);
+    if (amount === null || !Number.isFinite(amount)) {
+        return null;
+    }
+
+    if (typeof currency === 'string' && /^[a-z]{3}$/i.test(currency.trim())) {
+        return { amount, currency: currency.trim().toUpperCase() };
+    }
+    const code = text.match(/\b([A-Z]{3})\b/);
+    if (code) {
+        return { amount, currency: code[1] };
+    }
+    const symbol = Object.keys(CURRENCY_SYMBOLS)
+        .sort((a, b) => b.length - a.length)
+        .find(s => text.includes(s));
+    return symbol ? { amount, currency: CURRENCY_SYMBOLS[symbol] } : null;
+};
+
+// Feed size charts are written as "S: Chest=92 cm, Length=68 cm | M: Chest=98 cm".
+export const parseSizeChartText = (text: string): SizeChartRow[] =>
+    text.split('|').flatMap(row => {
+        const [size, rest = ''] = row.split(/:(.*)/s);
+        if (!size.trim()) {
+            return [];
+        }
+        const measurements: Record<string, string> = {};
+        for (const pair of rest.split(',')) {
+            const [key, value] = pair.split('=');
+            if (key?.trim() && value?.trim()) {
+                measurements[key.trim()] = value.trim();
+            }
+        }
+        return [{ size: size.trim(), measurements }];
+    });
+
+const resolveUrl = (value: string, baseUrl: string | null): string | null => {
+    try {
+        const url = baseUrl ? new URL(value, baseUrl) : new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+    } catch {
+        return null;
+    }
+};
+
+export interface ProductFields {
+    id?: string | null;
+    title?: string | null;
+    brand?: string | null;
+    price?: ProductPrice | null;
+    sizeChart?: SizeChartRow[];
+    imageUrl?: string | null;
+    productUrl?: string | null;
+}
+
+// Returns null when the product can't be tried on: it needs a title and an
+// image that resolves to an http(s) URL.
+export const toProduct = (fields: ProductFields, baseUrl: string | null): Product | null => {
+    const title = fields.title?.trim();
+    const imageUrl = fields.imageUrl ? resolveUrl(fields.imageUrl.trim(), baseUrl) : null;
+    if (!title || !imageUrl) {
+        return null;
+    }
+    const productUrl = fields.productUrl ? resolveUrl(fields.productUrl.trim(), baseUrl) : null;
+
+    return {
+        id: fields.id?.trim() || productUrl || imageUrl,
+        title,
+        brand: fields.brand?.trim() || null,
+        price: fields.price ?? null,
+        sizeChart: fields.sizeChart ?? [],
+        imageUrl,
+        productUrl,
+    };
+};
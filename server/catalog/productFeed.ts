@@ -0,0 +1,148 @@
+import type { Product, ProductFeedFormat, ProductImportResult, SizeChartRow } from '../../types';
+import { ApiError } from '../../services/apiErrors';
+import { parsePrice, parseSizeChartText, toProduct } from './normalize';
+
+type FeedRecord = Record<string, unknown>;
+
+// Feeds use Google Merchant, Shopify or hand-rolled column names; try the
+// common spellings of each field in order.
+const FIELD_ALIASES = {
+    id: ['id', 'sku', 'offer_id', 'product_id'],
+    title: ['title', 'name', 'product_name'],
+    brand: ['brand', 'vendor', 'manufacturer'],
+    price: ['sale_price', 'price'],
+    currency: ['currency', 'price_currency', 'priceCurrency'],
+    imageUrl: ['image_link', 'image_url', 'imageUrl', 'image', 'main_image'],
+    productUrl: ['link', 'url', 'product_url', 'productUrl'],
+    sizeChart: ['size_chart', 'sizeChart'],
+};
+
+const pick = (record: FeedRecord, field: keyof typeof FIELD_ALIASES): unknown => {
+    for (const key of FIELD_ALIASES[field]) {
+        const value = record[key];
+        if (value !== undefined && value !== null && value !== '') {
+            return value;
+        }
+    }
+    return undefined;
+};
+
+const asString = (value: unknown): string | null =>
+    typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+
+export const readSizeChart = (value: unknown): SizeChartRow[] => {
+    if (typeof value === 'string') {
+        return parseSizeChartText(value);
+    }
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value.flatMap(row => {
+        if (typeof row !== 'object' || row === null || typeof row.size !== 'string') {
+            return [];
+        }
+        const measurements: Record<string, string> = {};
+        for (const [key, measurement] of Object.entries(row.measurements ?? {})) {
+            if (asString(measurement)) {
+                measurements[key] = String(measurement);
+            }
+        }
+        return [{ size: row.size, measurements }];
+    });
+};
+
+const recordToProduct = (record: FeedRecord, baseUrl: string | null): Product | null => {
+    const price = pick(record, 'price');
+    return toProduct({
+        id: asString(pick(record, 'id')),
+        title: asString(pick(record, 'title')),
+        brand: asString(pick(record, 'brand')),
+        price: typeof price === 'object' && price !== null
+            ? parsePrice((price as FeedRecord).amount ?? (price as FeedRecord).value, (price as FeedRecord).currency)
+            : parsePrice(price, pick(record, 'currency')),
+        imageUrl: asString(pick(record, 'imageUrl')),
+        productUrl: asString(pick(record, 'productUrl')),
+        sizeChart: readSizeChart(pick(record, 'sizeChart')),
+    }, baseUrl);
+};
+
+// RFC 4180 style: quoted fields may contain commas, newlines and "" escapes.
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const readJsonRecords = (text: string): FeedRecord[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ApiError('BAD_REQUEST', 'The product feed is not valid JSON.', 400);
+    }
+    const list = Array.isArray(data)
+        ? data
+        : (data as FeedRecord | null)?.products ?? (data as FeedRecord | null)?.items;
+    if (!Array.isArray(list)) {
+        throw new ApiError('BAD_REQUEST', 'The product feed must be a JSON array or an object with a "products" list.', 400);
+    }
+    return list.filter((item): item is FeedRecord => typeof item === 'object' && item !== null);
+};
+
+const readCsvRecords = (text: string): FeedRecord[] => {
+    const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    if (!header) {
+        throw new ApiError('BAD_REQUEST', 'The product feed CSV is empty.', 400);
+    }
+    const columns = header.map(name => name.trim());
+    return rows.map(row => Object.fromEntries(columns.map((name, i) => [name, row[i]?.trim() ?? ''])));
+};
+
+// Relative image and product links are resolved against baseUrl, so feeds
+// pasted without a URL need absolute links.
+export const parseProductFeed = (text: string, format: ProductFeedFormat, baseUrl: string | null = null): ProductImportResult => {
+    const records = format === 'json' ? readJsonRecords(text) : readCsvRecords(text);
+    const products: Product[] = [];
+    for (const record of records) {
+        const product = recordToProduct(record, baseUrl);
+        if (product) {
+            products.push(product);
+        }
+    }
+    return { products, skipped: records.length - products.length };
+};
@@ -0,0 +1,139 @@
+import type { Product, SizeChartRow } from '../../types';
+import { decodeEntities, stripTags, parsePrice, toProduct } from './normalize';
+import type { ProductFields } from './normalize';
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const firstString = (value: unknown): string | null => {
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return firstString(value[0]);
+    }
+    if (isObject(value)) {
+        return firstString(value.url ?? value.name ?? value.contentUrl);
+    }
+    return null;
+};
+
+const isProductType = (type: unknown): boolean =>
+    type === 'Product' || (Array.isArray(type) && type.includes('Product'));
+
+// Walks JSON-LD blocks, including @graph containers, for a schema.org Product.
+const findJsonLdProduct = (html: string): JsonObject | null => {
+    const scripts = html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+    for (const [, json] of scripts) {
+        let data: unknown;
+        try {
+            data = JSON.parse(json);
+        } catch {
+            continue;
+        }
+        const queue: unknown[] = [data];
+        while (queue.length > 0) {
+            const node = queue.shift();
+            if (Array.isArray(node)) {
+                queue.push(...node);
+            } else if (isObject(node)) {
+                if (isProductType(node['@type'])) {
+                    return node;
+                }
+                if (node['@graph']) {
+                    queue.push(node['@graph']);
+                }
+            }
+        }
+    }
+    return null;
+};
+
+const fieldsFromJsonLd = (product: JsonObject): ProductFields => {
+    const offers = Array.isArray(product.offers) ? product.offers[0] : product.offers;
+    const offer = isObject(offers) ? offers : {};
+    return {
+        id: firstString(product.sku) ?? firstString(product.productID),
+        title: firstString(product.name),
+        brand: firstString(product.brand),
+        price: parsePrice(offer.price ?? offer.lowPrice, offer.priceCurrency),
+        imageUrl: firstString(product.image),
+        productUrl: firstString(product.url) ?? firstString(offer.url),
+    };
+};
+
+const readMetaTags = (html: string): Record<string, string> => {
+    const meta: Record<string, string> = {};
+    for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+        const attributes: Record<string, string> = {};
+        for (const [, name, , value] of tag.matchAll(/([a-z:-]+)\s*=\s*(["'])(.*?)\2/gi)) {
+            attributes[name.toLowerCase()] = decodeEntities(value);
+        }
+        const key = attributes.property ?? attributes.name ?? attributes.itemprop;
+        if (key && attributes.content !== undefined && meta[key.toLowerCase()] === undefined) {
+            meta[key.toLowerCase()] = attributes.content;
+        }
+    }
+    return meta;
+};
+
+const fieldsFromMeta = (html: string): ProductFields => {
+    const meta = readMetaTags(html);
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    return {
+        title: meta['og:title'] ?? (title ? stripTags(title[1]) : null),
+        brand: meta['product:brand'] ?? meta['og:brand'] ?? meta['brand'] ?? null,
+        price: parsePrice(
+            meta['product:price:amount'] ?? meta['og:price:amount'] ?? meta['price'],
+            meta['product:price:currency'] ?? meta['og:price:currency'] ?? meta['pricecurrency'],
+        ),
+        imageUrl: meta['og:image:secure_url'] ?? meta['og:image'] ?? meta['image'] ?? null,
+        productUrl: meta['og:url'] ?? null,
+    };
+};
+
+// Size charts are plain tables; take the first one that mentions sizes in its
+// caption, attributes or header row and read one row per size.
+const findSizeChart = (html: string): SizeChartRow[] => {
+    for (const [, attributes, body] of html.matchAll(/<table([^>]*)>([\s\S]*?)<\/table>/gi)) {
+        const rows = [...body.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map(([, row]) =>
+            [...row.matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi)].map(([, cell]) => stripTags(cell)));
+        const caption = body.match(/<caption[^>]*>([\s\S]*?)<\/caption>/i)?.[1] ?? '';
+        const header = rows[0] ?? [];
+        const mentionsSize = /size/i.test(attributes) || /size/i.test(stripTags(caption)) || /size/i.test(header[0] ?? '');
+        if (!mentionsSize || header.length < 2 || rows.length < 2) {
+            continue;
+        }
+
+        return rows.slice(1).filter(row => row[0]).map(row => {
+            const measurements: Record<string, string> = {};
+            header.slice(1).forEach((name, i) => {
+                if (name && row[i + 1]) {
+                    measurements[name] = row[i + 1];
+                }
+            });
+            return { size: row[0], measurements };
+        });
+    }
+    return [];
+};
+
+// Reads a product page: schema.org JSON-LD first, then Open Graph / product
+// meta tags for anything JSON-LD left out.
+export const parseProductPage = (html: string, pageUrl: string): Product | null => {
+    const jsonLd = findJsonLdProduct(html);
+    const fromJsonLd = jsonLd ? fieldsFromJsonLd(jsonLd) : {};
+    const fromMeta = fieldsFromMeta(html);
+
+    return toProduct({
+        id: fromJsonLd.id,
+        title: fromJsonLd.title ?? fromMeta.title,
+        brand: fromJsonLd.brand ?? fromMeta.brand,
+        price: fromJsonLd.price ?? fromMeta.price,
+        imageUrl: fromJsonLd.imageUrl ?? fromMeta.imageUrl,
+        productUrl: fromJsonLd.productUrl ?? fromMeta.productUrl ?? pageUrl,
+        sizeChart: findSizeChart(html),
+    }, pageUrl);
+};
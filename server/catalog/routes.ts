@@ -0,0 +1,76 @@
+import { ApiError } from '../../services/apiErrors';
+import { requireString, requireObject } from '../http';
+import type { Route } from '../http';
+import { readGarmentCategory } from '../routes';
+import type { ProductFeedFormat, StylePresentation } from '../../types';
+import { STYLE_PRESENTATIONS } from '../../services/styleProfile';
+import type { ProductImporter } from './importer';
+import type { ProductMatcher } from './matcher';
+
+const FEED_FORMATS: ProductFeedFormat[] = ['json', 'csv'];
+
+const readFeedFormat = (body: Record<string, unknown>): ProductFeedFormat => {
+    const format = requireString(body, 'format');
+    if (!FEED_FORMATS.includes(format as ProductFeedFormat)) {
+        throw new ApiError('BAD_REQUEST', `"format" must be one of ${FEED_FORMATS.join(', ')}.`, 400);
+    }
+    return format as ProductFeedFormat;
+};
+
+const readPresentation = (body: Record<string, unknown>): StylePresentation | null => {
+    const presentation = readOptionalString(body, 'presentation');
+    if (presentation !== null && !STYLE_PRESENTATIONS.includes(presentation as StylePresentation)) {
+        throw new ApiError('BAD_REQUEST', `"presentation" must be one of ${STYLE_PRESENTATIONS.join(', ')}.`, 400);
+    }
+    return presentation as StylePresentation | null;
+};
+
+const MAX_MATCHES = 10;
+
+const readOptionalString = (body: Record<string, unknown>, field: string): string | null =>
+    body[field] === undefined || body[field] === null ? null : requireString(body, field);
+
+export const createCatalogRoutes = (importer: ProductImporter, matcher: ProductMatcher): Route[] => [
+    {
+        method: 'POST',
+        path: '/api/products/import',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body) => importer.importFromUrl(requireString(body, 'url')),
+    },
+    {
+        method: 'POST',
+        path: '/api/products/feed',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body) => importer.importFeed(requireString(body, 'text'), readFeedFormat(body)),
+    },
+    {
+        method: 'POST',
+        path: '/api/products/image',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body) => ({ image: await importer.fetchImage(requireString(body, 'url')) }),
+    },
+    {
+        method: 'POST',
+        path: '/api/products/match',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body) => {
+            const item = requireObject(body, 'item');
+            const limit = typeof body.limit === 'number' ? Math.min(Math.max(1, Math.floor(body.limit)), MAX_MATCHES) : 3;
+            const matches = await matcher.match({
+                item: {
+                    itemName: requireString(item, 'itemName'),
+                    styleCategory: requireString(item, 'styleCategory'),
+                    description: requireString(item, 'description'),
+                },
+                category: readGarmentCategory(body, 'category') ?? 'top',
+                presentation: readPresentation(body),
+                image: readOptionalString(body, 'image'),
+            }, limit);
+            return { matches };
+        },
+    },
+];
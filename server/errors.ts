@@ -0,0 +1,34 @@
+import { ApiError } from '../services/apiErrors';
+import { ServiceError, classifyError, toServiceError } from '../services/serviceErrors';
+import type { ServiceErrorCode } from '../services/serviceErrors';
+
+const STATUS_BY_CODE: Record<ServiceErrorCode, number> = {
+    QUOTA_EXCEEDED: 429,
+    CONFIGURATION: 500,
+    SAFETY_BLOCKED: 422,
+    INVALID_IMAGE: 422,
+    NETWORK: 502,
+    TIMEOUT: 504,
+    MODEL_OUTPUT: 502,
+    UPSTREAM_FAILED: 502,
+};
+
+// Maps anything thrown by a route handler onto the typed API error contract.
+// Service errors keep their code and user-facing message.
+export const toApiError = (error: unknown): ApiError => {
+    if (error instanceof ApiError) {
+        return error;
+    }
+
+    if (error instanceof ServiceError) {
+        return new ApiError(error.code, error.message, STATUS_BY_CODE[error.code], undefined, { cause: error });
+    }
+    // Model and network failures that reached a route without a service message.
+    if (classifyError(error) !== null) {
+        return toApiError(toServiceError(error, 'The AI service request failed.'));
+    }
+    if (error instanceof Error && error.message.startsWith('Could not')) {
+        return new ApiError('UPSTREAM_FAILED', error.message, 502, undefined, { cause: error });
+    }
+    return new ApiError('INTERNAL', 'Unexpected server error.', 500);
+};
@@ -0,0 +1,130 @@
+import type { IncomingMessage, ServerResponse, OutgoingHttpHeaders } from 'node:http';
+import { ApiError } from '../services/apiErrors';
+import type { User } from '../types';
+
+export interface RouteContext {
+    // Signed-in user resolved from the session cookie, if any.
+    user: User | null;
+    sessionToken: string | null;
+    setCookie: (cookie: string) => void;
+    // Aborted when the client disconnects before the response is sent.
+    signal: AbortSignal;
+}
+
+interface RouteBase {
+    method: 'GET' | 'POST';
+    path: string;
+    // Rate-limit tokens spent per call; image generation is the expensive part.
+    cost: number;
+    requiresAuth: boolean;
+}
+
+export interface JsonRoute extends RouteBase {
+    handler: (body: Record<string, unknown>, context: RouteContext) => Promise<unknown>;
+}
+
+// Streams JSON objects back one per line, e.g. chat reply chunks.
+export interface StreamRoute extends RouteBase {
+    stream: (body: Record<string, unknown>, context: RouteContext) => AsyncIterable<object>;
+}
+
+export type Route = JsonRoute | StreamRoute;
+
+// Person photos arrive as base64, so allow generously sized JSON bodies.
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+export const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new ApiError('BAD_REQUEST', 'Request body is too large.', 413);
+        }
+        chunks.push(chunk);
+    }
+
+    if (size === 0) {
+        return {};
+    }
+
+    try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            throw new Error('Body must be a JSON object.');
+        }
+        return body;
+    } catch {
+        throw new ApiError('BAD_REQUEST', 'Request body must be a JSON object.', 400);
+    }
+};
+
+export const sendJson = (res: ServerResponse, status: number, payload: unknown, headers: OutgoingHttpHeaders = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(payload));
+};
+
+export const sendError = (res: ServerResponse, error: ApiError, headers: OutgoingHttpHeaders = {}) => {
+    if (error.retryAfterSeconds !== undefined) {
+        headers['Retry-After'] = String(error.retryAfterSeconds);
+    }
+    sendJson(res, error.status, error.toBody(), headers);
+};
+
+// Waits for the first chunk before sending headers, so a request that fails
+// straight away still gets a normal error status. Later failures can only be
+// reported in-band, as a final `{ error }` line.
+export const sendJsonStream = async (
+    res: ServerResponse,
+    chunks: AsyncIterable<object>,
+    toError: (error: unknown) => ApiError,
+    headers: OutgoingHttpHeaders = {},
+) => {
+    const iterator = chunks[Symbol.asyncIterator]();
+    let next = await iterator.next();
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache', ...headers });
+    try {
+        while (!next.done) {
+            res.write(`${JSON.stringify(next.value)}\n`);
+            next = await iterator.next();
+        }
+    } catch (error) {
+        const apiError = toError(error);
+        console.error('Stream failed:', error);
+        res.write(`${JSON.stringify(apiError.toBody())}\n`);
+    }
+    res.end();
+};
+
+export const requireString = (body: Record<string, unknown>, field: string): string => {
+    const value = body[field];
+    if (typeof value !== 'string' || value.length === 0) {
+        throw new ApiError('BAD_REQUEST', `"${field}" must be a non-empty string.`, 400);
+    }
+    return value;
+};
+
+export const requireNumber = (body: Record<string, unknown>, field: string): number => {
+    const value = body[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        throw new ApiError('BAD_REQUEST', `"${field}" must be a positive number.`, 400);
+    }
+    return value;
+};
+
+export const requireObject = (body: Record<string, unknown>, field: string): Record<string, unknown> => {
+    const value = body[field];
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ApiError('BAD_REQUEST', `"${field}" must be an object.`, 400);
+    }
+    return value as Record<string, unknown>;
+};
+
+export const requireArray = (body: Record<string, unknown>, field: string): unknown[] => {
+    const value = body[field] ?? [];
+    if (!Array.isArray(value)) {
+        throw new ApiError('BAD_REQUEST', `"${field}" must be an array.`, 400);
+    }
+    return value;
+};
@@ -0,0 +1,121 @@
+import { createServer } from 'node:http';
+import { setProvider } from '../services/providers';
+import { createGeminiProviderFromEnv, loadLocalEnv } from '../services/providers/liveProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createRecordingProvider, createReplayProvider } from '../services/providers/cassetteProvider';
+import { ApiError } from '../services/apiErrors';
+import { readJsonBody, sendJson, sendError, sendJsonStream } from './http';
+import type { RouteContext } from './http';
+import { createRateLimiter } from './rateLimit';
+import { toApiError } from './errors';
+import { stylistRoutes } from './routes';
+import { createFileAuthStore } from './auth/authStore';
+import { createAuthService } from './auth/authService';
+import { createConsoleMailer } from './auth/mailer';
+import { createAuthRoutes } from './auth/routes';
+import { parseCookies, SESSION_COOKIE } from './auth/cookies';
+import { createProductImporter } from './catalog/importer';
+import { createCatalogRoutes } from './catalog/routes';
+import { loadCatalog } from './catalog/catalog';
+import { createProductMatcher } from './catalog/matcher';
+
+loadLocalEnv();
+
+const PORT = Number(process.env.PORT ?? 8787);
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 20);
+const APP_URL = process.env.APP_URL ?? 'http://localhost:3000';
+const AUTH_DATA_FILE = process.env.AUTH_DATA_FILE ?? 'server/data/auth.json';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SECURE_COOKIES = process.env.NODE_ENV === 'production';
+// Only for local development against the fixture feed server.
+const PRODUCT_IMPORT_ALLOW_PRIVATE_HOSTS = process.env.PRODUCT_IMPORT_ALLOW_PRIVATE_HOSTS === 'true';
+const PRODUCT_CATALOG_FILE = process.env.PRODUCT_CATALOG_FILE ?? 'server/catalog/sampleCatalog.json';
+const PRODUCT_MATCH_IMAGE_EMBEDDINGS = process.env.PRODUCT_MATCH_IMAGE_EMBEDDINGS === 'true';
+// Where AI_PROVIDER=record writes its cassette and AI_PROVIDER=replay reads it.
+const CASSETTE_DIR = process.env.CASSETTE_DIR ?? 'cassettes/server';
+
+const configureProvider = async () => {
+    const providerName = process.env.AI_PROVIDER ?? 'gemini';
+    if (providerName === 'mock') {
+        setProvider(createMockProvider());
+        return;
+    }
+    if (providerName === 'replay') {
+        setProvider(await createReplayProvider({ dir: CASSETTE_DIR }));
+        return;
+    }
+    if (providerName !== 'gemini' && providerName !== 'record') {
+        throw new Error(`Unknown AI_PROVIDER "${providerName}". Use "gemini", "mock", "record" or "replay".`);
+    }
+    const gemini = createGeminiProviderFromEnv('run with AI_PROVIDER=mock');
+    setProvider(providerName === 'record' ? await createRecordingProvider({ provider: gemini, dir: CASSETTE_DIR }) : gemini);
+};
+
+await configureProvider();
+
+const auth = createAuthService({
+    store: await createFileAuthStore(AUTH_DATA_FILE),
+    mailer: createConsoleMailer(),
+    appUrl: APP_URL,
+    sessionTtlMs: SESSION_TTL_MS,
+});
+
+const importer = createProductImporter({ allowPrivateHosts: PRODUCT_IMPORT_ALLOW_PRIVATE_HOSTS });
+const matcher = createProductMatcher({
+    catalog: await loadCatalog(PRODUCT_CATALOG_FILE),
+    loadImage: PRODUCT_MATCH_IMAGE_EMBEDDINGS ? importer.fetchImage : undefined,
+});
+
+const routes = [
+    ...createAuthRoutes(auth, { sessionTtlMs: SESSION_TTL_MS, secureCookies: SECURE_COOKIES }),
+    ...stylistRoutes,
+    ...createCatalogRoutes(importer, matcher),
+];
+
+const rateLimiter = createRateLimiter(RATE_LIMIT_PER_MINUTE);
+
+const server = createServer(async (req, res) => {
+    const cookies: string[] = [];
+    try {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const route = routes.find(r => r.path === url.pathname && r.method === req.method);
+        if (!route) {
+            throw new ApiError('NOT_FOUND', `No route for ${req.method} ${url.pathname}.`, 404);
+        }
+
+        const sessionToken = parseCookies(req.headers.cookie)[SESSION_COOKIE] || null;
+        const user = sessionToken ? auth.getSessionUser(sessionToken) : null;
+        if (route.requiresAuth && !user) {
+            throw new ApiError('UNAUTHORIZED', 'Please sign in to continue.', 401);
+        }
+
+        // Signed-in callers are limited per account, everyone else per address.
+        rateLimiter.consume(user ? `user:${user.id}` : `ip:${req.socket.remoteAddress}`, route.cost);
+
+        const disconnect = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) disconnect.abort();
+        });
+        const context: RouteContext = { user, sessionToken, setCookie: cookie => cookies.push(cookie), signal: disconnect.signal };
+        const body = req.method === 'POST' ? await readJsonBody(req) : {};
+        if ('stream' in route) {
+            await sendJsonStream(res, route.stream(body, context), toApiError, { 'Set-Cookie': cookies });
+        } else {
+            sendJson(res, 200, await route.handler(body, context), { 'Set-Cookie': cookies });
+        }
+    } catch (error) {
+        if (res.destroyed) {
+            // The client disconnected (e.g. cancelled a generation); there is no one to answer.
+            return;
+        }
+        const apiError = toApiError(error);
+        if (apiError.status >= 500) {
+            console.error(`${req.method} ${req.url} failed:`, error);
+        }
+        sendError(res, apiError, { 'Set-Cookie': cookies });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`API server listening on http://localhost:${PORT} (provider: ${process.env.AI_PROVIDER ?? 'gemini'})`);
+});
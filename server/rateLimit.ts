@@ -0,0 +1,52 @@
+import { ApiError } from '../services/apiErrors';
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+export interface RateLimiter {
+    // Takes `cost` tokens from the caller's bucket or throws RATE_LIMITED.
+    consume: (key: string, cost?: number) => void;
+    // How many callers currently have a bucket.
+    size: () => number;
+}
+
+// An empty bucket is full again after this long, and a full bucket is the same
+// as none, so buckets idle this long are dropped.
+const REFILL_MS = 60_000;
+
+// Token bucket per caller: `capacity` tokens, refilled evenly over one minute.
+export const createRateLimiter = (capacity: number, now: () => number = Date.now): RateLimiter => {
+    const buckets = new Map<string, Bucket>();
+    const refillPerMs = capacity / REFILL_MS;
+    let sweptAt = now();
+
+    const sweep = (time: number) => {
+        if (time - sweptAt < REFILL_MS) return;
+        sweptAt = time;
+        for (const [key, bucket] of buckets) {
+            if (time - bucket.updatedAt >= REFILL_MS) buckets.delete(key);
+        }
+    };
+
+    return {
+        consume: (key, cost = 1) => {
+            const time = now();
+            sweep(time);
+            const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: time };
+            bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+            bucket.updatedAt = time;
+
+            if (bucket.tokens < cost) {
+                buckets.set(key, bucket);
+                const retryAfterSeconds = Math.ceil((cost - bucket.tokens) / refillPerMs / 1000);
+                throw new ApiError('RATE_LIMITED', 'Too many requests. Please slow down.', 429, retryAfterSeconds);
+            }
+
+            bucket.tokens -= cost;
+            buckets.set(key, bucket);
+        },
+        size: () => buckets.size,
+    };
+};
@@ -0,0 +1,286 @@
+import {
+    suggestPresentation,
+    analyzePersonPhoto,
+    getGarmentSpecs,
+    generateGarmentRecommendations,
+    generateGarmentImage,
+    performVirtualTryOn,
+    getGarmentMask,
+    analyzeGarmentImage,
+    removeGarmentBackground,
+    getStyleComparison,
+    createFashionChat,
+    TRY_ON_STEPS,
+} from '../services/geminiService';
+import { GARMENT_CATEGORIES } from '../services/taxonomy/taxonomy';
+import type { ChatMessage, ChatPart, GarmentCategory, GarmentSpec, RecommendationItem, StyleProfile, StylistContext, TryOnStep } from '../types';
+import { ApiError } from '../services/apiErrors';
+import { detectMimeType } from '../services/image/format';
+import { CLIMATE_LABELS, FIT_LABELS, MODESTY_LABELS, PRESENTATION_LABELS } from '../services/styleProfile';
+import { requireString, requireNumber, requireObject, requireArray } from './http';
+import type { Route } from './http';
+
+export const readGarmentCategory = (body: Record<string, unknown>, key: string): GarmentCategory | undefined => {
+    const value = body[key];
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!GARMENT_CATEGORIES.includes(value as GarmentCategory)) {
+        throw new ApiError('BAD_REQUEST', `"${key}" must be one of ${GARMENT_CATEGORIES.join(', ')}.`, 400);
+    }
+    return value as GarmentCategory;
+};
+
+// Image types the models accept as input.
+const MODEL_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+const requireImage = (body: Record<string, unknown>, key: string): string => {
+    const image = requireString(body, key);
+    if (!MODEL_IMAGE_TYPES.includes(detectMimeType(image) ?? '')) {
+        throw new ApiError('INVALID_IMAGE', `"${key}" must be a base64 JPEG, PNG, WebP or HEIC image.`, 422);
+    }
+    return image;
+};
+
+const readGarmentSpec = (body: Record<string, unknown>): GarmentSpec => {
+    const spec = requireObject(body, 'spec');
+    const colors = requireArray(spec, 'colors');
+    if (colors.length === 0 || !colors.every(color => typeof color === 'string' && color.length > 0)) {
+        throw new ApiError('BAD_REQUEST', '"spec.colors" must be a non-empty list of color names.', 400);
+    }
+    return {
+        itemName: requireString(spec, 'itemName'),
+        styleCategory: requireString(spec, 'styleCategory'),
+        description: requireString(spec, 'description'),
+        colors: colors as string[],
+        fabric: requireString(spec, 'fabric'),
+        cut: requireString(spec, 'cut'),
+    };
+};
+
+const readChatParts = (value: unknown, field: string): ChatPart[] => {
+    const isPart = (part: unknown): part is ChatPart => {
+        const { text, inlineData } = (part ?? {}) as { text?: unknown; inlineData?: { mimeType?: unknown; data?: unknown } };
+        return typeof text === 'string'
+            || (typeof inlineData?.mimeType === 'string' && inlineData.mimeType.startsWith('image/') && typeof inlineData.data === 'string');
+    };
+    if (!Array.isArray(value) || value.length === 0 || !value.every(isPart)) {
+        throw new ApiError('BAD_REQUEST', `"${field}" must be a list of text or inline image parts.`, 400);
+    }
+    return value;
+};
+
+const readChatHistory = (body: Record<string, unknown>): ChatMessage[] =>
+    requireArray(body, 'history').map((message, index) => {
+        const { role, parts } = (message ?? {}) as { role?: unknown; parts?: unknown };
+        if (role !== 'user' && role !== 'model') {
+            throw new ApiError('BAD_REQUEST', `"history[${index}].role" must be "user" or "model".`, 400);
+        }
+        return { role, parts: readChatParts(parts, `history[${index}].parts`) };
+    });
+
+const readStringList = (body: Record<string, unknown>, key: string, field: string): string[] => {
+    const list = requireArray(body, key);
+    if (!list.every(item => typeof item === 'string' && item.length > 0)) {
+        throw new ApiError('BAD_REQUEST', `"${field}" must be a list of non-empty strings.`, 400);
+    }
+    return list as string[];
+};
+
+const readOptionalNumber = (body: Record<string, unknown>, key: string): number | null =>
+    body[key] === null || body[key] === undefined ? null : requireNumber(body, key);
+
+const readOption = <T extends string>(body: Record<string, unknown>, key: string, labels: Record<T, string>, field: string): T => {
+    const value = body[key];
+    if (typeof value !== 'string' || !Object.hasOwn(labels, value)) {
+        throw new ApiError('BAD_REQUEST', `"${field}" must be one of ${Object.keys(labels).join(', ')}.`, 400);
+    }
+    return value as T;
+};
+
+const readStyleProfile = (body: Record<string, unknown>, field = 'profile'): StyleProfile => {
+    const profile = requireObject(body, field);
+    const styles = requireArray(profile, 'styles').map(item => {
+        const style = typeof item === 'object' && item !== null ? item as Record<string, unknown> : {};
+        return { name: requireString(style, 'name'), weight: requireNumber(style, 'weight') };
+    });
+    if (styles.length === 0) {
+        throw new ApiError('BAD_REQUEST', `"${field}.styles" must list at least one style.`, 400);
+    }
+    const measurements = requireObject(profile, 'measurements');
+    const budget = requireObject(profile, 'budget');
+    return {
+        presentation: profile.presentation === null || profile.presentation === undefined ? null : readOption(profile, 'presentation', PRESENTATION_LABELS, `${field}.presentation`),
+        styles,
+        occasion: requireString(profile, 'occasion'),
+        favoriteColors: readStringList(profile, 'favoriteColors', `${field}.favoriteColors`),
+        avoidedColors: readStringList(profile, 'avoidedColors', `${field}.avoidedColors`),
+        fit: readOption(profile, 'fit', FIT_LABELS, `${field}.fit`),
+        measurements: {
+            height: readOptionalNumber(measurements, 'height'),
+            chest: readOptionalNumber(measurements, 'chest'),
+            waist: readOptionalNumber(measurements, 'waist'),
+            hips: readOptionalNumber(measurements, 'hips'),
+        },
+        budget: {
+            min: readOptionalNumber(budget, 'min'),
+            max: readOptionalNumber(budget, 'max'),
+            currency: requireString(budget, 'currency'),
+        },
+        climate: profile.climate === null || profile.climate === undefined ? null : readOption(profile, 'climate', CLIMATE_LABELS, `${field}.climate`),
+        modesty: requireArray(profile, 'modesty').map((value, index) =>
+            readOption({ value }, 'value', MODESTY_LABELS, `${field}.modesty[${index}]`)),
+        brands: readStringList(profile, 'brands', `${field}.brands`),
+    };
+};
+
+const readStylistContext = (body: Record<string, unknown>): StylistContext | null => {
+    if (body.context === undefined || body.context === null) {
+        return null;
+    }
+    const context = requireObject(body, 'context');
+    const { step, selectedGarment, hasSelection, hasResult, outfitLayers } = context;
+    if (!TRY_ON_STEPS.includes(step as TryOnStep)) {
+        throw new ApiError('BAD_REQUEST', `"context.step" must be one of ${TRY_ON_STEPS.join(', ')}.`, 400);
+    }
+    const garments = requireArray(context, 'garments').map((item): RecommendationItem | null => {
+        if (item === null) {
+            return null;
+        }
+        const fields = typeof item === 'object' ? item as Record<string, unknown> : {};
+        return {
+            itemName: requireString(fields, 'itemName'),
+            styleCategory: requireString(fields, 'styleCategory'),
+            description: requireString(fields, 'description'),
+        };
+    });
+    const isIndex = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+    if ((selectedGarment !== null && !isIndex(selectedGarment)) || !isIndex(outfitLayers)
+        || typeof hasSelection !== 'boolean' || typeof hasResult !== 'boolean') {
+        throw new ApiError('BAD_REQUEST', '"context" is not a valid try-on session.', 400);
+    }
+
+    return {
+        step: step as TryOnStep,
+        profile: readStyleProfile(context),
+        garmentCategory: readGarmentCategory(context, 'garmentCategory') ?? 'top',
+        garments,
+        selectedGarment: selectedGarment as number | null,
+        hasSelection,
+        hasResult,
+        outfitLayers: outfitLayers as number,
+    };
+};
+
+export const stylistRoutes: Route[] = [
+    {
+        method: 'POST',
+        path: '/api/presentation/suggest',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body) => ({ presentation: await suggestPresentation(requireImage(body, 'image')) }),
+    },
+    {
+        method: 'POST',
+        path: '/api/photos/analyze',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body) => ({ analysis: await analyzePersonPhoto(requireImage(body, 'image')) }),
+    },
+    {
+        method: 'POST',
+        path: '/api/garments/specs',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body) => ({
+            specs: await getGarmentSpecs(
+                readStyleProfile(body),
+                readGarmentCategory(body, 'category'),
+            ),
+        }),
+    },
+    {
+        method: 'POST',
+        path: '/api/garments/recommendations',
+        cost: 4,
+        requiresAuth: true,
+        handler: async (body) => ({
+            recommendations: await generateGarmentRecommendations(
+                readStyleProfile(body),
+                requireString(body, 'aspectRatio'),
+                readGarmentCategory(body, 'category'),
+            ),
+        }),
+    },
+    {
+        method: 'POST',
+        path: '/api/garments/image',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body, { signal }) => generateGarmentImage(
+            readGarmentSpec(body),
+            readStyleProfile(body),
+            requireString(body, 'aspectRatio'),
+            readGarmentCategory(body, 'category') ?? 'top',
+            signal,
+        ),
+    },
+    {
+        method: 'POST',
+        path: '/api/try-on',
+        cost: 2,
+        requiresAuth: true,
+        handler: async (body, { signal }) => performVirtualTryOn({
+            personImage: requireImage(body, 'personImage'),
+            garmentImage: requireImage(body, 'garmentImage'),
+            width: requireNumber(body, 'width'),
+            height: requireNumber(body, 'height'),
+            garmentCategory: readGarmentCategory(body, 'garmentCategory'),
+        }, undefined, signal),
+    },
+    {
+        method: 'POST',
+        path: '/api/try-on/mask',
+        cost: 2,
+        requiresAuth: true,
+        handler: async (body, { signal }) => ({
+            mask: await getGarmentMask({
+                personImage: requireImage(body, 'personImage'),
+                tryOnImage: requireImage(body, 'tryOnImage'),
+                garmentCategory: readGarmentCategory(body, 'garmentCategory'),
+            }, signal),
+        }),
+    },
+    {
+        method: 'POST',
+        path: '/api/garments/analyze',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body) => ({ analysis: await analyzeGarmentImage(requireImage(body, 'image')) }),
+    },
+    {
+        method: 'POST',
+        path: '/api/garments/remove-background',
+        cost: 2,
+        requiresAuth: true,
+        handler: async (body) => ({ image: await removeGarmentBackground(requireImage(body, 'image')) }),
+    },
+    {
+        method: 'POST',
+        path: '/api/comparison',
+        cost: 1,
+        requiresAuth: true,
+        handler: async (body) => getStyleComparison(requireImage(body, 'originalImage'), requireImage(body, 'newImage')),
+    },
+    {
+        method: 'POST',
+        path: '/api/chat',
+        cost: 1,
+        requiresAuth: true,
+        stream: (body) => {
+            const history = readChatHistory(body);
+            const message = readChatParts(body.message, 'message');
+            return createFashionChat(history).sendMessageStream(message, readStylistContext(body));
+        },
+    },
+];
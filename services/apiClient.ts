@@ -0,0 +1,159 @@
+import type { ChatMessage, GarmentRecommendation, GarmentSpec, GeneratedImage, GeneratedText, ChatPart, StylistChat, StylistChatEvent, StylistContext, StyleProfile, StylePresentation, VirtualTryOnParams, GarmentMaskParams, GarmentAnalysis, GarmentCategory, PersonPhotoAnalysis } from '../types';
+import { ApiError, isApiErrorBody } from './apiErrors';
+
+// Browser-side client for the backend in server/. The backend holds the model
+// API keys, so in proxy mode nothing secret is bundled into the frontend.
+
+const API_BASE_URL = import.meta.env?.VITE_API_BASE_URL ?? '';
+
+// fetch only rejects when the server could not be reached at all.
+const send = (path: string, init: RequestInit): Promise<Response> =>
+    fetch(`${API_BASE_URL}${path}`, init).catch(error => {
+        if (error instanceof Error && error.name === 'AbortError') {
+            throw error;
+        }
+        throw new ApiError('NETWORK', 'Could not reach the server. Please check your connection.', 0, undefined, { cause: error });
+    });
+
+const request = async <T>(method: 'GET' | 'POST', path: string, body?: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await send(path, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal,
+    });
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+        if (isApiErrorBody(payload)) {
+            throw ApiError.fromBody(payload, response.status);
+        }
+        throw new ApiError('INTERNAL', `Request to ${path} failed with status ${response.status}.`, response.status);
+    }
+    return payload as T;
+};
+
+export const getJson = <T>(path: string): Promise<T> => request<T>('GET', path);
+
+export const postJson = <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => request<T>('POST', path, body, signal);
+
+// Reads a newline-delimited JSON stream, one object per line. An error after
+// the stream has started arrives as a final `{ error }` line.
+const postJsonStream = async function* <T>(path: string, body: unknown): AsyncGenerator<T> {
+    const response = await send(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+    });
+    if (!response.ok || !response.body) {
+        const payload = await response.json().catch(() => null);
+        if (isApiErrorBody(payload)) {
+            throw ApiError.fromBody(payload, response.status);
+        }
+        throw new ApiError('INTERNAL', `Request to ${path} failed with status ${response.status}.`, response.status);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    const parseLine = (line: string): T => {
+        const payload = JSON.parse(line);
+        if (isApiErrorBody(payload)) {
+            throw ApiError.fromBody(payload, 500);
+        }
+        return payload;
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += value;
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines.filter(Boolean)) {
+            yield parseLine(line);
+        }
+    }
+    if (buffered.trim()) {
+        yield parseLine(buffered);
+    }
+};
+
+export const suggestPresentation = async (image: string): Promise<StylePresentation | null> => {
+    const { presentation } = await postJson<{ presentation: StylePresentation | null }>('/api/presentation/suggest', { image });
+    return presentation;
+};
+
+export const getGarmentSpecs = async (
+    profile: StyleProfile,
+    category: GarmentCategory
+): Promise<GarmentSpec[]> => {
+    const { specs } = await postJson<{ specs: GarmentSpec[] }>('/api/garments/specs', { profile, category });
+    return specs;
+};
+
+export const generateGarmentRecommendations = async (
+    profile: StyleProfile,
+    aspectRatio: string,
+    category: GarmentCategory
+): Promise<GarmentRecommendation[]> => {
+    const { recommendations } = await postJson<{ recommendations: GarmentRecommendation[] }>('/api/garments/recommendations', { profile, aspectRatio, category });
+    return recommendations;
+};
+
+export const generateGarmentImage = async (
+    spec: GarmentSpec,
+    profile: StyleProfile,
+    aspectRatio: string,
+    category: GarmentCategory,
+    signal?: AbortSignal
+): Promise<GeneratedImage> =>
+    postJson<GeneratedImage>('/api/garments/image', { spec, profile, aspectRatio, category }, signal);
+
+export const performVirtualTryOn = (params: VirtualTryOnParams, signal?: AbortSignal): Promise<GeneratedImage> =>
+    postJson<GeneratedImage>('/api/try-on', params, signal);
+
+export const getGarmentMask = async (params: GarmentMaskParams, signal?: AbortSignal): Promise<string> => {
+    const { mask } = await postJson<{ mask: string }>('/api/try-on/mask', params, signal);
+    return mask;
+};
+
+export const analyzePersonPhoto = async (image: string): Promise<PersonPhotoAnalysis> => {
+    const { analysis } = await postJson<{ analysis: PersonPhotoAnalysis }>('/api/photos/analyze', { image });
+    return analysis;
+};
+
+export const analyzeGarmentImage = async (image: string): Promise<GarmentAnalysis> => {
+    const { analysis } = await postJson<{ analysis: GarmentAnalysis }>('/api/garments/analyze', { image });
+    return analysis;
+};
+
+export const removeGarmentBackground = async (image: string): Promise<string> => {
+    const { image: cleaned } = await postJson<{ image: string }>('/api/garments/remove-background', { image });
+    return cleaned;
+};
+
+export const getStyleComparison = (originalImage: string, newImage: string): Promise<GeneratedText> =>
+    postJson<GeneratedText>('/api/comparison', { originalImage, newImage });
+
+// The backend is stateless, so the session keeps the transcript and sends it
+// along with every message.
+export const createRemoteChat = (history: ChatMessage[]): StylistChat => {
+    const transcript = [...history];
+    return {
+        sendMessageStream: async function* (message: ChatPart[], context: StylistContext | null) {
+            let text = '';
+            for await (const event of postJsonStream<StylistChatEvent>('/api/chat', { history: transcript, message, context })) {
+                if (event.type === 'text') {
+                    text += event.text;
+                }
+                yield event;
+            }
+            transcript.push(
+                { role: 'user', parts: message },
+                { role: 'model', parts: [{ text }] },
+            );
+        },
+    };
+};
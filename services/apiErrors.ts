@@ -0,0 +1,69 @@
+// Error contract shared by the backend (server/) and the browser API client.
+
+export type ApiErrorCode =
+    | 'BAD_REQUEST'
+    | 'UNAUTHORIZED'
+    | 'EMAIL_NOT_VERIFIED'
+    | 'CONFLICT'
+    | 'NOT_FOUND'
+    | 'RATE_LIMITED'
+    | 'QUOTA_EXCEEDED'
+    | 'CONFIGURATION'
+    | 'SAFETY_BLOCKED'
+    | 'INVALID_IMAGE'
+    | 'NETWORK'
+    | 'TIMEOUT'
+    | 'MODEL_OUTPUT'
+    | 'UPSTREAM_FAILED'
+    | 'INTERNAL';
+
+// Failures that may succeed when the same request is simply sent again.
+const RETRYABLE_CODES: ApiErrorCode[] = ['RATE_LIMITED', 'QUOTA_EXCEEDED', 'NETWORK', 'TIMEOUT', 'MODEL_OUTPUT', 'UPSTREAM_FAILED', 'INTERNAL'];
+
+export const isRetryableCode = (code: ApiErrorCode): boolean => RETRYABLE_CODES.includes(code);
+
+export interface ApiErrorBody {
+    error: {
+        code: ApiErrorCode;
+        message: string;
+        retryAfterSeconds?: number;
+    };
+}
+
+export class ApiError extends Error {
+    readonly code: ApiErrorCode;
+    readonly status: number;
+    readonly retryAfterSeconds?: number;
+
+    constructor(code: ApiErrorCode, message: string, status: number, retryAfterSeconds?: number, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'ApiError';
+        this.code = code;
+        this.status = status;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+
+    get retryable(): boolean {
+        return isRetryableCode(this.code);
+    }
+
+    toBody(): ApiErrorBody {
+        return {
+            error: {
+                code: this.code,
+                message: this.message,
+                ...(this.retryAfterSeconds !== undefined && { retryAfterSeconds: this.retryAfterSeconds }),
+            },
+        };
+    }
+
+    static fromBody(body: ApiErrorBody, status: number): ApiError {
+        const { code, message, retryAfterSeconds } = body.error;
+        return new ApiError(code, message, status, retryAfterSeconds);
+    }
+}
+
+export const isApiErrorBody = (value: unknown): value is ApiErrorBody => {
+    const error = (value as ApiErrorBody | null)?.error;
+    return typeof error?.code === 'string' && typeof error?.message === 'string';
+};
@@ -0,0 +1,40 @@
+import type { User } from '../types';
+import { getJson, postJson } from './apiClient';
+
+// The session lives in an HttpOnly cookie set by the server, so the browser
+// only ever learns who is signed in by asking.
+
+export const getSession = async (): Promise<User | null> => {
+    const { user } = await getJson<{ user: User | null }>('/api/auth/session');
+    return user;
+};
+
+export const login = async (email: string, password: string): Promise<User> => {
+    const { user } = await postJson<{ user: User }>('/api/auth/login', { email, password });
+    return user;
+};
+
+export const register = async (name: string, email: string, password: string): Promise<User> => {
+    const { user } = await postJson<{ user: User }>('/api/auth/register', { name, email, password });
+    return user;
+};
+
+export const logout = async (): Promise<void> => {
+    await postJson('/api/auth/logout', {});
+};
+
+export const verifyEmail = async (token: string): Promise<void> => {
+    await postJson('/api/auth/verify-email', { token });
+};
+
+export const resendVerification = async (email: string): Promise<void> => {
+    await postJson('/api/auth/resend-verification', { email });
+};
+
+export const requestPasswordReset = async (email: string): Promise<void> => {
+    await postJson('/api/auth/request-password-reset', { email });
+};
+
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+    await postJson('/api/auth/reset-password', { token, password });
+};
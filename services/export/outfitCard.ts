@@ -0,0 +1,300 @@
+import type { RecommendationItem } from '../../types';
+import { createCanvas, loadImage } from '../image/canvas';
+import { buildImagePdf } from './pdf';
+import type { PdfImagePage } from './pdf';
+
+// Renders shareable "outfit of the day" cards on a canvas: the before and
+// after photos, the garments worn and the stylist's comment, laid out for a
+// story, a square post or a collage. Cards export as PNG or JPEG, and a set of
+// them as a PDF lookbook.
+
+export type CardLayout = 'story' | 'square' | 'collage';
+export type CardFormat = 'png' | 'jpeg';
+
+export interface CardGarment {
+    // Base64 PNG.
+    image: string;
+    details: RecommendationItem | null;
+}
+
+export interface OutfitCard {
+    // Image sources (data URLs).
+    beforeImage: string;
+    afterImage: string;
+    garments: CardGarment[];
+    comparisonText: string | null;
+}
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface LayoutSpec {
+    label: string;
+    width: number;
+    height: number;
+    after: Rect;
+    before: Rect;
+    garments: Rect;
+    garmentColumns: number;
+    quote: Rect;
+}
+
+export const CARD_LAYOUTS: Record<CardLayout, LayoutSpec> = {
+    // 9:16; the before photo is inset over the corner of the after photo.
+    story: {
+        label: 'Story (9:16)',
+        width: 1080,
+        height: 1920,
+        after: { x: 60, y: 220, width: 960, height: 1080 },
+        before: { x: 90, y: 250, width: 250, height: 330 },
+        garments: { x: 60, y: 1340, width: 960, height: 320 },
+        garmentColumns: 1,
+        quote: { x: 60, y: 1690, width: 960, height: 150 },
+    },
+    square: {
+        label: 'Square post',
+        width: 1080,
+        height: 1080,
+        before: { x: 40, y: 160, width: 490, height: 600 },
+        after: { x: 550, y: 160, width: 490, height: 600 },
+        garments: { x: 40, y: 780, width: 1000, height: 170 },
+        garmentColumns: 2,
+        quote: { x: 40, y: 965, width: 1000, height: 80 },
+    },
+    // 4:5, with room to list every piece of a layered outfit.
+    collage: {
+        label: 'Collage',
+        width: 1080,
+        height: 1350,
+        after: { x: 50, y: 180, width: 620, height: 830 },
+        garments: { x: 700, y: 180, width: 330, height: 830 },
+        garmentColumns: 1,
+        before: { x: 50, y: 1040, width: 220, height: 260 },
+        quote: { x: 300, y: 1040, width: 730, height: 260 },
+    },
+};
+
+const BRAND = 'AI-BASED OOTD';
+const FONT = 'Inter, sans-serif';
+const COLORS = {
+    backgroundTop: '#111827',
+    backgroundBottom: '#2e1065',
+    accent: '#f59e0b',
+    text: '#ffffff',
+    muted: '#9ca3af',
+    panel: 'rgba(0, 0, 0, 0.3)',
+};
+const RADIUS = 24;
+const MAX_GARMENTS = 6;
+const JPEG_QUALITY = 0.92;
+
+const roundedRect = (ctx: CanvasRenderingContext2D, { x, y, width, height }: Rect, radius = RADIUS) => {
+    ctx.beginPath();
+    ctx.roundRect(x, y, width, height, radius);
+};
+
+// Draws an image cropped to fill `rect`, like CSS object-fit: cover.
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, rect: Rect) => {
+    const scale = Math.max(rect.width / img.naturalWidth, rect.height / img.naturalHeight);
+    const sw = rect.width / scale;
+    const sh = rect.height / scale;
+    ctx.save();
+    roundedRect(ctx, rect);
+    ctx.clip();
+    ctx.drawImage(img, (img.naturalWidth - sw) / 2, (img.naturalHeight - sh) / 2, sw, sh, rect.x, rect.y, rect.width, rect.height);
+    ctx.restore();
+};
+
+// Splits text into lines that fit `maxWidth`, ending the last one with an
+// ellipsis if the text runs past `maxLines`.
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width <= maxWidth || !line) {
+            line = candidate;
+            continue;
+        }
+        lines.push(line);
+        line = word;
+        if (lines.length === maxLines) {
+            break;
+        }
+    }
+    if (lines.length < maxLines && line) {
+        lines.push(line);
+    } else if (lines.length === maxLines) {
+        let last = lines[maxLines - 1];
+        while (last && ctx.measureText(`${last}…`).width > maxWidth) {
+            last = last.slice(0, -1);
+        }
+        lines[maxLines - 1] = `${last.trimEnd()}…`;
+    }
+    return lines;
+};
+
+const drawLines = (ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, lineHeight: number) => {
+    lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, rect: Rect) => {
+    ctx.font = `700 24px ${FONT}`;
+    const width = ctx.measureText(text).width + 28;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    roundedRect(ctx, { x: rect.x + 14, y: rect.y + 14, width, height: 40 }, 20);
+    ctx.fill();
+    ctx.fillStyle = COLORS.text;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, rect.x + 28, rect.y + 34);
+    ctx.textBaseline = 'alphabetic';
+};
+
+const drawHeader = (ctx: CanvasRenderingContext2D, layout: LayoutSpec) => {
+    const top = layout.after.y;
+    ctx.fillStyle = COLORS.accent;
+    ctx.font = `800 26px ${FONT}`;
+    ctx.letterSpacing = '6px';
+    ctx.fillText(BRAND, layout.after.x, top - 100);
+    ctx.letterSpacing = '0px';
+    ctx.fillStyle = COLORS.text;
+    ctx.font = `800 56px ${FONT}`;
+    ctx.fillText('Outfit of the Day', layout.after.x, top - 36);
+
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = `500 26px ${FONT}`;
+    ctx.textAlign = 'right';
+    ctx.fillText(new Date().toLocaleDateString([], { day: 'numeric', month: 'long', year: 'numeric' }), layout.width - layout.after.x, top - 36);
+    ctx.textAlign = 'left';
+};
+
+const drawGarments = (ctx: CanvasRenderingContext2D, garments: { img: HTMLImageElement; details: RecommendationItem | null }[], rect: Rect, columns: number) => {
+    const shown = garments.slice(0, MAX_GARMENTS);
+    const cols = Math.min(columns, shown.length);
+    const rows = Math.ceil(shown.length / cols);
+    const gap = 16;
+    const cellWidth = (rect.width - gap * (cols - 1)) / cols;
+    const cellHeight = Math.min((rect.height - gap * (rows - 1)) / rows, 320);
+
+    shown.forEach(({ img, details }, i) => {
+        const cell = {
+            x: rect.x + (i % cols) * (cellWidth + gap),
+            y: rect.y + Math.floor(i / cols) * (cellHeight + gap),
+            width: cellWidth,
+            height: cellHeight,
+        };
+        ctx.fillStyle = COLORS.panel;
+        roundedRect(ctx, cell, 20);
+        ctx.fill();
+
+        const padding = Math.min(16, cellHeight * 0.1);
+        const thumbSize = Math.min(cellHeight - padding * 2, cellWidth * 0.4);
+        const thumb = { x: cell.x + padding, y: cell.y + (cellHeight - thumbSize) / 2, width: thumbSize, height: thumbSize };
+        ctx.fillStyle = '#ffffff';
+        roundedRect(ctx, thumb, 14);
+        ctx.fill();
+        drawCover(ctx, img, thumb);
+
+        // Text shrinks with the cell; descriptions only show where there is room.
+        const textX = thumb.x + thumbSize + padding;
+        const textWidth = cell.x + cellWidth - textX - padding;
+        const nameSize = Math.round(Math.max(20, Math.min(34, cellHeight * 0.2)));
+        const descriptionSize = Math.round(nameSize * 0.72);
+        const nameLines = cellHeight >= 110 ? 2 : 1;
+        const descriptionLines = Math.floor((cellHeight - padding * 2 - nameLines * nameSize * 1.25) / (descriptionSize * 1.35));
+
+        ctx.font = `700 ${nameSize}px ${FONT}`;
+        const name = wrapText(ctx, details?.itemName ?? 'Your garment', textWidth, nameLines);
+        ctx.font = `400 ${descriptionSize}px ${FONT}`;
+        const description = details && descriptionLines > 0 ? wrapText(ctx, details.description, textWidth, descriptionLines) : [];
+        const blockHeight = name.length * nameSize * 1.25 + description.length * descriptionSize * 1.35;
+        let y = cell.y + (cellHeight - blockHeight) / 2 + nameSize;
+
+        ctx.fillStyle = COLORS.text;
+        ctx.font = `700 ${nameSize}px ${FONT}`;
+        drawLines(ctx, name, textX, y, nameSize * 1.25);
+        y += name.length * nameSize * 1.25;
+        ctx.fillStyle = COLORS.muted;
+        ctx.font = `400 ${descriptionSize}px ${FONT}`;
+        drawLines(ctx, description, textX, y - nameSize * 0.25 + descriptionSize * 0.35, descriptionSize * 1.35);
+    });
+};
+
+const drawQuote = (ctx: CanvasRenderingContext2D, text: string, rect: Rect) => {
+    const size = rect.height >= 140 ? 36 : 28;
+    ctx.font = `italic 500 ${size}px ${FONT}`;
+    const lines = wrapText(ctx, `“${text}”`, rect.width, Math.max(1, Math.floor(rect.height / (size * 1.35))));
+    ctx.fillStyle = '#fde68a';
+    const top = rect.y + (rect.height - lines.length * size * 1.35) / 2 + size;
+    drawLines(ctx, lines, rect.x, top, size * 1.35);
+};
+
+export const renderOutfitCard = async (card: OutfitCard, layoutName: CardLayout): Promise<HTMLCanvasElement> => {
+    const layout = CARD_LAYOUTS[layoutName];
+    const [before, after, ...garmentImages] = await Promise.all([
+        loadImage(card.beforeImage),
+        loadImage(card.afterImage),
+        ...card.garments.map(garment => loadImage(`data:image/png;base64,${garment.image}`)),
+    ]);
+    // Canvas text uses the page's web font only once it has loaded.
+    await document.fonts?.ready;
+
+    const canvas = createCanvas(layout.width, layout.height);
+    const ctx = canvas.getContext('2d')!;
+    const background = ctx.createLinearGradient(0, 0, 0, layout.height);
+    background.addColorStop(0, COLORS.backgroundTop);
+    background.addColorStop(1, COLORS.backgroundBottom);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, layout.width, layout.height);
+
+    drawHeader(ctx, layout);
+
+    drawCover(ctx, after, layout.after);
+    drawLabel(ctx, 'After', layoutName === 'story' ? { ...layout.after, x: layout.after.x + layout.after.width - 140 } : layout.after);
+    // A white frame sets the inset before photo apart from the after photo behind it.
+    ctx.fillStyle = '#ffffff';
+    roundedRect(ctx, { x: layout.before.x - 6, y: layout.before.y - 6, width: layout.before.width + 12, height: layout.before.height + 12 }, RADIUS + 6);
+    ctx.fill();
+    drawCover(ctx, before, layout.before);
+    drawLabel(ctx, 'Before', layout.before);
+
+    drawGarments(ctx, card.garments.map((garment, i) => ({ img: garmentImages[i], details: garment.details })), layout.garments, layout.garmentColumns);
+    if (card.comparisonText) {
+        drawQuote(ctx, card.comparisonText, layout.quote);
+    }
+    return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, format: CardFormat): Promise<Blob> =>
+    new Promise((resolve, reject) => canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error("Could not create the image file.")),
+        format === 'png' ? 'image/png' : 'image/jpeg',
+        JPEG_QUALITY
+    ));
+
+// One page per card, in the given layout.
+export const renderLookbook = async (cards: OutfitCard[], layout: CardLayout): Promise<Blob> => {
+    const pages: PdfImagePage[] = [];
+    for (const card of cards) {
+        const canvas = await renderOutfitCard(card, layout);
+        const jpeg = await canvasToBlob(canvas, 'jpeg');
+        pages.push({ jpeg: new Uint8Array(await jpeg.arrayBuffer()), width: canvas.width, height: canvas.height });
+    }
+    return buildImagePdf(pages);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Revoked later, since some browsers read the URL after click() returns.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
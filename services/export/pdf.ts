@@ -0,0 +1,62 @@
+// A minimal PDF writer: one JPEG per page, each page sized to its image.
+// JPEG data can be embedded as-is (DCTDecode), so no PDF library is needed.
+
+export interface PdfImagePage {
+    jpeg: Uint8Array;
+    // Pixel size of the JPEG.
+    width: number;
+    height: number;
+}
+
+// 1080 px cards come out at 540 pt (19 cm) wide, about the width of a book page.
+const POINTS_PER_PIXEL = 0.5;
+
+const encoder = new TextEncoder();
+
+export const buildImagePdf = (pages: PdfImagePage[]): Blob => {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    // Objects are numbered from 1 in the order they are written.
+    const writeObject = (body: string, stream?: Uint8Array) => {
+        offsets.push(length);
+        write(`${offsets.length} 0 obj\n${body}\n`);
+        if (stream) {
+            write('stream\n');
+            write(stream);
+            write('\nendstream\n');
+        }
+        write('endobj\n');
+    };
+
+    // Catalog is 1 and the page tree 2; each page then takes three objects:
+    // the page, its image and its content stream.
+    const pageIds = pages.map((_, i) => 3 + i * 3);
+    write('%PDF-1.4\n');
+    // Binary comment, so transfer tools treat the file as binary.
+    write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+    writeObject('<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+    pages.forEach(({ jpeg, width, height }, i) => {
+        const pageWidth = +(width * POINTS_PER_PIXEL).toFixed(2);
+        const pageHeight = +(height * POINTS_PER_PIXEL).toFixed(2);
+        const content = encoder.encode(`q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`);
+        writeObject(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 ${pageIds[i] + 1} 0 R >> >> /Contents ${pageIds[i] + 2} 0 R >>`);
+        writeObject(`<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`, jpeg);
+        writeObject(`<< /Length ${content.length} >>`, content);
+    });
+
+    const xrefOffset = length;
+    write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+    write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
@@ -1,395 +1,839 @@
-import { GoogleGenAI, Type, Modality, Chat } from "@google/genai";
-import type { RecommendationItem, ChatMessage, VirtualTryOnParams } from '../types';
+import { Type } from "@google/genai";
+import type {
+    BodyVisibility,
+    BoundingBox,
+    ChatMessage,
+    ChatPart,
+    VirtualTryOnParams,
+    FitPreference,
+    GarmentAnalysis,
+    GarmentCategory,
+    GarmentMaskParams,
+    GarmentRecommendation,
+    GarmentSpec,
+    GeneratedImage,
+    GeneratedText,
+    PersonPhotoAnalysis,
+    StyleProfile,
+    StylePresentation,
+    StylistAction,
+    StylistChat,
+    StylistContext,
+    TryOnStep,
+} from '../types';
+import { getProvider, isRemoteMode } from './providers';
+import type { ChatFunction } from './providers/types';
+import { createConcurrencyLimit, runWithRetry, isAbortError } from './generation/pipeline';
+import { hashContent, withGenerationCache } from './generation/cache';
+import type { GenerationCacheOptions } from './generation/cache';
+import { ModelOutputError, toServiceError } from './serviceErrors';
+import * as api from './apiClient';
+import { detectMimeType } from './image/format';
+import { FIT_LABELS, MAX_STYLE_WEIGHT, MODESTY_LABELS, PRESENTATION_LABELS, STYLE_PRESENTATIONS, describeStyleProfile, primaryStyle } from './styleProfile';
+import { GARMENT_CATEGORIES, OCCASION_NAMES, STYLE_NAMES, garmentTypesFor, isSportyLook } from './taxonomy/taxonomy';
+import type { DepartmentGarments } from './taxonomy/taxonomy';
+import { activePromptVersion, renderPrompt } from './prompts/registry';
+import type { RenderedPrompt } from './prompts/registry';
+
+// Sends an image with its real type; the fallback only covers bytes that
+// can't be recognised.
+const toImagePart = (data: string, fallbackMimeType: string) => ({
+    inlineData: {
+        mimeType: detectMimeType(data) ?? fallbackMimeType,
+        data,
+    },
+});
+
+// An opt-in suggestion for the style presentation, read from the clothes in
+// the photo. The user always decides; null means the outfit gives no clear lead.
+export const suggestPresentation = async (imageBase64: string): Promise<StylePresentation | null> => {
+    if (isRemoteMode()) {
+        return api.suggestPresentation(imageBase64);
+    }
 
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY });
-const ai2 = new GoogleGenAI({ apiKey: import.meta.env.VITE_IMAGEN_API_KEY });
+    const imagePart = toImagePart(imageBase64, 'image/jpeg');
 
-export const detectGender = async (imageBase64: string): Promise<string> => {
-    const imagePart = {
-        inlineData: {
-            mimeType: 'image/jpeg',
-            data: imageBase64,
-        },
-    };
+    const { text: prompt } = renderPrompt('suggestPresentation', {});
 
-    const prompt = `
-        You are a fashion stylist AI.
-        Analyze ONLY style, appearance, outfit type, visual features.
+    try {
+        const json = await getProvider().generateJson<{ presentation?: string }>({
+            operation: 'suggestPresentation',
+            model: 'gemini-2.5-flash',
+            parts: [imagePart, { text: prompt }],
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    presentation: { type: Type.STRING, enum: [...STYLE_PRESENTATIONS, 'unknown'] }
+                },
+            },
+        });
 
-        Determine the MOST LIKELY gender presentation of the *fashion styling*:
-        - Consider hairstyle, accessories, body shape, clothing cut, neckline, sleeve design, makeup presence.
-        - Male: short hair, broad shoulders, masculine shirt, no makeup, straight cuts.
-        - Female: softer facial shape, long hair, fitted blouse, curved cuts, feminine colors, lace, makeup.
-        - If visually ambiguous, choose "Female" if styling leans feminine, or "Male" if styling leans masculine.
-        - If completely unclear, return { "gender": "Unknown" }
+        return STYLE_PRESENTATIONS.find(presentation => presentation === json.presentation) ?? null;
 
-        Return JSON ONLY:
-        {"gender": "Male"} or {"gender": "Female"} or {"gender": "Unknown"}
-    `;
+    } catch (error) {
+        console.error("Error suggesting a style presentation:", error);
+        throw toServiceError(error, "Could not analyze your photo. Please try a different one.");
+    }
+};
+
+const BODY_VISIBILITY: BodyVisibility[] = ['full', 'upper', 'partial', 'none'];
+
+const BOUNDING_BOX_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        x: { type: Type.NUMBER },
+        y: { type: Type.NUMBER },
+        width: { type: Type.NUMBER },
+        height: { type: Type.NUMBER },
+    },
+    required: ["x", "y", "width", "height"],
+};
+
+// Keeps a model-reported box only if it lies inside the image.
+const toBoundingBox = (box: BoundingBox | undefined): BoundingBox | null => {
+    const isValid = box && box.width > 0 && box.height > 0 && box.x >= 0 && box.y >= 0 && box.x + box.width <= 1.001 && box.y + box.height <= 1.001;
+    return isValid ? box : null;
+};
+
+export const analyzePersonPhoto = async (imageBase64: string): Promise<PersonPhotoAnalysis> => {
+    if (isRemoteMode()) {
+        return api.analyzePersonPhoto(imageBase64);
+    }
+
+    const imagePart = toImagePart(imageBase64, 'image/jpeg');
+
+    const { text: prompt } = renderPrompt('personAnalysis', {});
 
     try {
-        const response = await ai.models.generateContent({
+        const result = await getProvider().generateJson<{ personCount?: number; bodyVisibility?: string; faceBox?: BoundingBox; issue?: string }>({
+            operation: 'personAnalysis',
             model: 'gemini-2.5-flash',
-            contents: [imagePart, { text: prompt }],
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        gender: { type: Type.STRING, enum: ["Male", "Female", "Unknown"] }
-                    },
+            parts: [imagePart, { text: prompt }],
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    personCount: { type: Type.INTEGER },
+                    bodyVisibility: { type: Type.STRING, enum: BODY_VISIBILITY },
+                    faceBox: BOUNDING_BOX_SCHEMA,
+                    issue: { type: Type.STRING },
                 },
+                required: ["personCount", "bodyVisibility"],
             },
         });
 
-        const rawText = response.candidates?.[0]?.content?.parts?.[0]?.text || "{}";
-        const json = JSON.parse(rawText);
-
-        return json.gender || "Unknown";
-
+        if (typeof result.personCount !== 'number' || !BODY_VISIBILITY.includes(result.bodyVisibility as BodyVisibility)) {
+            throw new ModelOutputError("The model did not return a valid photo analysis.");
+        }
+        return {
+            personCount: result.personCount,
+            bodyVisibility: result.bodyVisibility as BodyVisibility,
+            faceBox: toBoundingBox(result.faceBox),
+            issue: result.issue || null,
+        };
     } catch (error) {
-        console.error("Error detecting gender:", error);
-        return "Unknown"; 
+        console.error("Error analyzing person photo:", error);
+        throw toServiceError(error, "Could not check your photo. Please try again.");
     }
 };
 
 
-export const getGarmentDetails = async (preferences: { style: string; colors: string; occasion: string; }, gender: string): Promise<RecommendationItem[]> => {
-    const { style, colors, occasion } = preferences;
-    
-    // Determine specific item term based on occasion to match the visual generation logic
-    const occasionMap: Record<string, string> = {
-        'Workout / Gym': gender === 'Male' ? "Athletic Performance Top" : "Sporty Activewear Top",
-        'Formal Event': gender === 'Male' ? "Formal Tuxedo/Dress Shirt" : "Elegant Evening Blouse",
-        'Office / Work': gender === 'Male' ? "Professional Button-Down" : "Workwear Blouse",
-        'Beach Vacation': gender === 'Male' ? "Linen/Tropical Shirt" : "Breezy Summer Top",
-        'Date Night': gender === 'Male' ? "Stylish Smart-Casual Shirt" : "Chic Evening Top",
-        'Music Festival': gender === 'Male' ? "Statement Festival Shirt/Tee" : "Boho/Festival Top",
-        'Wedding Guest': gender === 'Male' ? "Crisp Dress Shirt" : "Formal Top",
-    };
+// Cross-styling draws on every department.
+const garmentTypeFor = (garments: DepartmentGarments, presentation: StylePresentation): string =>
+    presentation === 'mixed'
+        ? `${garments.menswear}, ${garments.womenswear}, or ${garments.unisex}`
+        : garments[presentation];
 
-    const itemTerm = occasionMap[occasion] || (gender === 'Male' ? "Men's Shirt" : "Women's Top/Blouse");
+// How garments are labelled in prompts, and what each presentation asks of the designs.
+const presentationPrompts: Record<StylePresentation, { label: string; guidance: string }> = {
+    menswear: { label: "Men's", guidance: 'Design from the menswear department.' },
+    womenswear: { label: "Women's", guidance: 'Design from the womenswear department.' },
+    unisex: { label: 'Unisex', guidance: 'Design gender-neutral pieces: no gendered cuts or details, and silhouettes that work on any body.' },
+    mixed: { label: 'Cross-styled', guidance: 'Cross-style freely: mix menswear and womenswear pieces, with at least one from each department.' },
+};
+
+// A profile without a presentation has not been through the wizard's form;
+// gender-neutral designs are the safe reading of it.
+const presentationOf = (profile: StyleProfile): StylePresentation => profile.presentation ?? 'unisex';
+
+export const GARMENT_VARIATION_COUNT = 3;
+
+// What each variation explores, so the specs differ: a solid colour, a pattern
+// and a distinct cut.
+const variationDirections = (profile: StyleProfile, category: GarmentCategory): string[] => {
+    // Customize variations based on whether the occasion allows for patterns/collars or is more sporty/casual
+    const { occasion } = profile;
+    const style = primaryStyle(profile);
+    const isSportyOrCasual = isSportyLook(occasion, style);
+
+    return [
+        // Variation 1: Primary Color focus
+        isSportyOrCasual
+            ? `Solid Primary Color from palette. Focus on the technical/casual texture and fit. Minimalist design.`
+            : `Solid Primary Color from palette. Classic, clean design. Focus on high-quality fabric drape and finish.`,
+        // Variation 2: Pattern/Texture focus
+        isSportyOrCasual
+            ? `Two-tone color block or sporty geometric accents using secondary colors. Dynamic lines.`
+            : `A distinct classic pattern (e.g., stripes, checks, or floral print) incorporating secondary colors.`,
+        // Variation 3: Cut/Silhouette focus
+        isSportyOrCasual && category === 'top'
+            ? `Unique athletic cut (e.g., racerback, muscle fit, or mesh panels) in a contrasting third color.`
+            : `Unique silhouette (e.g., ${categoryGenerationRules[category].silhouette}) in a contrasting third color.`,
+    ];
+};
 
-    const prompt = `
-        **Task:** Generate a JSON list of 3 distinct ${itemTerm} recommendations based on:
-        - Gender Style: ${gender}
-        - Style: ${style}
-        - Color Preference: ${colors}
-        - Occasion: ${occasion}
+const toGarmentSpec = (value: unknown): GarmentSpec | null => {
+    const item = (value ?? {}) as Record<string, unknown>;
+    const text = (key: string) => typeof item[key] === 'string' ? (item[key] as string).trim() : '';
+    const colors = Array.isArray(item.colors)
+        ? item.colors.filter((c): c is string => typeof c === 'string' && c.trim() !== '').map(c => c.trim())
+        : [];
+    const spec = {
+        itemName: text('itemName'),
+        styleCategory: text('styleCategory'),
+        description: text('description'),
+        colors,
+        fabric: text('fabric'),
+        cut: text('cut'),
+    };
+    return spec.itemName && spec.description && spec.colors.length > 0 && spec.fabric && spec.cut ? spec : null;
+};
 
-        **CRITICAL DIVERSITY RULES:**
-        You must generate 3 items that are COMPLETELY different from each other.
-        1.  **Item 1:** Must use the primary color from the user's palette. Focus on a standard fabric for the occasion.
-        2.  **Item 2:** Must use a SECONDARY/CONTRASTING color from the palette. Focus on a different texture or pattern relevant to the occasion.
-        3.  **Item 3:** Must use a THIRD distinct color or a PATTERN. Focus on a unique cut or design feature.
+const createGarmentSpecs = async (profile: StyleProfile, category: GarmentCategory): Promise<GarmentSpec[]> => {
+    if (isRemoteMode()) {
+        return api.getGarmentSpecs(profile, category);
+    }
 
-        **Output Requirement:**
-        Return ONLY a JSON array. Each object must have:
-        - itemName: Creative name (e.g., "Midnight Oxford", "Silk Wrap Blouse", "Pro-Fit Mesh Tank").
-        - styleCategory: e.g., "Modern", "Classic", "Edgy", "Athletic".
-        - description: A short description mentioning the specific fabric texture and color.
-    `;
+    const { occasion } = profile;
+
+    // Only tops vary by occasion in the taxonomy; other categories let the
+    // occasion steer the design through the context.
+    const rules = categoryGenerationRules[category];
+    const source = garmentTypesFor(category, occasion);
+    const presentation = presentationPrompts[presentationOf(profile)];
+    const garmentType = garmentTypeFor(source, presentationOf(profile));
+    const directions = variationDirections(profile, category);
+
+    const prompt = renderPrompt('garmentSpecs', {
+        count: GARMENT_VARIATION_COUNT,
+        presentationLabel: presentation.label,
+        presentationGuidance: presentation.guidance,
+        unit: rules.unit,
+        garmentType,
+        profileLines: describeStyleProfile(profile).map(line => `        - ${line}`).join('\n'),
+        fabrics: source.fabric,
+        directions: directions.map((direction, index) => `        ${index + 1}.  **Item ${index + 1}:** ${direction}`).join('\n'),
+    });
 
     try {
-        const response = await ai.models.generateContent({
+        const result = await getProvider().generateJson<unknown>({
+            operation: 'garmentSpecs',
             model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            itemName: {
-                                type: Type.STRING,
-                                description: 'The specific name of the fashion item.',
-                            },
-                            styleCategory: {
-                                type: Type.STRING,
-                                description: 'The category of style this item belongs to.',
-                            },
-                            description: {
-                                type: Type.STRING,
-                                description: 'A brief description emphasizing color and texture.',
-                            },
+            parts: [{ text: prompt.text }],
+            schema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        itemName: {
+                            type: Type.STRING,
+                            description: 'The specific name of the fashion item.',
+                        },
+                        styleCategory: {
+                            type: Type.STRING,
+                            description: 'The category of style this item belongs to.',
+                        },
+                        description: {
+                            type: Type.STRING,
+                            description: 'A brief description emphasizing color and texture.',
+                        },
+                        colors: {
+                            type: Type.ARRAY,
+                            items: { type: Type.STRING },
+                            description: 'Color names, main color first.',
+                        },
+                        fabric: {
+                            type: Type.STRING,
+                            description: 'The main fabric and finish.',
+                        },
+                        cut: {
+                            type: Type.STRING,
+                            description: 'Cut, fit and key design details.',
                         },
-                        required: ["itemName", "styleCategory", "description"],
                     },
+                    required: ["itemName", "styleCategory", "description", "colors", "fabric", "cut"],
                 },
             },
         });
 
-        const jsonStr = response.text.trim();
-        const result = JSON.parse(jsonStr);
-        if (Array.isArray(result) && result.length > 0) {
-            return result as RecommendationItem[];
+        const specs = Array.isArray(result)
+            ? result.map(toGarmentSpec)
+                .filter((spec): spec is GarmentSpec => spec !== null)
+                .slice(0, GARMENT_VARIATION_COUNT)
+                .map(spec => ({ ...spec, promptVersions: prompt.promptVersions }))
+            : [];
+        if (specs.length > 0) {
+            return specs;
         }
-        throw new Error("The model did not return valid recommendations.");
+        throw new ModelOutputError("The model did not return valid garment specs.");
+    } catch (error) {
+        console.error("Error getting garment specs:", error);
+        throw toServiceError(error, "Could not get garment details. Please try again.");
+    }
+};
+
+// Writes one structured spec per variation. Each spec then drives its own
+// image prompt, so a picture always matches its description. The same profile
+// gets the same specs back from the cache, and with them the same images.
+export const getGarmentSpecs = async (
+    profile: StyleProfile,
+    category: GarmentCategory = 'top',
+    cacheOptions?: GenerationCacheOptions
+): Promise<GarmentSpec[]> => {
+    const { value } = await withGenerationCache(
+        'garmentSpecs',
+        { promptVersion: activePromptVersion('garmentSpecs'), profile, category },
+        () => createGarmentSpecs(profile, category),
+        cacheOptions
+    );
+    return value;
+};
+
+const buildGarmentImagePrompt = (spec: GarmentSpec, profile: StyleProfile, category: GarmentCategory): RenderedPrompt => {
+    const rules = categoryGenerationRules[category];
+    const modesty = profile.modesty.map(key => MODESTY_LABELS[key].toLowerCase());
+    return renderPrompt('garmentImage', {
+        unit: rules.unit,
+        unitCaps: rules.unit.toUpperCase(),
+        presentationLabel: presentationPrompts[presentationOf(profile)].label,
+        itemName: spec.itemName,
+        description: spec.description,
+        style: primaryStyle(profile),
+        occasion: profile.occasion,
+        fit: FIT_LABELS[profile.fit].toLowerCase(),
+        colors: spec.colors.join(', '),
+        fabric: spec.fabric,
+        cut: spec.cut,
+        modestyRule: modesty.length > 0 ? `      -   **MODESTY:** The garment must have: ${modesty.join(', ')}.\n` : '',
+        layout: rules.layout,
+        exclude: rules.exclude,
+    });
+};
+
+const GARMENT_IMAGE_TIMEOUT_MS = 90_000;
+// Caps image requests in flight from this process, whether that is the
+// browser or the backend serving everyone.
+const limitGarmentImages = createConcurrencyLimit(2);
+
+const createGarmentImage = async (
+    spec: GarmentSpec,
+    profile: StyleProfile,
+    aspectRatio: string,
+    category: GarmentCategory,
+    signal: AbortSignal
+): Promise<GeneratedImage> => {
+    const retryOptions = { signal, timeoutMs: GARMENT_IMAGE_TIMEOUT_MS, retries: 2, baseDelayMs: 2000 };
+
+    if (isRemoteMode()) {
+        return limitGarmentImages(() => runWithRetry(
+            attemptSignal => api.generateGarmentImage(spec, profile, aspectRatio, category, attemptSignal),
+            retryOptions
+        ));
+    }
+
+    const prompt = buildGarmentImagePrompt(spec, profile, category);
+    try {
+        const image = await limitGarmentImages(() => runWithRetry(
+            attemptSignal => getProvider().generateImage({
+                operation: 'garmentImage',
+                model: 'imagen-4.0-generate-001',
+                prompt: prompt.text,
+                aspectRatio,
+                outputMimeType: 'image/png',
+                signal: attemptSignal,
+            }),
+            retryOptions
+        ));
+        return { image, promptVersions: prompt.promptVersions };
     } catch (error) {
-        console.error("Error getting garment details:", error);
-        throw new Error("Could not get garment details. Please try again.");
+        if (isAbortError(error)) {
+            throw error;
+        }
+        console.error(`Error generating an image for "${spec.itemName}":`, error);
+        throw toServiceError(error, "Could not generate this garment. Please try again.");
     }
 };
 
+// Photographs one spec, so the UI can show each garment as soon as it is
+// ready and retry a single failed one.
+export const generateGarmentImage = async (
+    spec: GarmentSpec,
+    profile: StyleProfile,
+    aspectRatio: string,
+    category: GarmentCategory,
+    signal?: AbortSignal,
+    cacheOptions?: GenerationCacheOptions
+): Promise<GeneratedImage> => {
+    const { value, cached } = await withGenerationCache(
+        'garmentImage',
+        { promptVersion: activePromptVersion('garmentImage'), spec, profile, aspectRatio, category },
+        cacheSignal => createGarmentImage(spec, profile, aspectRatio, category, cacheSignal),
+        cacheOptions,
+        signal
+    );
+    return { ...value, cached };
+};
+
+// Specs first, then one image per spec. Garments whose image fails are left
+// out whole, so every returned spec still has its own picture.
 export const generateGarmentRecommendations = async (
-    preferences: { style: string; colors: string; occasion: string; },
+    profile: StyleProfile,
     aspectRatio: string = '1:1',
-    gender: string
-): Promise<string[]> => {
-    const { style, colors, occasion } = preferences;
-
-    // Intelligent Mapping for Realistic Garment Types based on Occasion
-    const occasionConfig: Record<string, { male: string, female: string, fabric: string }> = {
-        'Workout / Gym': {
-            male: "sleeveless athletic tank top or moisture-wicking sports t-shirt",
-            female: "athletic racerback tank top, sports crop top, or performance tee",
-            fabric: "technical moisture-wicking fabric, mesh details, breathable synthetic blend"
-        },
-        'Office / Work': {
-            male: "professional oxford button-down dress shirt",
-            female: "tailored silk blouse, structured button-up shirt, or smart shell top",
-            fabric: "crisp cotton, silk, poplin, or satin. Smooth professional finish"
-        },
-        'Formal Event': {
-            male: "tuxedo shirt or high-end formal dress shirt with french cuffs",
-            female: "elegant evening blouse, satin top, or chiffon overlay",
-            fabric: "satin, silk, fine egyptian cotton, or velvet details"
-        },
-        'Date Night': {
-            male: "stylish slim-fit button-down or premium knit polo shirt",
-            female: "romantic off-shoulder top, lace bodysuit, or satin camisole",
-            fabric: "silk, satin, fine knit, or soft cotton blend"
-        },
-        'Beach Vacation': {
-            male: "linen button-down shirt or tropical print camp collar shirt",
-            female: "breezy linen tunic, crochet top, or flowy boho blouse",
-            fabric: "linen, lightweight cotton, seersucker, or sheer fabrics"
-        },
-        'Music Festival': {
-            male: "vintage graphic tee, distressed denim shirt, or open flannel",
-            female: "boho fringe top, crochet halter, or patterned kimono top",
-            fabric: "distressed cotton, denim, crochet, or patterned rayon"
-        },
-        'Wedding Guest': {
-            male: "crisp dress shirt (white or pastel)",
-            female: "dressy chiffon blouse or silk shell top",
-            fabric: "fine cotton, chiffon, or silk"
-        },
-         'Travel': {
-            male: "comfortable utility shirt, soft henley, or cotton tee",
-            female: "oversized tunic, soft knit top, or comfortable tee",
-            fabric: "wrinkle-resistant cotton, jersey, or flannel"
-        },
-        // Fallback for 'Weekend Outing', 'Casual Hangout', etc.
-        'default': {
-            male: "casual oxford shirt, flannel, or high-quality t-shirt",
-            female: "casual blouse, knit top, or everyday tee",
-            fabric: "cotton, denim, flannel, or jersey"
-        }
-    };
+    category: GarmentCategory = 'top'
+): Promise<GarmentRecommendation[]> => {
+    if (isRemoteMode()) {
+        return api.generateGarmentRecommendations(profile, aspectRatio, category);
+    }
+
+    const specs = await getGarmentSpecs(profile, category);
+    const results = await Promise.allSettled(
+        specs.map(spec => generateGarmentImage(spec, profile, aspectRatio, category))
+    );
+    const recommendations = specs.flatMap((spec, index) => {
+        const result = results[index];
+        return result.status === 'fulfilled'
+            ? [{ spec, image: result.value.image, promptVersions: { ...spec.promptVersions, ...result.value.promptVersions } }]
+            : [];
+    });
+    if (recommendations.length === 0) {
+        const failure = results.find(result => result.status === 'rejected');
+        console.error("Error generating garment recommendations:", failure?.reason);
+        throw toServiceError(failure?.reason, "Could not generate garment recommendations. Please try again.");
+    }
+    if (recommendations.length < specs.length) {
+        console.warn(`Only ${recommendations.length} of ${specs.length} garment images were generated.`);
+    }
+    return recommendations;
+};
 
-    const defaults = occasionConfig['default'];
-    const config = occasionConfig[occasion] || defaults;
-    
-    const garmentType = gender === 'Male' ? config.male : config.female;
-    const fabricDetails = config.fabric;
-
-    // Base prompt template enforcing single item
-    const createPrompt = (specificDesign: string) => `
-      You are a professional fashion photographer.
-      **Goal:** Generate a single, studio-quality product photo of EXACTLY ONE (1) garment.
-      **Item Type:** ${gender === 'Male' ? "Men's" : "Women's"} ${garmentType}.
-      **Context:** ${gender} ${style} fashion for ${occasion}.
-      **Fabric:** ${fabricDetails}.
-      **Palette:** ${colors}.
-      
-      **SPECIFIC DESIGN:** ${specificDesign}
-
-      **CRITICAL VISUAL RULES (STRICTLY ENFORCED):**
-      -   **QUANTITY:** ONE SINGLE ITEM ONLY. Isolate the garment.
-      -   **LAYOUT:** Ghost mannequin or flat lay on a plain white background. Front view.
-      -   **NEGATIVE PROMPT:** NO pants, NO shorts, NO bottoms (TOP ONLY). NO models, NO human body parts, NO hands, NO faces, NO text, NO watermarks, NO labels, NO multiple items, NO accessories.
-      -   **QUALITY:** Photorealistic, 8k, highly detailed fabric texture, professional studio lighting.
-    `;
+export const TRY_ON_STEPS: TryOnStep[] = ['UPLOAD_PERSON', 'SET_PREFERENCES', 'GENERATING_GARMENTS', 'CHOOSE_GARMENT', 'SHOW_RESULT'];
 
-    // Customize variations based on whether the occasion allows for patterns/collars or is more sporty/casual
-    const isSportyOrCasual = occasion === 'Workout / Gym' || style === 'Streetwear' || occasion === 'Music Festival';
-
-    // Variation 1: Primary Color focus
-    const var1 = isSportyOrCasual
-        ? `Solid Primary Color from palette. Focus on the technical/casual texture and fit. Minimalist design.`
-        : `Solid Primary Color from palette. Classic, clean design. Focus on high-quality fabric drape and finish.`;
-
-    // Variation 2: Pattern/Texture focus
-    const var2 = isSportyOrCasual
-        ? `Two-tone color block or sporty geometric accents using secondary colors. Dynamic lines.`
-        : `A distinct classic pattern (e.g., stripes, checks, or floral print) incorporating secondary colors.`;
-
-    // Variation 3: Cut/Silhouette focus
-    const var3 = isSportyOrCasual
-        ? `Unique athletic cut (e.g., racerback, muscle fit, or mesh panels) in a contrasting third color.`
-        : `Unique silhouette (e.g., interesting collar, sleeve detail, or asymmetric hem) in a contrasting third color.`;
-
-    // Define 3 distinct prompts for diversity
-    const prompts = [
-        createPrompt(var1),
-        createPrompt(var2),
-        createPrompt(var3)
+const stylistStepDescriptions: Record<TryOnStep, string> = {
+    UPLOAD_PERSON: 'uploading a photo of themselves',
+    SET_PREFERENCES: 'choosing style preferences',
+    GENERATING_GARMENTS: 'waiting for recommended garments to be generated',
+    CHOOSE_GARMENT: 'choosing one of the recommended garments',
+    SHOW_RESULT: 'looking at a virtual try-on result',
+};
+
+// A plain-text note prepended to each chat message so the stylist knows what
+// the user is looking at.
+export const describeStylistContext = (context: StylistContext): string => {
+    const lines = [
+        '[Current try-on session, for context only. This note is not written by the user.]',
+        `Step: ${stylistStepDescriptions[context.step]}`,
+        `Style presentation: ${context.profile.presentation ? PRESENTATION_LABELS[context.profile.presentation] : 'not chosen yet'}`,
+        'Style profile:',
+        ...describeStyleProfile(context.profile).map(line => `- ${line}`),
+        `Next garment type: ${context.garmentCategory}`,
     ];
-    
-    try {
-        const images: string[] = [];
+    if (context.garments.length > 0) {
+        lines.push('Recommended garments:', ...context.garments.map((item, index) =>
+            `${index + 1}. ${item ? `${item.itemName} (${item.styleCategory}): ${item.description}` : 'no description'}`));
+    }
+    lines.push(`Selected garment: ${context.selectedGarment !== null ? context.selectedGarment + 1 : context.hasSelection ? 'one the user uploaded or saved' : 'none'}`);
+    lines.push(`Try-on result: ${context.hasResult ? 'shown to the user' : 'none yet'}`);
+    if (context.outfitLayers > 0) {
+        lines.push(`Outfit so far: ${context.outfitLayers} earlier piece(s) already tried on`);
+    }
+    return lines.join('\n');
+};
 
-        for (const prompt of prompts) {
-            try {
-                const response = await ai.models.generateImages({
-                    model: 'imagen-4.0-generate-001',
-                    prompt: prompt,
-                    config: {
-                        numberOfImages: 1,
-                        outputMimeType: 'image/png',
-                        aspectRatio: aspectRatio,
-                    },
-                });
-                
-                if (response.generatedImages && response.generatedImages.length > 0) {
-                    images.push(response.generatedImages[0].image.imageBytes);
-                }
-            } catch (innerError) {
-                console.warn("Skipping one image generation due to error or rate limit:", innerError);
-            }
+const stylistFunctions: ChatFunction[] = [
+    {
+        name: 'regenerate_garments',
+        description: 'Generate a new set of recommended garments. Only pass the parts of the style profile the user wants to change.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                style: { type: Type.STRING, description: `Main style, ideally one of: ${STYLE_NAMES.join(', ')}. Replaces the current styles.` },
+                favoriteColors: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Colors to favour, e.g. ["sage", "cream"]. Replaces the current list.' },
+                avoidedColors: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Colors never to use. Replaces the current list.' },
+                occasion: { type: Type.STRING, description: `Occasion, ideally one of: ${OCCASION_NAMES.join(', ')}.` },
+                fit: { type: Type.STRING, enum: Object.keys(FIT_LABELS), description: 'Preferred fit.' },
+                presentation: { type: Type.STRING, enum: STYLE_PRESENTATIONS, description: 'Store department to design from. Only change it when the user asks to.' },
+                category: { type: Type.STRING, enum: GARMENT_CATEGORIES, description: 'Kind of garment to generate.' },
+            },
+        },
+    },
+    {
+        name: 'select_garment',
+        description: 'Select one of the recommended garments.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                number: { type: Type.INTEGER, description: 'Position of the garment as listed, starting at 1.' },
+            },
+            required: ['number'],
+        },
+    },
+    {
+        name: 'try_on',
+        description: "Virtually try the selected garment on the user's photo.",
+    },
+];
+
+const toStylistAction = (
+    { name, args }: { name: string; args: Record<string, unknown> },
+    context: StylistContext | null
+): StylistAction | null => {
+    if (name === 'regenerate_garments') {
+        const profile: Partial<StyleProfile> = {};
+        const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+        const colorList = (value: unknown) => Array.isArray(value) ? value.map(text).filter(Boolean) : undefined;
+        if (text(args.style)) {
+            profile.styles = [{ name: text(args.style), weight: MAX_STYLE_WEIGHT }];
         }
-        
-        if (images.length === 0) {
-            throw new Error("No images were generated. Please check your API quota or try again later.");
+        if (text(args.occasion)) {
+            profile.occasion = text(args.occasion);
         }
+        const favoriteColors = colorList(args.favoriteColors);
+        const avoidedColors = colorList(args.avoidedColors);
+        if (favoriteColors) {
+            profile.favoriteColors = favoriteColors;
+        }
+        if (avoidedColors) {
+            profile.avoidedColors = avoidedColors;
+        }
+        if (typeof args.fit === 'string' && Object.hasOwn(FIT_LABELS, args.fit)) {
+            profile.fit = args.fit as FitPreference;
+        }
+        const presentation = STYLE_PRESENTATIONS.find(p => p === args.presentation);
+        if (presentation) {
+            profile.presentation = presentation;
+        }
+        const category = GARMENT_CATEGORIES.find(c => c === args.category);
+        return { type: 'regenerateGarments', profile, ...(category && { category }) };
+    }
+    if (name === 'select_garment') {
+        const index = Number(args.number) - 1;
+        const isShown = context === null || index < context.garments.length;
+        return Number.isInteger(index) && index >= 0 && isShown ? { type: 'selectGarment', index } : null;
+    }
+    if (name === 'try_on') {
+        return { type: 'tryOn' };
+    }
+    console.warn(`Ignoring unknown stylist function "${name}".`);
+    return null;
+};
 
-        return images;
-
-    } catch (error) {
-        console.error("Error generating garment recommendations:", error);
-        throw new Error("Could not generate garment recommendations. Please try again.");
+export const createFashionChat = (history: ChatMessage[] = []): StylistChat => {
+    if (isRemoteMode()) {
+        return api.createRemoteChat(history);
     }
-}
 
-export const createFashionChat = (history: ChatMessage[] = []): Chat => {
-    return ai.chats.create({
+    const session = getProvider().createChat({
         model: 'gemini-2.5-flash',
         history,
-        config: {
-            systemInstruction: "You are a friendly and knowledgeable AI Fashion Stylist. Your goal is to help users with their fashion questions, provide styling tips, and help them discover new looks. Be encouraging, concise, and helpful. Your responses should be plain text. Do not use any markdown formatting, such as asterisks for bolding or lists.",
-        },
+        systemInstruction: "You are a friendly and knowledgeable AI Fashion Stylist. Your goal is to help users with their fashion questions, provide styling tips, and help them discover new looks. Be encouraging, concise, and helpful. When the user shares photos, such as themselves, a garment or a virtual try-on result, base your advice on what you can see in them. Messages may start with a note describing the user's current virtual try-on session; use it to answer questions about what they are looking at. When the user asks you to change the recommendations, pick a garment or try one on, call the matching function and briefly confirm what you did. Your responses should be plain text. Do not use any markdown formatting, such as asterisks for bolding or lists.",
+        functions: stylistFunctions,
     });
-};
 
-export const performVirtualTryOn = async ({ personImage, garmentImage, width, height }: VirtualTryOnParams): Promise<string> => {
-    const personImagePart = {
-        inlineData: {
-            mimeType: 'image/jpeg', // Assuming jpeg, could be dynamic
-            data: personImage,
+    return {
+        sendMessageStream: async function* (message, context) {
+            const parts: ChatPart[] = context ? [{ text: describeStylistContext(context) }, ...message] : message;
+            try {
+                for await (const chunk of session.sendMessageStream(parts)) {
+                    if ('text' in chunk) {
+                        yield { type: 'text', text: chunk.text };
+                        continue;
+                    }
+                    const action = toStylistAction(chunk.functionCall, context);
+                    if (action) {
+                        yield { type: 'action', action };
+                    }
+                }
+            } catch (error) {
+                console.error("Error streaming chat reply:", error);
+                throw toServiceError(error, "Could not get a reply from the stylist. Please try again.");
+            }
         },
     };
+};
 
-    const garmentImagePart = {
-        inlineData: {
-            mimeType: 'image/png', // Assuming png for potential transparency, could be dynamic
-            data: garmentImage,
-        },
-    };
+// How to generate each kind of garment. The garment types and fabrics
+// themselves come from the taxonomy.
+const categoryGenerationRules: Record<GarmentCategory, {
+    unit: string;
+    layout: string;
+    exclude: string;
+    silhouette: string;
+}> = {
+    top: {
+        unit: 'garment',
+        layout: 'Ghost mannequin or flat lay',
+        exclude: 'NO pants, NO shorts, NO bottoms (TOP ONLY). NO accessories.',
+        silhouette: 'interesting collar, sleeve detail, or asymmetric hem',
+    },
+    bottom: {
+        unit: 'garment',
+        layout: 'Ghost mannequin or flat lay',
+        exclude: 'NO shirts, NO tops, NO shoes (BOTTOM ONLY). NO accessories.',
+        silhouette: 'pleated front, wide or tapered leg, or split hem',
+    },
+    dress: {
+        unit: 'garment',
+        layout: 'Ghost mannequin or flat lay',
+        exclude: 'NO separate tops, NO separate bottoms, NO jackets, NO shoes (ONE-PIECE ONLY). NO accessories.',
+        silhouette: 'wrap front, cut-out detail, or tiered skirt',
+    },
+    outerwear: {
+        unit: 'garment',
+        layout: 'Ghost mannequin or flat lay, shown closed',
+        exclude: 'NO shirt underneath, NO pants, NO shoes (OUTER LAYER ONLY). NO accessories.',
+        silhouette: 'oversized lapels, cropped length, or dropped shoulders',
+    },
+    footwear: {
+        unit: 'pair of shoes',
+        layout: 'Both shoes side by side, three-quarter product shot',
+        exclude: 'NO clothing, NO socks, NO feet, NO shoe boxes (FOOTWEAR ONLY).',
+        silhouette: 'chunky sole, pointed toe, or buckle detail',
+    },
+    accessory: {
+        unit: 'accessory',
+        layout: 'Centered product shot',
+        exclude: 'NO clothing, NO shoes, NO jewelry sets (ONE ACCESSORY ONLY).',
+        silhouette: 'statement hardware, sculptural shape, or contrast stitching',
+    },
+};
 
-    const textPart = {
-        text: `**TOP PRIORITY & NON-NEGOTIABLE RULE: IMAGE DIMENSION INTEGRITY**
-The final output image's dimensions MUST be EXACTLY ${width} pixels wide by ${height} pixels high. This matches the original input person photo (Image 1). The aspect ratio MUST be IDENTICAL. There can be no stretching, cropping, or resizing of the original scene. This is the most critical instruction.
+// How the try-on should treat the existing outfit for each kind of garment.
+const tryOnCategoryInstructions: Record<GarmentCategory, { label: string; replaces: string; directive: string }> = {
+    top: {
+        label: 'top (shirt, blouse, tee)',
+        replaces: 'upper-body garment (shirt, top)',
+        directive: 'Replace ONLY the upper-body clothing. Keep the original bottoms (pants, skirt, shorts) and shoes exactly as they are.',
+    },
+    bottom: {
+        label: 'bottom (pants, skirt, shorts)',
+        replaces: 'lower-body garment (pants, skirt, shorts)',
+        directive: 'Replace ONLY the lower-body clothing. Keep the original top and shoes exactly as they are. The waistband must sit naturally at the waist, tucked or untucked as the top allows.',
+    },
+    dress: {
+        label: 'dress or one-piece',
+        replaces: 'top AND bottom',
+        directive: 'Replace BOTH the upper-body and lower-body clothing with this single one-piece garment. Keep the shoes exactly as they are.',
+    },
+    outerwear: {
+        label: 'outerwear (jacket, coat, cardigan)',
+        replaces: 'outer layer',
+        directive: 'LAYER this garment OVER the existing outfit. Do not remove the original top; it may remain visible at the collar, front opening and hem where a real jacket would show it. Replace any existing outer layer.',
+    },
+    footwear: {
+        label: 'pair of shoes',
+        replaces: 'footwear',
+        directive: 'Replace ONLY the shoes. Keep every piece of clothing exactly as it is; trouser hems and skirts must fall naturally over or around the new shoes. If the feet are not visible in Image 1, return Image 1 unchanged.',
+    },
+    accessory: {
+        label: 'accessory (bag, belt, hat, scarf, watch)',
+        replaces: 'accessory of the same kind, if the person already wears one',
+        directive: 'ADD this accessory where it is naturally worn or carried (belt at the waist, hat on the head, bag on the shoulder or in hand, scarf around the neck, watch on the wrist). Keep all clothing and shoes exactly as they are.',
+    },
+};
 
-**CORE MISSION: Physics-Based 3D Virtual Try-On Simulation**
+export const analyzeGarmentImage = async (imageBase64: string): Promise<GarmentAnalysis> => {
+    if (isRemoteMode()) {
+        return api.analyzeGarmentImage(imageBase64);
+    }
 
-You are an expert digital tailor operating an advanced physics-based rendering (PBR) engine. Your task is to simulate draping a garment onto a person in a 2D photograph as if it were a high-fidelity 3D model. The final output must be indistinguishable from a real photograph where the person is physically wearing the garment.
+    const imagePart = toImagePart(imageBase64, 'image/png');
 
-**INPUTS:**
--   **[Image 1]:** A photo of a person.
--   **[Image 2]:** A photo of an isolated garment.
+    const { text: prompt } = renderPrompt('garmentAnalysis', {});
 
-**KEY DIRECTIVES FOR UNMATCHED REALISM (Simulating 3D):**
+    try {
+        const result = await getProvider().generateJson<{
+            garmentCount: number;
+            isSingleGarment: boolean;
+            category: string;
+            boundingBox?: BoundingBox;
+            issue?: string;
+        }>({
+            operation: 'garmentAnalysis',
+            model: 'gemini-2.5-flash',
+            parts: [imagePart, { text: prompt }],
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    garmentCount: { type: Type.INTEGER },
+                    isSingleGarment: { type: Type.BOOLEAN },
+                    category: { type: Type.STRING, enum: GARMENT_CATEGORIES },
+                    boundingBox: BOUNDING_BOX_SCHEMA,
+                    issue: { type: Type.STRING },
+                },
+                required: ["garmentCount", "isSingleGarment", "category"],
+            },
+        });
 
-1.  **Advanced Fabric & Material Simulation:**
-    *   **Physics-Based Properties:** Analyze the garment in Image 2 to infer its physical properties. Simulate its **weight** (e.g., heavy denim vs. light silk), **stiffness**, and **texture**.
-    *   **PBR Lighting Interaction:** The garment's material must interact with the scene's lighting realistically. Simulate **specular highlights** for shiny materials (like satin or leather) and **diffuse reflection** for matte materials (like cotton).
-    *   **Micro-Wrinkles & Stretching:** Create a high-fidelity displacement map based on the person's underlying body form. Generate realistic micro-wrinkles, fabric stretching, and compression that accurately reflect the material's properties and the pose.
+        return {
+            garmentCount: result.garmentCount,
+            isSingleGarment: result.isSingleGarment && result.garmentCount === 1,
+            category: GARMENT_CATEGORIES.includes(result.category as GarmentCategory) ? result.category as GarmentCategory : 'top',
+            boundingBox: toBoundingBox(result.boundingBox),
+            issue: result.issue || null,
+        };
+    } catch (error) {
+        console.error("Error analyzing garment image:", error);
+        throw toServiceError(error, "Could not analyze the garment photo. Please try a different image.");
+    }
+};
 
-2.  **Body Shape & Draping Mastery:**
-    *   **Conform to Body & Pose:** The garment must perfectly conform to the person's unique body shape and pose. The simulation must calculate how the fabric would naturally hang, drape, and fold.
-    *   **Ambient Occlusion & Shadowing:** This is critical for 3D illusion. Calculate and render soft, realistic **ambient occlusion** in the creases and folds of the fabric. Cast subtle shadows where the garment interacts with the body (e.g., under the collar, at the waist) to create a sense of depth and separation.
+export const removeGarmentBackground = async (imageBase64: string): Promise<string> => {
+    if (isRemoteMode()) {
+        return api.removeGarmentBackground(imageBase64);
+    }
 
-3.  **Seamless Integration & Flawless Coverage:**
-    *   **TOTAL Clothing Replacement:** Your second highest priority is to *completely and totally replace* the original clothing. There should be ZERO traces of the original shirt, especially at the collar, cuffs, and hem. The new garment must be fully opaque.
-    *   **Preserve Identity & Scene:** The person's face, hair, skin tone, body, limbs, and the entire original background must remain absolutely unchanged.
-    *   **Consistent Lighting:** The lighting on the new garment must perfectly match the lighting of the original scene in Image 1.
+    const imagePart = toImagePart(imageBase64, 'image/png');
 
-**CRITICAL RULES TO FOLLOW (REITERATED):**
--   **ABSOLUTE DIMENSION MATCH:** The output must have the exact same dimensions as the input person photo: ${width}x${height} pixels. NO EXCEPTIONS.
--   **THINK LIKE A 3D RENDERER:** The final output must look like it was rendered from a professional cloth simulation, not edited in 2D.
--   **ABSOLUTELY NO TRACE of the original garment.** This is the second most important rule.
--   **DO NOT** alter the person or the background.
--   **DO NOT** create a flat, "pasted-on" look. The garment must have volume, depth, and realistic lighting.
--   **AVOID** any signs of digital editing. The final output must be a single, cohesive, photorealistic image.`
+    const textPart = {
+        text: renderPrompt('garmentBackgroundRemoval', {}).text,
     };
 
     try {
-        const response = await ai.models.generateContent({
+        return await getProvider().editImage({
+            operation: 'garmentBackgroundRemoval',
             model: 'gemini-2.5-flash-image',
-            contents: { parts: [personImagePart, garmentImagePart, textPart] },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
+            parts: [imagePart, textPart],
         });
+    } catch (error) {
+        console.error("Error removing garment background:", error);
+        throw toServiceError(error, "Could not remove the background from the garment photo. You can still use it as is.");
+    }
+};
 
-        if (response.candidates && response.candidates[0]?.content?.parts[0]?.inlineData?.data) {
-            return response.candidates[0].content.parts[0].inlineData.data;
-        } else {
-            throw new Error("The model did not return a valid image.");
-        }
+const createVirtualTryOn = async (
+    { personImage, garmentImage, width, height, garmentCategory = 'top' }: VirtualTryOnParams,
+    signal?: AbortSignal
+): Promise<GeneratedImage> => {
+    if (isRemoteMode()) {
+        return api.performVirtualTryOn({ personImage, garmentImage, width, height, garmentCategory }, signal);
+    }
+
+    const category = tryOnCategoryInstructions[garmentCategory];
+    const prompt = renderPrompt('virtualTryOn', {
+        width,
+        height,
+        garmentLabel: category.label,
+        directive: category.directive,
+        replaces: category.replaces,
+    });
+
+    const personImagePart = toImagePart(personImage, 'image/jpeg');
+
+    const garmentImagePart = toImagePart(garmentImage, 'image/png');
+
+    const textPart = {
+        text: prompt.text,
+    };
+
+    try {
+        const image = await getProvider().editImage({
+            operation: 'virtualTryOn',
+            model: 'gemini-2.5-flash-image',
+            parts: [personImagePart, garmentImagePart, textPart],
+            signal,
+        });
+        return { image, promptVersions: prompt.promptVersions };
     } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
         console.error("Error performing virtual try-on:", error);
-        throw new Error("Could not perform the virtual try-on. Please check your images and try again.");
+        throw toServiceError(error, "Could not perform the virtual try-on. Please check your images and try again.");
     }
 };
 
-export const getStyleComparison = async (originalImage: string, newImage: string): Promise<string> => {
-    const originalImagePart = {
-        inlineData: {
-            mimeType: 'image/jpeg',
-            data: originalImage,
+// Trying the same garment on the same photo again is answered from the cache,
+// without sending either image.
+export const performVirtualTryOn = async (
+    params: VirtualTryOnParams,
+    cacheOptions?: GenerationCacheOptions,
+    signal?: AbortSignal
+): Promise<GeneratedImage> => {
+    const { personImage, garmentImage, width, height, garmentCategory = 'top' } = params;
+    const { value, cached } = await withGenerationCache(
+        'virtualTryOn',
+        {
+            promptVersion: activePromptVersion('virtualTryOn'),
+            personImage: await hashContent(personImage),
+            garmentImage: await hashContent(garmentImage),
+            width,
+            height,
+            garmentCategory,
         },
-    };
+        cacheSignal => createVirtualTryOn(params, cacheSignal),
+        cacheOptions,
+        signal
+    );
+    return { ...value, cached };
+};
 
-    const newImagePart = {
-        inlineData: {
-            mimeType: 'image/png',
-            data: newImage,
-        },
+// A black-and-white mask of the try-on result: white wherever the new garment
+// is, or the clothing it replaced was. Everything black can be restored from
+// the original photo.
+export const getGarmentMask = async (
+    { personImage, tryOnImage, garmentCategory = 'top' }: GarmentMaskParams,
+    signal?: AbortSignal
+): Promise<string> => {
+    if (isRemoteMode()) {
+        return api.getGarmentMask({ personImage, tryOnImage, garmentCategory }, signal);
+    }
+
+    const category = tryOnCategoryInstructions[garmentCategory];
+
+    const textPart = {
+        text: renderPrompt('garmentMask', { garmentLabel: category.label, replaces: category.replaces }).text,
     };
 
+    try {
+        return await getProvider().editImage({
+            operation: 'garmentMask',
+            model: 'gemini-2.5-flash-image',
+            parts: [toImagePart(personImage, 'image/jpeg'), toImagePart(tryOnImage, 'image/png'), textPart],
+            signal,
+        });
+    } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
+        console.error("Error getting garment mask:", error);
+        throw toServiceError(error, "Could not find the garment in the try-on result.");
+    }
+};
+
+export const getStyleComparison = async (originalImage: string, newImage: string): Promise<GeneratedText> => {
+    if (isRemoteMode()) {
+        return api.getStyleComparison(originalImage, newImage);
+    }
+
+    const prompt = renderPrompt('styleComparison', {});
+
+    const originalImagePart = toImagePart(originalImage, 'image/jpeg');
+
+    const newImagePart = toImagePart(newImage, 'image/png');
+
     const textPart = {
-        text: `As an AI Fashion Stylist, look at these two images. The first is the "Before" photo, and the second is the "After" photo where the user has virtually tried on a new shirt. 
-        
-        Your task is to provide a single, concise, encouraging, and positive sentence comparing the two looks. Focus on how the new shirt enhances their style. For example: "The new shirt adds a vibrant pop of color and gives your outfit a fresh, modern look!"
-        
-        Keep the response to one sentence only. Do not use markdown.
-        `
+        text: prompt.text,
     };
 
     try {
-        const response = await ai.models.generateContent({
+        const text = await getProvider().generateText({
+            operation: 'styleComparison',
             model: 'gemini-2.5-flash',
-            contents: { parts: [textPart, originalImagePart, newImagePart] },
+            parts: [textPart, originalImagePart, newImagePart],
         });
-
-        return response.text.trim();
+        return { text, promptVersions: prompt.promptVersions };
 
     } catch (error) {
         console.error("Error getting style comparison:", error);
-        // Return a generic positive message on error
-        return "The new look really suits you! It's a great choice.";
+        throw toServiceError(error, "Could not compare the two looks.");
     }
 };
\ No newline at end of file
@@ -0,0 +1,192 @@
+import { STORES, runRequest, runTransaction } from '../storage/indexedDb';
+import { abortError } from './pipeline';
+
+// A content-addressed cache for the slow, paid generation calls. A result is
+// stored under a hash of everything it depends on (prompt version, profile,
+// image bytes) and the user it was made for, so asking again with the same
+// inputs costs nothing, and any change in them misses. Results live in
+// IndexedDB up to a size limit, the least recently used going first, and are
+// cleared on sign-out. Identical calls made while one is still running share
+// its request.
+//
+// Without IndexedDB (the backend) or a user nothing is stored, but in-flight
+// calls are still shared. A cache that can't be read or written is skipped.
+
+export const GENERATION_CACHE_MAX_BYTES = (Number(import.meta.env?.VITE_GENERATION_CACHE_MB) || 200) * 1024 * 1024;
+// Larger results are returned but not stored, so one can't empty the cache.
+const MAX_ENTRY_BYTES = GENERATION_CACHE_MAX_BYTES / 4;
+
+export type GenerationCacheKind = 'garmentSpecs' | 'garmentImage' | 'virtualTryOn';
+
+export interface GenerationCacheOptions {
+    // Whose results these are. Try-ons contain the user's photo, so one user's
+    // results are never returned to another.
+    userId?: string;
+    // Generates a fresh result even when one is stored, and stores it instead.
+    regenerate?: boolean;
+}
+
+export interface CachedResult<T> {
+    value: T;
+    // True when the result was stored from an earlier call.
+    cached: boolean;
+}
+
+interface StoredResult {
+    key: string;
+    value: unknown;
+}
+
+// Kept apart from the result so eviction doesn't have to load any images.
+interface StoredEntry {
+    key: string;
+    kind: GenerationCacheKind;
+    // Length of the result as JSON, close enough to its size on disk.
+    size: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+interface InFlight {
+    promise: Promise<CachedResult<unknown>>;
+    controller: AbortController;
+    // Callers still waiting that could cancel; the request is aborted once none are left.
+    waiting: number;
+    regenerate: boolean;
+}
+
+const inFlight = new Map<string, InFlight>();
+// Bumped on every clear, so calls started before it don't store their results after it.
+let cacheEpoch = 0;
+
+const hasStorage = () => typeof indexedDB !== 'undefined';
+
+export const hashContent = async (content: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// JSON with object keys sorted, so equal inputs hash the same however they were built.
+const stableStringify = (value: unknown): string =>
+    JSON.stringify(value, (_, item) => item && typeof item === 'object' && !Array.isArray(item)
+        ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0))
+        : item);
+
+const readStored = async (key: string): Promise<unknown> => {
+    const stored = await runRequest<StoredResult | undefined>(STORES.generationCache, 'readonly', store => store.get(key));
+    if (!stored) return undefined;
+    await runTransaction([STORES.generationCacheEntries], 'readwrite', transaction => {
+        const entries = transaction.objectStore(STORES.generationCacheEntries);
+        const request = entries.get(key);
+        request.onsuccess = () => {
+            if (request.result) entries.put({ ...request.result, lastUsedAt: Date.now() });
+        };
+    });
+    return stored.value;
+};
+
+// Drops the least recently used results until the rest fit the limit.
+const evict = () => runTransaction([STORES.generationCache, STORES.generationCacheEntries], 'readwrite', transaction => {
+    const results = transaction.objectStore(STORES.generationCache);
+    const entries = transaction.objectStore(STORES.generationCacheEntries);
+    let total = 0;
+    entries.index('lastUsedAt').openCursor(null, 'prev').onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const entry = cursor.value as StoredEntry;
+        total += entry.size;
+        if (total > GENERATION_CACHE_MAX_BYTES) {
+            results.delete(entry.key);
+            cursor.delete();
+        }
+        cursor.continue();
+    };
+});
+
+const store = async (key: string, kind: GenerationCacheKind, value: unknown) => {
+    const size = JSON.stringify(value).length;
+    if (size > MAX_ENTRY_BYTES) return;
+    const now = Date.now();
+    const entry: StoredEntry = { key, kind, size, createdAt: now, lastUsedAt: now };
+    await runTransaction([STORES.generationCache, STORES.generationCacheEntries], 'readwrite', transaction => {
+        transaction.objectStore(STORES.generationCache).put({ key, value } satisfies StoredResult);
+        transaction.objectStore(STORES.generationCacheEntries).put(entry);
+    });
+    await evict();
+};
+
+const start = (key: string, kind: GenerationCacheKind, run: (signal: AbortSignal) => Promise<unknown>, regenerate: boolean, persist: boolean): InFlight => {
+    const controller = new AbortController();
+    const epoch = cacheEpoch;
+    const promise = (async (): Promise<CachedResult<unknown>> => {
+        if (!regenerate && persist) {
+            const stored = await readStored(key).catch(error => {
+                console.warn("Could not read the generation cache:", error);
+                return undefined;
+            });
+            if (stored !== undefined) return { value: stored, cached: true };
+        }
+        const value = await run(controller.signal);
+        if (persist && epoch === cacheEpoch) {
+            store(key, kind, value).catch(error => console.warn("Could not write the generation cache:", error));
+        }
+        return { value, cached: false };
+    })();
+    const flight: InFlight = { promise, controller, waiting: 0, regenerate };
+    promise.catch(() => {}).finally(() => {
+        if (inFlight.get(key) === flight) inFlight.delete(key);
+    });
+    return flight;
+};
+
+// Waits for a shared call. Cancelling leaves only this caller's wait; the
+// request itself stops when everyone waiting on it has cancelled.
+const join = <T>(flight: InFlight, signal?: AbortSignal): Promise<CachedResult<T>> => {
+    if (signal?.aborted) return Promise.reject(abortError());
+    flight.waiting++;
+    const promise = flight.promise as Promise<CachedResult<T>>;
+    if (!signal) return promise;
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            reject(abortError());
+            if (--flight.waiting === 0) flight.controller.abort();
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+// Runs `run` unless an equal call is stored or already running. `inputs` must
+// hold everything the result depends on; hash large images with hashContent
+// first. `run` gets a signal that is aborted only when every caller sharing
+// the request has cancelled.
+export const withGenerationCache = async <T>(
+    kind: GenerationCacheKind,
+    inputs: unknown,
+    run: (signal: AbortSignal) => Promise<T>,
+    { userId, regenerate = false }: GenerationCacheOptions = {},
+    signal?: AbortSignal
+): Promise<CachedResult<T>> => {
+    const key = `${kind}:${await hashContent(stableStringify({ userId: userId ?? null, inputs }))}`;
+    // Nothing is started for a caller that has already cancelled.
+    if (signal?.aborted) throw abortError();
+    let flight = inFlight.get(key);
+    // A regenerate can't share a call that may be answered from the cache.
+    if (!flight || flight.controller.signal.aborted || (regenerate && !flight.regenerate)) {
+        flight = start(key, kind, run, regenerate, userId !== undefined && hasStorage());
+        inFlight.set(key, flight);
+    }
+    return join<T>(flight, signal);
+};
+
+// Forgets every stored result, for when the user signs out. Calls still
+// running finish, but their results are neither stored nor shared.
+export const clearGenerationCache = async (): Promise<void> => {
+    cacheEpoch++;
+    inFlight.clear();
+    if (!hasStorage()) return;
+    await runTransaction([STORES.generationCache, STORES.generationCacheEntries], 'readwrite', transaction => {
+        transaction.objectStore(STORES.generationCache).clear();
+        transaction.objectStore(STORES.generationCacheEntries).clear();
+    });
+};
@@ -0,0 +1,122 @@
+import { ApiError } from '../apiErrors';
+import { classifyError, TimeoutError } from '../serviceErrors';
+
+// Building blocks for running several model requests at once: a concurrency
+// cap, per-attempt timeouts, retries with backoff on rate limits, and
+// cancellation through an AbortSignal.
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    timeoutMs: number;
+    // Extra attempts after the first, only for rate-limit errors.
+    retries: number;
+    baseDelayMs: number;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof Error && error.name === 'AbortError';
+
+export const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+export const isRateLimitError = (error: unknown): boolean => {
+    if (error instanceof ApiError && error.code === 'RATE_LIMITED') {
+        return true;
+    }
+    return classifyError(error) === 'QUOTA_EXCEEDED';
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(abortError());
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with its own signal, aborted when the caller cancels or
+// the attempt runs past `timeoutMs`.
+const runAttempt = async <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new TimeoutError(`The request timed out after ${Math.round(timeoutMs / 1000)} seconds.`));
+        }, timeoutMs);
+    });
+    const cancelled = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => {
+            if (signal?.aborted) reject(abortError());
+        }, { once: true });
+    });
+
+    try {
+        return await Promise.race([task(controller.signal), timeout, cancelled]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+export const runWithRetry = async <T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    { signal, timeoutMs, retries, baseDelayMs }: RetryOptions
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) {
+            throw abortError();
+        }
+        try {
+            return await runAttempt(task, timeoutMs, signal);
+        } catch (error) {
+            if (isAbortError(error) || !isRateLimitError(error) || attempt >= retries) {
+                throw error;
+            }
+            // Honour the server's Retry-After when it sent one.
+            const retryAfterMs = error instanceof ApiError && error.retryAfterSeconds !== undefined
+                ? error.retryAfterSeconds * 1000
+                : baseDelayMs * 2 ** attempt;
+            console.warn(`Rate limited; retrying in ${Math.round(retryAfterMs / 1000)}s.`, error);
+            await wait(retryAfterMs + Math.random() * baseDelayMs * 0.25, signal);
+        }
+    }
+};
+
+// Queues tasks so that at most `max` run at the same time.
+export const createConcurrencyLimit = (max: number) => {
+    let active = 0;
+    const queue: (() => void)[] = [];
+
+    // A finished task hands its slot straight to the next queued one.
+    const release = () => {
+        const next = queue.shift();
+        if (next) {
+            next();
+        } else {
+            active--;
+        }
+    };
+
+    return async <T>(task: () => Promise<T>): Promise<T> => {
+        if (active >= max) {
+            await new Promise<void>(resolve => queue.push(resolve));
+        } else {
+            active++;
+        }
+        try {
+            return await task();
+        } finally {
+            release();
+        }
+    };
+};
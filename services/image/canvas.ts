@@ -0,0 +1,135 @@
+import type { BoundingBox } from '../../types';
+import { InvalidImageError } from '../serviceErrors';
+
+export interface EncodedImage {
+    base64: string;
+    width: number;
+    height: number;
+}
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new InvalidImageError("Could not read the image. Please try a different file."));
+        img.src = src;
+    });
+};
+
+export const canvasToBase64 = (canvas: HTMLCanvasElement, mimeType = 'image/png', quality?: number): string =>
+    canvas.toDataURL(mimeType, quality).split(',')[1];
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    if (!canvas.getContext('2d')) {
+        throw new Error("Could not process the image in this browser.");
+    }
+    return canvas;
+};
+
+export const drawToCanvas = (
+    source: CanvasImageSource,
+    sx: number, sy: number, sw: number, sh: number,
+    width: number, height: number,
+    background?: string
+): HTMLCanvasElement => {
+    const canvas = createCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    if (background) {
+        context.fillStyle = background;
+        context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+    return canvas;
+};
+
+export interface DecodedImage {
+    source: CanvasImageSource;
+    width: number;
+    height: number;
+}
+
+// Decodes an image file upright, applying its EXIF orientation. Formats the
+// browser can't decode, such as HEIC outside Safari, are rejected.
+export const decodeImage = async (file: Blob): Promise<DecodedImage> => {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+            return { source: bitmap, width: bitmap.width, height: bitmap.height };
+        } catch {
+            // Fall back to an <img>, which browsers also draw upright.
+        }
+    }
+    const url = URL.createObjectURL(file);
+    try {
+        const img = await loadImage(url);
+        return { source: img, width: img.naturalWidth, height: img.naturalHeight };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+// Re-encodes any browser-decodable image file as PNG, shrunk so its longest
+// side fits `maxDimension`.
+export const fileToPngBase64 = async (file: Blob, maxDimension = Infinity): Promise<EncodedImage> => {
+    const decoded = await decodeImage(file);
+    const scale = Math.min(1, maxDimension / Math.max(decoded.width, decoded.height));
+    const width = Math.max(1, Math.round(decoded.width * scale));
+    const height = Math.max(1, Math.round(decoded.height * scale));
+    const canvas = drawToCanvas(decoded.source, 0, 0, decoded.width, decoded.height, width, height);
+    return { base64: canvasToBase64(canvas), width, height };
+};
+
+// Shrinks an image so its longest side fits `maxDimension` and re-encodes it
+// as JPEG on white, for uploads that don't need full resolution.
+export const toJpegWithin = async (src: string, maxDimension: number): Promise<EncodedImage> => {
+    const img = await loadImage(src);
+    const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const canvas = drawToCanvas(img, 0, 0, img.naturalWidth, img.naturalHeight, width, height, '#ffffff');
+    return { base64: canvasToBase64(canvas, 'image/jpeg', 0.9), width, height };
+};
+
+export interface GrayscaleImage {
+    // Luminance 0-255, row by row.
+    pixels: Float32Array;
+    width: number;
+    height: number;
+}
+
+// Reads an image's luminance, shrunk so its longest side fits `maxDimension`.
+export const readGrayscale = async (src: string, maxDimension: number): Promise<GrayscaleImage> => {
+    const img = await loadImage(src);
+    const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const canvas = drawToCanvas(img, 0, 0, img.naturalWidth, img.naturalHeight, width, height);
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, width, height);
+
+    const pixels = new Float32Array(width * height);
+    for (let i = 0; i < pixels.length; i++) {
+        pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return { pixels, width, height };
+};
+
+// Crops a base64 PNG to a normalized box, grown by `padding` on each side so
+// the garment edges aren't clipped.
+export const cropPng = async (base64: string, box: BoundingBox, padding = 0.04): Promise<EncodedImage> => {
+    const img = await loadImage(`data:image/png;base64,${base64}`);
+    const left = Math.max(0, box.x - padding);
+    const top = Math.max(0, box.y - padding);
+    const right = Math.min(1, box.x + box.width + padding);
+    const bottom = Math.min(1, box.y + box.height + padding);
+
+    const sx = Math.round(left * img.naturalWidth);
+    const sy = Math.round(top * img.naturalHeight);
+    const sw = Math.max(1, Math.round((right - left) * img.naturalWidth));
+    const sh = Math.max(1, Math.round((bottom - top) * img.naturalHeight));
+
+    const canvas = drawToCanvas(img, sx, sy, sw, sh, sw, sh);
+    return { base64: canvasToBase64(canvas), width: sw, height: sh };
+};
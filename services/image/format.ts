@@ -0,0 +1,130 @@
+// Reads image formats and metadata straight from the bytes. Pure functions,
+// so both the browser and the backend can use them.
+
+// Header bytes are enough to tell the formats apart.
+const HEADER_CHARS = 64;
+// EXIF data sits at the start of the file, so a prefix of the base64 is enough.
+const EXIF_SCAN_CHARS = 128 * 1024;
+
+const decodePrefix = (base64: string, chars: number): Uint8Array | null => {
+    try {
+        return Uint8Array.from(atob(base64.slice(0, chars)), c => c.charCodeAt(0));
+    } catch {
+        return null;
+    }
+};
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+// The real type of an image, whatever its file name or data URL claims.
+// Returns null for anything that isn't a recognised image.
+export const detectMimeType = (base64: string): string | null => {
+    const bytes = decodePrefix(base64, HEADER_CHARS);
+    if (!bytes || bytes.length < 12) {
+        return null;
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') {
+        return 'image/png';
+    }
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (ascii(bytes, 0, 4) === 'GIF8') {
+        return 'image/gif';
+    }
+    if (ascii(bytes, 4, 8) === 'ftyp') {
+        const brand = ascii(bytes, 8, 12);
+        if (brand === 'avif' || brand === 'avis') {
+            return 'image/avif';
+        }
+        if (['heic', 'heix', 'hevc', 'heim', 'heis'].includes(brand)) {
+            return 'image/heic';
+        }
+        if (['mif1', 'msf1'].includes(brand)) {
+            return 'image/heif';
+        }
+    }
+    return null;
+};
+
+// Reads the EXIF orientation (1-8) from a base64 JPEG. 1 means upright, and is
+// also returned for other formats or files without the tag.
+export const readExifOrientation = (base64: string): number => {
+    const bytes = decodePrefix(base64, EXIF_SCAN_CHARS);
+    if (!bytes || bytes.length < 4) {
+        return 1;
+    }
+    const view = new DataView(bytes.buffer);
+    if (view.getUint16(0) !== 0xffd8) {
+        return 1;
+    }
+
+    for (let offset = 2; offset + 4 <= bytes.length;) {
+        const marker = view.getUint16(offset);
+        const size = view.getUint16(offset + 2);
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+            break;
+        }
+        const isExif = marker === 0xffe1 && offset + 10 <= bytes.length && view.getUint32(offset + 4) === 0x45786966;
+        if (isExif) {
+            // The segment may be cut short; every read below is bounds-checked.
+            const tiff = offset + 10;
+            if (tiff + 8 > bytes.length) {
+                return 1;
+            }
+            const little = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            const entries = ifd + 2 <= bytes.length ? view.getUint16(ifd, little) : 0;
+            for (let i = 0; i < entries && ifd + 2 + (i + 1) * 12 <= bytes.length; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    return view.getUint16(entry + 8, little);
+                }
+            }
+            return 1;
+        }
+        offset += 2 + size;
+    }
+    return 1;
+};
+
+// Reads the pixel size a base64 JPEG is stored at, before any EXIF rotation,
+// from its start-of-frame segment. Null for other formats, or when the frame
+// header lies past the scanned prefix.
+export const readJpegSize = (base64: string): { width: number; height: number } | null => {
+    const bytes = decodePrefix(base64, EXIF_SCAN_CHARS);
+    if (!bytes || bytes.length < 4) {
+        return null;
+    }
+    const view = new DataView(bytes.buffer);
+    if (view.getUint16(0) !== 0xffd8) {
+        return null;
+    }
+
+    for (let offset = 2; offset + 4 <= bytes.length;) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+            break;
+        }
+        // SOF0-SOF15, less the DHT, JPG and DAC markers that share the range.
+        const isFrame = marker >= 0xffc0 && marker <= 0xffcf && ![0xffc4, 0xffc8, 0xffcc].includes(marker);
+        if (isFrame && offset + 9 <= bytes.length) {
+            return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+};
+
+// Reads the pixel size from a base64 PNG's IHDR chunk; null for other formats.
+export const readPngSize = (base64: string): { width: number; height: number } | null => {
+    const bytes = decodePrefix(base64, HEADER_CHARS);
+    if (!bytes || bytes.length < 24 || ascii(bytes, 0, 8) !== '\x89PNG\r\n\x1a\n') {
+        return null;
+    }
+    const view = new DataView(bytes.buffer);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+};
@@ -0,0 +1,91 @@
+import { InvalidImageError } from '../serviceErrors';
+import { canvasToBase64, decodeImage, drawToCanvas } from './canvas';
+import { detectMimeType, readExifOrientation, readJpegSize } from './format';
+
+// Prepares photos for upload: decodes any format the browser can read, turns
+// it upright, shrinks it and compresses it as JPEG. The upright size of the
+// original is kept alongside, since prompts ask for output at that size.
+
+export const IMAGE_MAX_DIMENSION = Number(import.meta.env?.VITE_IMAGE_MAX_DIMENSION) || 1536;
+const JPEG_QUALITY = 0.85;
+
+export interface NormalizeOptions {
+    maxDimension?: number;
+    quality?: number;
+}
+
+export interface NormalizedImage {
+    base64: string;
+    mimeType: string;
+    // Size of `base64`.
+    width: number;
+    height: number;
+    // Upright size of the original photo.
+    originalWidth: number;
+    originalHeight: number;
+    // EXIF orientation of the original file; 1 when it was already upright.
+    orientation: number;
+    // False when the file asks for a quarter turn that the browser didn't make
+    // while decoding it, so the photo is likely on its side.
+    orientationApplied: boolean;
+}
+
+const readAsBase64 = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+// Orientations 5-8 turn the photo a quarter, swapping its stored width and
+// height. Flips and half turns keep the size, so they can't be told apart.
+const isOrientationApplied = (original: string, orientation: number, width: number, height: number): boolean => {
+    const stored = readJpegSize(original);
+    if (orientation < 5 || orientation > 8 || !stored || stored.width === stored.height) {
+        return true;
+    }
+    return stored.width === height && stored.height === width;
+};
+
+export const normalizeImage = async (
+    file: Blob,
+    { maxDimension = IMAGE_MAX_DIMENSION, quality = JPEG_QUALITY }: NormalizeOptions = {}
+): Promise<NormalizedImage> => {
+    const original = await readAsBase64(file);
+    const sourceType = detectMimeType(original);
+    if (!sourceType) {
+        throw new InvalidImageError("That file is not a supported image. Please choose a JPEG, PNG, WebP or HEIC photo.");
+    }
+
+    let decoded;
+    try {
+        decoded = await decodeImage(file);
+    } catch (error) {
+        if (sourceType === 'image/heic' || sourceType === 'image/heif') {
+            throw new InvalidImageError("This browser can't open HEIC photos. Please export the photo as JPEG, or set your camera to \"Most Compatible\".", { cause: error });
+        }
+        throw error;
+    }
+
+    const { source, width: originalWidth, height: originalHeight } = decoded;
+    const scale = Math.min(1, maxDimension / Math.max(originalWidth, originalHeight));
+    const width = Math.max(1, Math.round(originalWidth * scale));
+    const height = Math.max(1, Math.round(originalHeight * scale));
+    // Transparent areas become white rather than black in the JPEG.
+    const canvas = drawToCanvas(source, 0, 0, originalWidth, originalHeight, width, height, '#ffffff');
+    const orientation = readExifOrientation(original);
+
+    return {
+        base64: canvasToBase64(canvas, 'image/jpeg', quality),
+        mimeType: 'image/jpeg',
+        width,
+        height,
+        originalWidth,
+        originalHeight,
+        orientation,
+        orientationApplied: isOrientationApplied(original, orientation, originalWidth, originalHeight),
+    };
+};
+
+export const toDataUrl = ({ base64, mimeType }: { base64: string; mimeType: string }): string =>
+    `data:${mimeType};base64,${base64}`;
@@ -0,0 +1,158 @@
+import type { PersonPhotoAnalysis } from '../../types';
+import { analyzePersonPhoto } from '../geminiService';
+import { readGrayscale } from './canvas';
+import type { GrayscaleImage } from './canvas';
+
+// Pre-flight checks for the person photo, run before any try-on credits are
+// spent. Pixel checks run in the browser; who is in the photo and how much of
+// them shows is asked of the model, and only once the pixels pass.
+
+export type PhotoCheckStatus = 'pass' | 'warn' | 'block';
+
+export interface PhotoCheck {
+    id: 'resolution' | 'sharpness' | 'exposure' | 'orientation' | 'people' | 'body';
+    status: PhotoCheckStatus;
+    message: string;
+}
+
+export interface PersonPhoto {
+    src: string;
+    base64: string;
+    width: number;
+    height: number;
+    // EXIF orientation of the original file, and whether it could be applied
+    // to `base64`.
+    orientation: number;
+    orientationApplied: boolean;
+}
+
+export interface PhotoCheckResult {
+    checks: PhotoCheck[];
+    // The model's view of the photo; null when it wasn't asked or couldn't answer.
+    analysis: PersonPhotoAnalysis | null;
+}
+
+const ANALYSIS_MAX_DIMENSION = 512;
+const MIN_SHORT_SIDE = 256;
+const GOOD_SHORT_SIDE = 512;
+// Variance of the Laplacian at ANALYSIS_MAX_DIMENSION; lower is blurrier.
+const BLURRY_VARIANCE = 15;
+const SOFT_VARIANCE = 50;
+const DARK_MEAN = 20;
+const DIM_MEAN = 50;
+const BRIGHT_MEAN = 215;
+const CLIPPED_SHARE = 0.35;
+
+const laplacianVariance = ({ pixels, width, height }: GrayscaleImage): number => {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const value = pixels[i - 1] + pixels[i + 1] + pixels[i - width] + pixels[i + width] - 4 * pixels[i];
+            sum += value;
+            sumSquares += value * value;
+            count++;
+        }
+    }
+    return count > 0 ? sumSquares / count - (sum / count) ** 2 : 0;
+};
+
+const checkResolution = (width: number, height: number): PhotoCheck => {
+    const shortSide = Math.min(width, height);
+    if (shortSide < MIN_SHORT_SIDE) {
+        return { id: 'resolution', status: 'block', message: `This photo is too small: its shorter side is ${shortSide} pixels. Please use one at least ${MIN_SHORT_SIDE} pixels on its shorter side.` };
+    }
+    if (shortSide < GOOD_SHORT_SIDE) {
+        return { id: 'resolution', status: 'warn', message: 'This photo is low resolution, so the try-on may look soft.' };
+    }
+    return { id: 'resolution', status: 'pass', message: 'Resolution looks good.' };
+};
+
+const checkSharpness = (image: GrayscaleImage): PhotoCheck => {
+    const variance = laplacianVariance(image);
+    if (variance < BLURRY_VARIANCE) {
+        return { id: 'sharpness', status: 'block', message: 'This photo is too blurry. Hold the camera still or tap to focus, then take it again.' };
+    }
+    if (variance < SOFT_VARIANCE) {
+        return { id: 'sharpness', status: 'warn', message: 'This photo looks a little blurry. A sharper photo gives a more realistic try-on.' };
+    }
+    return { id: 'sharpness', status: 'pass', message: 'Photo is in focus.' };
+};
+
+const checkExposure = ({ pixels }: GrayscaleImage): PhotoCheck => {
+    let sum = 0;
+    let dark = 0;
+    let bright = 0;
+    for (const value of pixels) {
+        sum += value;
+        if (value < 16) dark++;
+        if (value > 240) bright++;
+    }
+    const mean = sum / pixels.length;
+    if (mean < DARK_MEAN) {
+        return { id: 'exposure', status: 'block', message: 'This photo is too dark to use. Turn on a light or face a window and try again.' };
+    }
+    if (mean < DIM_MEAN || dark / pixels.length > CLIPPED_SHARE) {
+        return { id: 'exposure', status: 'warn', message: 'This photo is quite dark. Face a window or turn on a light for truer colors.' };
+    }
+    if (mean > BRIGHT_MEAN || bright / pixels.length > CLIPPED_SHARE) {
+        return { id: 'exposure', status: 'warn', message: 'This photo is overexposed. Move out of direct light so details are not washed out.' };
+    }
+    return { id: 'exposure', status: 'pass', message: 'Lighting looks good.' };
+};
+
+const checkOrientation = (orientation: number, orientationApplied: boolean): PhotoCheck => {
+    if (!orientationApplied) {
+        return { id: 'orientation', status: 'warn', message: "This photo may be on its side: your browser couldn't apply the camera's rotation data. Turn it upright in your photo app and upload it again." };
+    }
+    if (orientation !== 1) {
+        return { id: 'orientation', status: 'pass', message: "Turned upright using your camera's rotation data." };
+    }
+    return { id: 'orientation', status: 'pass', message: 'Photo is upright.' };
+};
+
+const toPersonChecks = ({ personCount, bodyVisibility, issue }: PersonPhotoAnalysis): PhotoCheck[] => {
+    if (personCount === 0 || bodyVisibility === 'none') {
+        return [{ id: 'people', status: 'block', message: "We couldn't find a person in this photo. Please upload a photo of yourself." }];
+    }
+    if (personCount > 1) {
+        return [{ id: 'people', status: 'block', message: `We found ${personCount} people in this photo. Please use one with only you in it.` }];
+    }
+
+    const people: PhotoCheck = { id: 'people', status: 'pass', message: 'One person found.' };
+    if (bodyVisibility === 'partial' || issue) {
+        return [people, { id: 'body', status: 'warn', message: issue ?? 'Step back so your torso is visible.' }];
+    }
+    return [people, bodyVisibility === 'upper'
+        ? { id: 'body', status: 'pass', message: 'Upper body visible. Step back for a full-body photo to try on bottoms, dresses or shoes.' }
+        : { id: 'body', status: 'pass', message: 'Full body visible.' }];
+};
+
+export const hasBlockingCheck = (checks: PhotoCheck[]): boolean => checks.some(check => check.status === 'block');
+
+export const checkPersonPhoto = async ({ src, base64, width, height, orientation, orientationApplied }: PersonPhoto): Promise<PhotoCheckResult> => {
+    const image = await readGrayscale(src, ANALYSIS_MAX_DIMENSION);
+    const checks = [
+        checkResolution(width, height),
+        checkSharpness(image),
+        checkExposure(image),
+        checkOrientation(orientation, orientationApplied),
+    ];
+    if (hasBlockingCheck(checks)) {
+        return { checks, analysis: null };
+    }
+
+    try {
+        const analysis = await analyzePersonPhoto(base64);
+        return { checks: [...checks, ...toPersonChecks(analysis)], analysis };
+    } catch (error) {
+        // The model check only ever advises, so a failure here doesn't hold the photo back.
+        console.warn("Could not analyze who is in the photo:", error);
+        return {
+            checks: [...checks, { id: 'people', status: 'warn', message: "We couldn't check who is in this photo. Make sure it shows only you, from at least the waist up." }],
+            analysis: null,
+        };
+    }
+};
@@ -0,0 +1,219 @@
+import type { BoundingBox } from '../../types';
+import { canvasToBase64, createCanvas, drawToCanvas, loadImage } from './canvas';
+
+// Post-processing for try-on results. The model is asked for an image the size
+// of the original person photo but doesn't always deliver one, and may redraw
+// the face or background. Results are fitted to the photo that was sent,
+// optionally have everything outside the garment restored from it, and are
+// scored for how much the person and background changed. Only downloads are
+// scaled back up to the original size.
+
+export type TryOnResize = 'none' | 'scaled' | 'letterboxed';
+
+// Parts of the photo that changed more than a faithful redraw would.
+export type TryOnAlteration = 'face' | 'background';
+
+export interface TryOnDrift {
+    // Mean color change over the face, 0 (identical) to 1; null without a face box.
+    identity: number | null;
+    // Mean color change over the background, 0 to 1.
+    background: number;
+}
+
+// How a processed result compares with the photo it was made from.
+export interface TryOnReview {
+    resize: TryOnResize;
+    composited: boolean;
+    drift: TryOnDrift;
+    alterations: TryOnAlteration[];
+}
+
+export interface TryOnOutput {
+    // Base64 PNG at the size of the photo that was sent, so it can be sent on
+    // as the photo for the next layer.
+    image: string;
+    review: TryOnReview;
+}
+
+export interface TryOnOutputParams {
+    // The person photo the try-on was sent, at the size it was sent.
+    original: string;
+    // Size the try-on prompt asked for: the original photo's, which
+    // `original` may be a downscale of.
+    width: number;
+    height: number;
+    // Base64 PNG returned by the model.
+    result: string;
+    // Base64 black-and-white mask, white over the garment. When given, all
+    // other pixels are restored from the original.
+    mask?: string | null;
+    faceBox?: BoundingBox | null;
+}
+
+// Results whose aspect ratio is this close are stretched; others are letterboxed.
+const ASPECT_TOLERANCE = 0.02;
+// Masks are worked on at this size; drawing them up to full size feathers the edges.
+const MASK_MAX_DIMENSION = 256;
+// Grows the mask so fabric edges and shadows stay with the garment.
+const MASK_DILATION = 2;
+// Below this mask value a pixel counts as background when scoring.
+const MASK_THRESHOLD = 0.1;
+const DRIFT_MAX_DIMENSION = 256;
+// Without a mask, the left, right and top edges are taken as background; clothing
+// usually runs off the bottom.
+const BACKGROUND_BAND = 0.1;
+const IDENTITY_DRIFT_LIMIT = 0.1;
+const BACKGROUND_DRIFT_LIMIT = 0.12;
+
+const scaleWithin = (width: number, height: number, maxDimension: number) => {
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const fitMode = (img: HTMLImageElement, width: number, height: number): TryOnResize => {
+    if (img.naturalWidth === width && img.naturalHeight === height) {
+        return 'none';
+    }
+    const aspectRatio = (img.naturalWidth / img.naturalHeight) / (width / height);
+    return Math.abs(aspectRatio - 1) <= ASPECT_TOLERANCE ? 'scaled' : 'letterboxed';
+};
+
+// Draws `img` at width × height: stretched, or letterboxed by the aspect ratio
+// of `frame` (the model's output) with the bars left transparent.
+const fitToCanvas = (img: CanvasImageSource, frame: { width: number; height: number }, width: number, height: number, mode: TryOnResize): HTMLCanvasElement => {
+    const canvas = createCanvas(width, height);
+    if (mode === 'letterboxed') {
+        const scale = Math.min(width / frame.width, height / frame.height);
+        const drawWidth = Math.round(frame.width * scale);
+        const drawHeight = Math.round(frame.height * scale);
+        canvas.getContext('2d')!.drawImage(img, Math.round((width - drawWidth) / 2), Math.round((height - drawHeight) / 2), drawWidth, drawHeight);
+    } else {
+        canvas.getContext('2d')!.drawImage(img, 0, 0, width, height);
+    }
+    return canvas;
+};
+
+// Turns a black-and-white mask into an alpha mask at MASK_MAX_DIMENSION,
+// thresholded and grown by MASK_DILATION pixels.
+const toAlphaMask = (mask: HTMLImageElement): HTMLCanvasElement => {
+    const { width, height } = scaleWithin(mask.naturalWidth, mask.naturalHeight, MASK_MAX_DIMENSION);
+    const canvas = drawToCanvas(mask, 0, 0, mask.naturalWidth, mask.naturalHeight, width, height);
+    const context = canvas.getContext('2d')!;
+    const imageData = context.getImageData(0, 0, width, height);
+    const { data } = imageData;
+
+    const isGarment = new Uint8Array(width * height);
+    for (let i = 0; i < isGarment.length; i++) {
+        isGarment[i] = data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2] > 3 * 128 ? 1 : 0;
+    }
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let covered = 0;
+            for (let dy = -MASK_DILATION; dy <= MASK_DILATION && !covered; dy++) {
+                for (let dx = -MASK_DILATION; dx <= MASK_DILATION && !covered; dx++) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    covered = nx >= 0 && ny >= 0 && nx < width && ny < height ? isGarment[ny * width + nx] : 0;
+                }
+            }
+            const i = (y * width + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = 0;
+            data[i + 3] = covered ? 255 : 0;
+        }
+    }
+    context.putImageData(imageData, 0, 0);
+    return canvas;
+};
+
+const readRgba = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, width: number, height: number): Uint8ClampedArray =>
+    drawToCanvas(source, 0, 0, sourceWidth, sourceHeight, width, height).getContext('2d')!.getImageData(0, 0, width, height).data;
+
+const isInBox = (x: number, y: number, box: BoundingBox) =>
+    x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height;
+
+// Scores how much `output` differs from `original` over the face and the
+// background, at DRIFT_MAX_DIMENSION. Masked pixels are the garment and never count.
+const measureDrift = (original: HTMLCanvasElement, output: HTMLCanvasElement, alphaMask: HTMLCanvasElement | null, faceBox: BoundingBox | null): TryOnDrift => {
+    const { width, height } = scaleWithin(original.width, original.height, DRIFT_MAX_DIMENSION);
+    const before = readRgba(original, original.width, original.height, width, height);
+    const after = readRgba(output, output.width, output.height, width, height);
+    const mask = alphaMask ? readRgba(alphaMask, alphaMask.width, alphaMask.height, width, height) : null;
+
+    let faceSum = 0, faceCount = 0, backgroundSum = 0, backgroundCount = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            if (mask && mask[i + 3] / 255 >= MASK_THRESHOLD) {
+                continue;
+            }
+            const diff = (Math.abs(before[i] - after[i]) + Math.abs(before[i + 1] - after[i + 1]) + Math.abs(before[i + 2] - after[i + 2])) / (3 * 255);
+            const fx = (x + 0.5) / width;
+            const fy = (y + 0.5) / height;
+            if (faceBox && isInBox(fx, fy, faceBox)) {
+                faceSum += diff;
+                faceCount++;
+            } else if (mask || fx < BACKGROUND_BAND || fx > 1 - BACKGROUND_BAND || fy < BACKGROUND_BAND) {
+                backgroundSum += diff;
+                backgroundCount++;
+            }
+        }
+    }
+    return {
+        identity: faceCount > 0 ? faceSum / faceCount : null,
+        background: backgroundCount > 0 ? backgroundSum / backgroundCount : 0,
+    };
+};
+
+export const processTryOnOutput = async ({ original, width, height, result, mask, faceBox = null }: TryOnOutputParams): Promise<TryOnOutput> => {
+    const [originalImg, resultImg, maskImg] = await Promise.all([
+        loadImage(original),
+        loadImage(`data:image/png;base64,${result}`),
+        mask ? loadImage(`data:image/png;base64,${mask}`) : null,
+    ]);
+    const frame = { width: resultImg.naturalWidth, height: resultImg.naturalHeight };
+    // Judged against the requested size, but drawn at the sent photo's size,
+    // which has the same shape.
+    const resize = fitMode(resultImg, width, height);
+    const sent = { width: originalImg.naturalWidth, height: originalImg.naturalHeight };
+    const isSentSize = frame.width === sent.width && frame.height === sent.height;
+
+    const originalCanvas = drawToCanvas(originalImg, 0, 0, sent.width, sent.height, sent.width, sent.height);
+    const fitted = fitToCanvas(resultImg, frame, sent.width, sent.height, resize);
+    // The mask outlines the model's output, so it is fitted the same way.
+    const alphaMask = maskImg ? fitToCanvas(toAlphaMask(maskImg), frame, sent.width, sent.height, resize) : null;
+
+    let output: HTMLCanvasElement;
+    if (alphaMask) {
+        const context = fitted.getContext('2d')!;
+        context.globalCompositeOperation = 'destination-in';
+        context.drawImage(alphaMask, 0, 0);
+        output = drawToCanvas(originalCanvas, 0, 0, sent.width, sent.height, sent.width, sent.height);
+        output.getContext('2d')!.drawImage(fitted, 0, 0);
+    } else {
+        // Letterbox bars are black rather than see-through.
+        output = drawToCanvas(fitted, 0, 0, sent.width, sent.height, sent.width, sent.height, '#000000');
+    }
+
+    const drift = measureDrift(originalCanvas, output, alphaMask, faceBox);
+    return {
+        image: isSentSize && !alphaMask ? result : canvasToBase64(output),
+        review: {
+            resize,
+            composited: alphaMask !== null,
+            drift,
+            alterations: [
+                ...((drift.identity ?? 0) > IDENTITY_DRIFT_LIMIT ? ['face' as const] : []),
+                ...(drift.background > BACKGROUND_DRIFT_LIMIT ? ['background' as const] : []),
+            ],
+        },
+    };
+};
+
+// Scales a processed result up to the original photo's size, for download.
+export const toOriginalSize = async (image: string, width: number, height: number): Promise<string> => {
+    const img = await loadImage(`data:image/png;base64,${image}`);
+    if (img.naturalWidth === width && img.naturalHeight === height) {
+        return image;
+    }
+    return canvasToBase64(drawToCanvas(img, 0, 0, img.naturalWidth, img.naturalHeight, width, height));
+};
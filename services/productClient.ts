@@ -0,0 +1,39 @@
+import type { GarmentCategory, Product, ProductFeedFormat, ProductImportResult, ProductMatch, ProductPrice, RecommendationItem, StylePresentation } from '../types';
+import type { InlineImage } from './providers/types';
+import { postJson } from './apiClient';
+
+// Store pages and feeds are fetched by the server: browsers can't read other
+// sites' pages, and the server keeps private-network links out of reach.
+
+export const importProductsFromUrl = (url: string): Promise<ProductImportResult> =>
+    postJson<ProductImportResult>('/api/products/import', { url });
+
+export const importProductFeed = (text: string, format: ProductFeedFormat): Promise<ProductImportResult> =>
+    postJson<ProductImportResult>('/api/products/feed', { text, format });
+
+// Returns the product's main image as a Blob so it can go through the same
+// checks as an uploaded garment photo.
+export const fetchProductImage = async (product: Product): Promise<Blob> => {
+    const { image } = await postJson<{ image: InlineImage }>('/api/products/image', { url: product.imageUrl });
+    const bytes = Uint8Array.from(atob(image.data), c => c.charCodeAt(0));
+    return new Blob([bytes], { type: image.mimeType });
+};
+
+// Ranks products from the server's local catalog against a recommended garment.
+export const matchProducts = async (params: {
+    item: RecommendationItem;
+    image: string;
+    category: GarmentCategory;
+    presentation: StylePresentation | null;
+}): Promise<ProductMatch[]> => {
+    const { matches } = await postJson<{ matches: ProductMatch[] }>('/api/products/match', params);
+    return matches;
+};
+
+export const formatPrice = ({ amount, currency }: ProductPrice): string => {
+    try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    } catch {
+        return `${amount.toFixed(2)} ${currency}`;
+    }
+};
@@ -0,0 +1,116 @@
+import type { PromptVersions } from '../../types';
+import { PROMPT_TEMPLATES } from './templates';
+
+// Named, versioned prompt templates. Templates are plain text with {{name}}
+// placeholders; lists and optional lines arrive already formatted, so the
+// wording can change without touching the code that fills it in.
+
+// What each prompt is filled with.
+export interface PromptVariables {
+    suggestPresentation: Record<string, never>;
+    garmentSpecs: {
+        count: number;
+        presentationLabel: string;
+        presentationGuidance: string;
+        unit: string;
+        garmentType: string;
+        // One "- " line per profile field, already indented.
+        profileLines: string;
+        fabrics: string;
+        // One numbered line per variation, already indented.
+        directions: string;
+    };
+    garmentImage: {
+        unit: string;
+        unitCaps: string;
+        presentationLabel: string;
+        itemName: string;
+        description: string;
+        style: string;
+        occasion: string;
+        fit: string;
+        colors: string;
+        fabric: string;
+        cut: string;
+        // A whole rule line ending in a newline, or empty.
+        modestyRule: string;
+        layout: string;
+        exclude: string;
+    };
+    virtualTryOn: {
+        width: number;
+        height: number;
+        garmentLabel: string;
+        directive: string;
+        replaces: string;
+    };
+    styleComparison: Record<string, never>;
+    personAnalysis: Record<string, never>;
+    garmentAnalysis: Record<string, never>;
+    garmentBackgroundRemoval: Record<string, never>;
+    garmentMask: {
+        garmentLabel: string;
+        replaces: string;
+    };
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface PromptTemplate {
+    version: number;
+    // What this version changes, for whoever compares it with the others.
+    notes: string;
+    text: string;
+}
+
+export interface PromptDefinition {
+    // The version the app uses unless told otherwise.
+    active: number;
+    versions: PromptTemplate[];
+}
+
+export interface RenderedPrompt {
+    text: string;
+    promptVersions: PromptVersions;
+}
+
+export const PROMPT_IDS = Object.keys(PROMPT_TEMPLATES) as PromptId[];
+
+// Set by evaluation scripts to run another version without editing templates.ts.
+const versionOverrides: Partial<Record<PromptId, number>> = {};
+
+export const getPromptTemplate = (id: PromptId, version: number): PromptTemplate => {
+    const template = PROMPT_TEMPLATES[id].versions.find(entry => entry.version === version);
+    if (!template) {
+        throw new Error(`Prompt "${id}" has no version ${version}.`);
+    }
+    return template;
+};
+
+export const activePromptVersion = (id: PromptId): number =>
+    versionOverrides[id] ?? PROMPT_TEMPLATES[id].active;
+
+// Pass null to go back to the version templates.ts marks active.
+export const setPromptVersion = (id: PromptId, version: number | null) => {
+    if (version === null) {
+        delete versionOverrides[id];
+        return;
+    }
+    getPromptTemplate(id, version);
+    versionOverrides[id] = version;
+};
+
+export const renderPrompt = <Id extends PromptId>(
+    id: Id,
+    variables: PromptVariables[Id],
+    version: number = activePromptVersion(id)
+): RenderedPrompt => {
+    const values = variables as Record<string, string | number>;
+    const text = getPromptTemplate(id, version).text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+        if (!(name in values)) {
+            throw new Error(`Prompt "${id}" version ${version} uses {{${name}}}, which was not given.`);
+        }
+        return String(values[name]);
+    });
+    return { text, promptVersions: { [id]: version } };
+};
@@ -0,0 +1,247 @@
+import type { PromptDefinition, PromptId } from './registry';
+
+// Every version of every registered prompt. Add a version rather than editing
+// one in place, so results stay traceable to the exact wording that made them.
+// Compare two versions with `npm run eval:prompts` before making one active.
+export const PROMPT_TEMPLATES: Record<PromptId, PromptDefinition> = {
+    suggestPresentation: {
+        active: 1,
+        versions: [
+            {
+                version: 1,
+                notes: 'Reads only the clothes, never the body or face.',
+                text: `
+        You are a fashion stylist AI.
+        Look ONLY at the clothes and accessories the person is wearing, not at their body, face or hair.
+
+        Which store department do these clothes most likely come from?
+        - "menswear" or "womenswear" when the pieces are clearly cut for that department.
+        - "unisex" when the pieces are gender-neutral (e.g. plain tee, jeans, hoodie, sneakers).
+        - "mixed" when the outfit clearly combines menswear and womenswear pieces.
+        - "unknown" when the clothes are not visible enough to say.
+
+        Return JSON ONLY, e.g. {"presentation": "unisex"}
+    `,
+            },
+        ],
+    },
+    garmentSpecs: {
+        active: 1,
+        versions: [
+            {
+                version: 1,
+                notes: 'One structured spec per variation direction.',
+                text: `
+        **Task:** Design {{count}} distinct {{presentationLabel}} garments, each ONE {{unit}} of this type: {{garmentType}}.
+        - {{presentationGuidance}}
+{{profileLines}}
+        - Suitable fabrics: {{fabrics}}
+
+        **CRITICAL DIVERSITY RULES:**
+        The garments must be COMPLETELY different from each other. Follow these directions in order:
+{{directions}}
+
+        **Output Requirement:**
+        Return ONLY a JSON array of exactly {{count}} objects, in the order above. Each object must have:
+        - itemName: Creative name (e.g., "Midnight Oxford", "Silk Wrap Blouse", "Pro-Fit Mesh Tank").
+        - styleCategory: e.g., "Modern", "Classic", "Edgy", "Athletic".
+        - description: A short description mentioning the specific fabric texture and color.
+        - colors: The garment's colors as plain color names, main color first (e.g., ["navy", "white"]).
+        - fabric: The single main fabric and its finish (e.g., "brushed cotton twill").
+        - cut: The cut, fit and key design details (e.g., "relaxed fit, camp collar, short sleeves").
+        The colors, fabric and cut will be used to photograph the garment, so they must agree with the description.
+    `,
+            },
+        ],
+    },
+    garmentImage: {
+        active: 1,
+        versions: [
+            {
+                version: 1,
+                notes: 'Studio product shot that keeps the spec\'s colors, fabric and cut.',
+                text: `
+      You are a professional fashion photographer.
+      **Goal:** Generate a single, studio-quality product photo of EXACTLY ONE (1) {{unit}}.
+      **Item:** {{presentationLabel}} {{itemName}}. {{description}}
+      **Context:** {{presentationLabel}} {{style}} fashion for {{occasion}}, {{fit}} fit.
+      **Colors:** {{colors}} (the first is the main color).
+      **Fabric:** {{fabric}}.
+      **Cut:** {{cut}}.
+
+      **CRITICAL VISUAL RULES (STRICTLY ENFORCED):**
+      -   **FIDELITY:** The colors, fabric and cut above are fixed. Do not change or add colors.
+{{modestyRule}}      -   **QUANTITY:** ONE SINGLE {{unitCaps}} ONLY. Isolate the {{unit}}.
+      -   **LAYOUT:** {{layout}} on a plain white background. Front view.
+      -   **NEGATIVE PROMPT:** {{exclude}} NO models, NO human body parts, NO hands, NO faces, NO text, NO watermarks, NO labels, NO multiple items.
+      -   **QUALITY:** Photorealistic, 8k, highly detailed fabric texture, professional studio lighting.
+    `,
+            },
+        ],
+    },
+    virtualTryOn: {
+        active: 1,
+        versions: [
+            {
+                version: 1,
+                notes: 'Physics-based draping, with the output size stated three times.',
+                text: `**TOP PRIORITY & NON-NEGOTIABLE RULE: IMAGE DIMENSION INTEGRITY**
+The final output image's dimensions MUST be EXACTLY {{width}} pixels wide by {{height}} pixels high. This matches the original input person photo (Image 1). The aspect ratio MUST be IDENTICAL. There can be no stretching, cropping, or resizing of the original scene. This is the most critical instruction.
+
+**CORE MISSION: Physics-Based 3D Virtual Try-On Simulation**
+
+You are an expert digital tailor operating an advanced physics-based rendering (PBR) engine. Your task is to simulate draping a garment onto a person in a 2D photograph as if it were a high-fidelity 3D model. The final output must be indistinguishable from a real photograph where the person is physically wearing the garment.
+
+**INPUTS:**
+-   **[Image 1]:** A photo of a person.
+-   **[Image 2]:** A photo of an isolated garment. It is a **{{garmentLabel}}**.
+
+**GARMENT PLACEMENT:** {{directive}}
+
+**KEY DIRECTIVES FOR UNMATCHED REALISM (Simulating 3D):**
+
+1.  **Advanced Fabric & Material Simulation:**
+    *   **Physics-Based Properties:** Analyze the garment in Image 2 to infer its physical properties. Simulate its **weight** (e.g., heavy denim vs. light silk), **stiffness**, and **texture**.
+    *   **PBR Lighting Interaction:** The garment's material must interact with the scene's lighting realistically. Simulate **specular highlights** for shiny materials (like satin or leather) and **diffuse reflection** for matte materials (like cotton).
+    *   **Micro-Wrinkles & Stretching:** Create a high-fidelity displacement map based on the person's underlying body form. Generate realistic micro-wrinkles, fabric stretching, and compression that accurately reflect the material's properties and the pose.
+
+2.  **Body Shape & Draping Mastery:**
+    *   **Conform to Body & Pose:** The garment must perfectly conform to the person's unique body shape and pose. The simulation must calculate how the fabric would naturally hang, drape, and fold.
+    *   **Ambient Occlusion & Shadowing:** This is critical for 3D illusion. Calculate and render soft, realistic **ambient occlusion** in the creases and folds of the fabric. Cast subtle shadows where the garment interacts with the body (e.g., under the collar, at the waist) to create a sense of depth and separation.
+
+3.  **Seamless Integration & Flawless Coverage:**
+    *   **TOTAL Clothing Replacement:** Your second highest priority is to *completely and totally replace* the original {{replaces}}. There should be ZERO traces of the original {{replaces}} being replaced, especially at the collar, cuffs, waistband, and hem. The new garment must be fully opaque.
+    *   **Preserve Identity & Scene:** The person's face, hair, skin tone, body, limbs, and the entire original background must remain absolutely unchanged.
+    *   **Consistent Lighting:** The lighting on the new garment must perfectly match the lighting of the original scene in Image 1.
+
+**CRITICAL RULES TO FOLLOW (REITERATED):**
+-   **ABSOLUTE DIMENSION MATCH:** The output must have the exact same dimensions as the input person photo: {{width}}x{{height}} pixels. NO EXCEPTIONS.
+-   **THINK LIKE A 3D RENDERER:** The final output must look like it was rendered from a professional cloth simulation, not edited in 2D.
+-   **ABSOLUTELY NO TRACE of the original garment.** This is the second most important rule.
+-   **DO NOT** alter the person or the background.
+-   **DO NOT** create a flat, "pasted-on" look. The garment must have volume, depth, and realistic lighting.
+-   **AVOID** any signs of digital editing. The final output must be a single, cohesive, photorealistic image.`,
+            },
+            {
+                version: 2,
+                notes: 'About half the length: each rule stated once, plus an explicit rule to keep the garment\'s color and print.',
+                text: `Dress the person in Image 1 in the garment from Image 2.
+
+**INPUTS:**
+-   **[Image 1]:** A photo of a person.
+-   **[Image 2]:** A photo of an isolated garment. It is a **{{garmentLabel}}**.
+
+**GARMENT PLACEMENT:** {{directive}}
+
+**RULES:**
+1.  **SIZE:** The output is EXACTLY {{width}}x{{height}} pixels with the same framing as Image 1. No cropping, stretching or resizing.
+2.  **REPLACEMENT:** Completely replace the original {{replaces}}. No trace of it may show at the collar, cuffs, waistband or hem, and the new garment is fully opaque.
+3.  **GARMENT FIDELITY:** Keep the exact color, pattern, print, fabric and proportions of the garment in Image 2.
+4.  **REALISM:** Drape the garment over the person's body and pose with the folds, stretch and weight its fabric would have. Add soft shadows where it meets the body, and match the lighting of Image 1.
+5.  **IDENTITY:** Do not change the person's face, hair, skin, body or the background.
+6.  The result must look like a single real photograph, not a garment pasted onto a picture.`,
+            },
+        ],
+    },
+    styleComparison: {
+        active: 1,
+        versions: [
+            {
+                version: 1,
+                notes: 'One encouraging sentence, no markdown.',
+                text: `As an AI Fashion Stylist, look at these two images. The first is the "Before" photo, and the second is the "After" photo where the user has virtually tried on a new piece. 
+        
+        Your task is to provide a single, concise, encouraging, and positive sentence comparing the two looks. Focus on how the new piece enhances their style. For example: "The new jacket adds a vibrant pop of color and gives your outfit a fresh, modern look!"
+        
+        Keep the response to one sentence only. Do not use markdown.
+        `,
+            },
+        ],
+    },
+    personAnalysis: {
+        active: 1,
+        versions: [
+            {
+                version: 1,
+                notes: 'People count, body coverage, face box and one fix-it tip.',
+                text: `
+        You are a photo checker for a virtual try-on service.
+        Look at this photo a shopper wants to try clothes on.
+
+        1. Count the people in the photo. Ignore people in posters, screens or reflections.
+        2. Say how much of the main person's body is visible:
+           - "full": head to feet
+           - "upper": head and torso down to at least the waist
+           - "partial": only the face, head or shoulders, or the torso is mostly hidden
+           - "none": no person
+        3. If the photo is hard to use for trying on clothes, give ONE short, friendly instruction to fix it in "issue",
+           e.g. "Step back so your torso is visible" or "Move your arms away from your body". Otherwise set "issue" to an empty string.
+        4. Give the main person's face bounding box, including the hair, as fractions of the image (x, y, width, height, each 0-1, origin top-left).
+           Leave it out if no face is visible.
+
+        Return JSON ONLY.
+    `,
+            },
+        ],
+    },
+    garmentAnalysis: {
+        active: 1,
+        versions: [
+            {
+                version: 1,
+                notes: 'Single-garment check, category and bounding box.',
+                text: `
+        You are a product photo checker for a virtual try-on service.
+        Look at this photo a shopper wants to try on.
+
+        1. Count the distinct clothing items that are clearly visible (ignore hangers, mannequins and background props).
+        2. isSingleGarment is true only if exactly ONE wearable garment is the clear subject of the photo.
+        3. Classify that garment's category:
+           - "top": shirts, blouses, tees, tanks, sweaters, hoodies
+           - "bottom": pants, jeans, skirts, shorts
+           - "dress": dresses, jumpsuits, rompers and other one-pieces
+           - "outerwear": jackets, coats, blazers, cardigans worn as an outer layer
+           - "footwear": a pair of shoes, sneakers, boots or sandals (a pair counts as ONE item)
+           - "accessory": bags, belts, hats, scarves, watches
+        4. Give the garment's bounding box as fractions of the image (x, y, width, height, each 0-1, origin top-left).
+        5. If the photo cannot be used (no garment, several garments, a person wearing it, heavily obscured), explain why in "issue" in one short sentence. Otherwise set "issue" to an empty string.
+
+        Return JSON ONLY.
+    `,
+            },
+        ],
+    },
+    garmentBackgroundRemoval: {
+        active: 1,
+        versions: [
+            {
+                version: 1,
+                notes: 'Plain white product shot; the garment itself unchanged.',
+                text: `Isolate the single garment in this photo as a clean product shot.
+- Remove EVERYTHING that is not the garment: background, hangers, mannequin, tags, hands and props.
+- Place the garment on a plain, pure white background, front view, centered.
+- Do NOT change the garment itself: keep its exact color, pattern, print, fabric texture, shape and proportions.
+- No text, no watermarks, no added shadows beyond a soft natural contact shadow.`,
+            },
+        ],
+    },
+    garmentMask: {
+        active: 1,
+        versions: [
+            {
+                version: 1,
+                notes: 'White over the new garment and the clothing it replaced.',
+                text: `You are a precise image segmentation tool.
+
+**INPUTS:**
+-   **[Image 1]:** The original photo of a person.
+-   **[Image 2]:** The same photo after their {{replaces}} was replaced with a new **{{garmentLabel}}**.
+
+**TASK:** Output a black-and-white mask with exactly the same dimensions as Image 2.
+-   Paint **pure white** every pixel covered by the new {{garmentLabel}} in Image 2, AND every pixel where the original {{replaces}} was in Image 1.
+-   Paint **pure black** everything else: the face, hair, skin, other clothing and the entire background.
+-   Do not draw anything other than the mask. No gray, no outlines, no text.`,
+            },
+        ],
+    },
+};
@@ -0,0 +1,258 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AIOperation, AIProvider, ChatChunk, ChatOptions, ContentPart } from './types';
+import type { ChatPart } from '../../types';
+import { detectMimeType } from '../image/format';
+
+// Record and replay of provider calls. Recording wraps a real provider and
+// writes every request it answers, and the answer, to a cassette on disk;
+// replaying serves a cassette back offline, matching each request to a
+// recorded one by its content. Node only: cassettes live on the file system.
+//
+// A cassette is a directory with a cassette.json and an images/ folder. Every
+// image sent or received is stored once, named by its hash, and cassette.json
+// refers to it by file name so it stays readable in review.
+
+const CASSETTE_VERSION = 1;
+const CASSETTE_FILE = 'cassette.json';
+const IMAGES_DIR = 'images';
+
+type CassetteCall = 'generateText' | 'generateJson' | 'generateImage' | 'editImage' | 'chatMessage';
+
+type StoredPart = { text: string } | { image: string };
+
+export interface CassetteRequest {
+    call: CassetteCall;
+    operation: AIOperation | 'chat';
+    model: string;
+    parts: StoredPart[];
+    // Anything else the call was given that can change its answer.
+    options?: Record<string, unknown>;
+}
+
+export type CassetteResponse =
+    | { text: string }
+    | { json: unknown }
+    | { image: string }
+    | { chunks: ChatChunk[] };
+
+export interface CassetteInteraction {
+    // Hash of the request; replay finds responses by it.
+    key: string;
+    request: CassetteRequest;
+    response: CassetteResponse;
+}
+
+export interface Cassette {
+    version: number;
+    // The provider that answered when the cassette was recorded.
+    provider: string;
+    recordedAt: number;
+    interactions: CassetteInteraction[];
+}
+
+export interface ReplayProvider extends AIProvider {
+    // Requests the cassette had no answer for, so a test can report them
+    // rather than time out waiting on the UI.
+    misses: string[];
+}
+
+const sha256 = (text: string): string => createHash('sha256').update(text).digest('hex');
+
+const imageFileName = (data: string): string => {
+    const extension = detectMimeType(data)?.split('/')[1]?.replace('jpeg', 'jpg') ?? 'bin';
+    return `${sha256(data).slice(0, 16)}.${extension}`;
+};
+
+// Images become file names; `onImage` gets each one so a recording can save it.
+const toStoredParts = (parts: (ContentPart | ChatPart)[], onImage?: (name: string, data: string) => void): StoredPart[] =>
+    parts.map(part => {
+        if ('text' in part) return { text: part.text };
+        const name = imageFileName(part.inlineData.data);
+        onImage?.(name, part.inlineData.data);
+        return { image: name };
+    });
+
+const requestKey = (request: CassetteRequest): string => sha256(JSON.stringify(request));
+
+// Describes a chat message together with everything said before it in the
+// session, so each reply can be looked up on its own.
+const chatRequest = (
+    { model, systemInstruction, functions = [] }: ChatOptions,
+    transcript: { role: string; parts: StoredPart[] }[],
+    message: StoredPart[]
+): CassetteRequest => ({
+    call: 'chatMessage',
+    operation: 'chat',
+    model,
+    parts: message,
+    options: { systemInstruction, functions: functions.map(f => f.name), transcript },
+});
+
+const replyText = (chunks: ChatChunk[]): string =>
+    chunks.flatMap(chunk => 'text' in chunk ? [chunk.text] : []).join('');
+
+// The provider methods shared by recording and replay. Each call is described
+// as a CassetteRequest and handed to `answer`, along with a way to ask the
+// live provider; the two modes differ only in which they use.
+const createCassetteMethods = (
+    answer: (request: CassetteRequest, callLive: () => Promise<CassetteResponse>) => Promise<CassetteResponse>,
+    readImage: (name: string) => Promise<string>,
+    live: AIProvider | null,
+    onImage?: (name: string, data: string) => void
+): Omit<AIProvider, 'name'> => {
+    const liveProvider = (): AIProvider => {
+        if (!live) throw new Error('No provider to record from.');
+        return live;
+    };
+    const stored = (parts: ContentPart[]) => toStoredParts(parts, onImage);
+
+    return {
+        generateText: async request => {
+            const response = await answer(
+                { call: 'generateText', operation: request.operation, model: request.model, parts: stored(request.parts) },
+                async () => ({ text: await liveProvider().generateText(request) })
+            );
+            return (response as { text: string }).text;
+        },
+
+        generateJson: async <T,>(request) => {
+            const response = await answer(
+                { call: 'generateJson', operation: request.operation, model: request.model, parts: stored(request.parts), options: { schema: request.schema } },
+                async () => ({ json: await liveProvider().generateJson<unknown>(request) })
+            );
+            return structuredClone((response as { json: unknown }).json) as T;
+        },
+
+        generateImage: async request => {
+            request.signal?.throwIfAborted();
+            const response = await answer(
+                {
+                    call: 'generateImage',
+                    operation: request.operation,
+                    model: request.model,
+                    parts: [{ text: request.prompt }],
+                    options: { aspectRatio: request.aspectRatio, outputMimeType: request.outputMimeType },
+                },
+                async () => {
+                    const image = await liveProvider().generateImage(request);
+                    const name = imageFileName(image);
+                    onImage?.(name, image);
+                    return { image: name };
+                }
+            );
+            return readImage((response as { image: string }).image);
+        },
+
+        editImage: async request => {
+            request.signal?.throwIfAborted();
+            const response = await answer(
+                { call: 'editImage', operation: request.operation, model: request.model, parts: stored(request.parts) },
+                async () => {
+                    const image = await liveProvider().editImage(request);
+                    const name = imageFileName(image);
+                    onImage?.(name, image);
+                    return { image: name };
+                }
+            );
+            return readImage((response as { image: string }).image);
+        },
+
+        createChat: options => {
+            const session = live?.createChat(options);
+            const history = options.history.map(({ role, parts }) => ({ role, parts: toStoredParts(parts, onImage) }));
+            return {
+                sendMessageStream: async function* (message) {
+                    const parts = toStoredParts(message, onImage);
+                    const response = await answer(chatRequest(options, history, parts), async () => {
+                        const chunks: ChatChunk[] = [];
+                        for await (const chunk of session!.sendMessageStream(message)) {
+                            chunks.push(chunk);
+                        }
+                        return { chunks };
+                    });
+                    const { chunks } = response as { chunks: ChatChunk[] };
+                    history.push({ role: 'user', parts }, { role: 'model', parts: [{ text: replyText(chunks) }] });
+                    yield* chunks;
+                },
+            };
+        },
+    };
+};
+
+// Starts a new cassette in `dir`, replacing any earlier recording there.
+// Every answered request is written out before its answer is returned, so
+// the cassette is complete however the run ends. Failed requests are not
+// recorded.
+export const createRecordingProvider = async ({ provider, dir }: { provider: AIProvider; dir: string }): Promise<AIProvider> => {
+    await rm(dir, { recursive: true, force: true });
+    await mkdir(path.join(dir, IMAGES_DIR), { recursive: true });
+
+    const cassette: Cassette = { version: CASSETTE_VERSION, provider: provider.name, recordedAt: Date.now(), interactions: [] };
+    const images = new Map<string, string>();
+    const written = new Set<string>();
+    // Writes run one at a time, so concurrent requests can't interleave them.
+    let writing = Promise.resolve();
+
+    const persist = () => {
+        writing = writing.then(async () => {
+            for (const [name, data] of images) {
+                if (written.has(name)) continue;
+                await writeFile(path.join(dir, IMAGES_DIR, name), Buffer.from(data, 'base64'));
+                written.add(name);
+            }
+            await writeFile(path.join(dir, CASSETTE_FILE), JSON.stringify(cassette, null, 2));
+        });
+        return writing;
+    };
+
+    const methods = createCassetteMethods(
+        async (request, callLive) => {
+            const response = await callLive();
+            cassette.interactions.push({ key: requestKey(request), request, response });
+            await persist();
+            return response;
+        },
+        async name => images.get(name)!,
+        provider,
+        (name, data) => images.set(name, data)
+    );
+
+    return { name: provider.name, ...methods };
+};
+
+// Serves the cassette in `dir`. Requests recorded more than once are answered
+// in the order they were recorded, the last answer repeating after that.
+export const createReplayProvider = async ({ dir }: { dir: string }): Promise<ReplayProvider> => {
+    const cassette = JSON.parse(await readFile(path.join(dir, CASSETTE_FILE), 'utf8')) as Cassette;
+    if (cassette.version !== CASSETTE_VERSION) {
+        throw new Error(`Cassette ${dir} is version ${cassette.version}; this build reads version ${CASSETTE_VERSION}. Record it again.`);
+    }
+
+    const byKey = new Map<string, CassetteInteraction[]>();
+    cassette.interactions.forEach(interaction => {
+        byKey.set(interaction.key, [...(byKey.get(interaction.key) ?? []), interaction]);
+    });
+    const served = new Map<string, number>();
+    const misses: string[] = [];
+
+    const methods = createCassetteMethods(
+        async request => {
+            const key = requestKey(request);
+            const recorded = byKey.get(key);
+            if (!recorded) {
+                const miss = `${request.operation} (${request.model}, request ${key.slice(0, 12)})`;
+                misses.push(miss);
+                throw new Error(`Cassette ${dir} has no recorded response for ${miss}. The request has changed since it was recorded; record the cassette again.`);
+            }
+            const count = served.get(key) ?? 0;
+            served.set(key, count + 1);
+            return recorded[Math.min(count, recorded.length - 1)].response;
+        },
+        async name => (await readFile(path.join(dir, IMAGES_DIR, name))).toString('base64'),
+        null
+    );
+
+    return { name: 'replay', misses, ...methods };
+};
@@ -0,0 +1,136 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { FunctionCall, GenerateContentResponse, Part } from "@google/genai";
+import type { AIProvider, ContentPart } from './types';
+import { ModelOutputError, SafetyBlockedError } from '../serviceErrors';
+
+export interface GeminiProviderConfig {
+    apiKey: string;
+    // Imagen can be billed against a separate key; falls back to apiKey.
+    imagenApiKey?: string;
+}
+
+const toContents = (parts: ContentPart[]) => ({ role: 'user', parts });
+
+// Follow-up rounds allowed after function calls before the reply is cut short.
+const MAX_FUNCTION_ROUNDS = 3;
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// A refused prompt or filtered answer comes back as a normal response with no
+// content, so it is turned into an error here before the content is read.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+        throw new SafetyBlockedError(`The model blocked the request (${blockReason ?? finishReason}).`);
+    }
+};
+
+export const createGeminiProvider = ({ apiKey, imagenApiKey }: GeminiProviderConfig): AIProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    const imagen = imagenApiKey ? new GoogleGenAI({ apiKey: imagenApiKey }) : ai;
+
+    return {
+        name: 'gemini',
+
+        generateText: async ({ model, parts }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: toContents(parts),
+            });
+            assertNotBlocked(response);
+            return response.text?.trim() ?? '';
+        },
+
+        generateJson: async <T,>({ model, parts, schema }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: toContents(parts),
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: schema,
+                },
+            });
+            assertNotBlocked(response);
+            const rawText = response.candidates?.[0]?.content?.parts?.[0]?.text || "{}";
+            try {
+                return JSON.parse(rawText.trim()) as T;
+            } catch (error) {
+                throw new ModelOutputError("The model did not return valid JSON.", { cause: error });
+            }
+        },
+
+        generateImage: async ({ model, prompt, aspectRatio, outputMimeType, signal }) => {
+            const response = await imagen.models.generateImages({
+                model,
+                prompt,
+                config: {
+                    numberOfImages: 1,
+                    outputMimeType,
+                    aspectRatio,
+                    abortSignal: signal,
+                },
+            });
+            const generated = response.generatedImages?.[0];
+            if (generated?.raiFilteredReason) {
+                throw new SafetyBlockedError(`The image was filtered: ${generated.raiFilteredReason}`);
+            }
+            const imageBytes = generated?.image?.imageBytes;
+            if (!imageBytes) {
+                throw new ModelOutputError("The model did not return an image.");
+            }
+            return imageBytes;
+        },
+
+        editImage: async ({ model, parts, signal }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: toContents(parts),
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    abortSignal: signal,
+                },
+            });
+            assertNotBlocked(response);
+            const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!data) {
+                throw new ModelOutputError("The model did not return a valid image.");
+            }
+            return data;
+        },
+
+        createChat: ({ model, history, systemInstruction, functions = [] }) => {
+            const chat = ai.chats.create({
+                model,
+                history,
+                config: {
+                    systemInstruction,
+                    ...(functions.length > 0 && { tools: [{ functionDeclarations: functions }] }),
+                },
+            });
+            return {
+                sendMessageStream: async function* (message) {
+                    let next: Part[] = message;
+                    for (let round = 0; next.length > 0 && round <= MAX_FUNCTION_ROUNDS; round++) {
+                        const stream = await chat.sendMessageStream({ message: next });
+                        const calls: FunctionCall[] = [];
+                        for await (const chunk of stream) {
+                            assertNotBlocked(chunk);
+                            for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+                                if (part.text && !part.thought) {
+                                    yield { text: part.text };
+                                }
+                                if (part.functionCall?.name) {
+                                    calls.push(part.functionCall);
+                                    yield { functionCall: { name: part.functionCall.name, args: part.functionCall.args ?? {} } };
+                                }
+                            }
+                        }
+                        // The caller carries the calls out; acknowledge them so the model writes its follow-up.
+                        next = calls.map(({ id, name }) => ({ functionResponse: { id, name, response: { status: 'started' } } }));
+                    }
+                },
+            };
+        },
+    };
+};
@@ -0,0 +1,39 @@
+import type { AIProvider } from './types';
+import { createMockProvider } from './mockProvider';
+import { ConfigurationError } from '../serviceErrors';
+
+export type { AIProvider } from './types';
+
+let activeProvider: AIProvider | null = null;
+
+// The Gemini provider is only ever constructed by the backend (server/), which
+// injects it with setProvider. The browser can only pick the keyless mock.
+const createProviderFromEnv = (): AIProvider => {
+    const providerName = import.meta.env?.VITE_AI_PROVIDER ?? 'proxy';
+
+    switch (providerName) {
+        case 'mock':
+            return createMockProvider();
+        case 'proxy':
+            throw new ConfigurationError("No in-browser AI provider in proxy mode. Requests must go through the API client.");
+        default:
+            throw new ConfigurationError(`Unknown AI provider "${providerName}". Use "proxy" or "mock".`);
+    }
+};
+
+export const getProvider = (): AIProvider => {
+    if (!activeProvider) {
+        activeProvider = createProviderFromEnv();
+    }
+    return activeProvider;
+};
+
+// Overrides the environment choice, e.g. on the backend or in tests and scripts.
+export const setProvider = (provider: AIProvider | null) => {
+    activeProvider = provider;
+};
+
+// True when service calls should be forwarded to the backend API instead of
+// running against a provider in this process.
+export const isRemoteMode = (): boolean =>
+    activeProvider === null && (import.meta.env?.VITE_AI_PROVIDER ?? 'proxy') === 'proxy';
@@ -0,0 +1,23 @@
+import type { AIProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+
+// Setup shared by the Node entry points (API server, tests, evals) that call
+// the real models. Node only: reads keys from the process environment.
+
+export const loadLocalEnv = () => {
+    try {
+        process.loadEnvFile('.env.local');
+    } catch {
+        // No .env.local; rely on the real environment.
+    }
+};
+
+// `alternative` finishes the error shown without a key, e.g. "use --provider mock".
+export const createGeminiProviderFromEnv = (alternative: string): AIProvider => {
+    loadLocalEnv();
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new Error(`GEMINI_API_KEY is not set. Add it to .env.local or ${alternative}.`);
+    }
+    return createGeminiProvider({ apiKey, imagenApiKey: process.env.IMAGEN_API_KEY });
+};
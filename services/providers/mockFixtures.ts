@@ -0,0 +1,79 @@
+import type { GarmentSpec } from '../../types';
+
+// 64x64 PNG flat-lay tees (beige, navy, burgundy) used in place of Imagen output.
+export const MOCK_GARMENT_IMAGES: string[] = [
+    'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAIAAAAlC+aJAAAAZUlEQVR42u3W0QkAIAhAwYZvlEZpr1ohCsPiHn6L92cZj1cAAAAAAAAAAAA+BPRWt+fmTgCAjICIAQAAAAC4C1gp+rjwbxQAAAAAAAAAAAAAAAAAAAAAAAAAAOBBQIYAAAAAAI6a66COh+fJiT8AAAAASUVORK5CYII=',
+    'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAIAAAAlC+aJAAAAZUlEQVR42u3W0QkAIAhAwaZriGZq51ohCsPiHn6L92cZj1cAAAAAAAAAAAA+BNTWt+fmTgCAjICIAQAAAAC4C1gp+rjwbxQAAAAAAAAAAAAAAAAAAAAAAAAAAOBBQIYAAAAAAI6a2CHaS/sth5MAAAAASUVORK5CYII=',
+    'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAIAAAAlC+aJAAAAZUlEQVR42u3WsQ0AIAgAQQezdkTX1RWMBoPmPtSE6yjj8QoAAAAAAAAAAMCHgF7b9tzcCQCQERAxAAAAAAB3AStFHxf+jQIAAAAAAAAAAAAAAAAAAAAAAAAAADwIyBAAAAAAwFETj9h3i2SlaNEAAAAASUVORK5CYII=',
+];
+
+// The color of each MOCK_GARMENT_IMAGES entry, so a prompt naming a color gets
+// the matching picture.
+export const MOCK_GARMENT_IMAGE_COLORS: string[] = ['beige', 'navy', 'burgundy'];
+
+// 64x64 PNG garment mask: a white torso-sized block on black, used in place of
+// the model's segmentation.
+export const MOCK_GARMENT_MASK =
+    'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAAAAACPAi4CAAAAJklEQVR42u3MQQ0AAAgEoOtfWiP41E0IQALAYTUQCAQCwa8AYE0Di7z9H4MCF0MAAAAASUVORK5CYII=';
+
+export const MOCK_PRESENTATION = { presentation: 'unisex' };
+
+export const MOCK_GARMENT_SPECS: GarmentSpec[] = [
+    {
+        itemName: 'Sandstone Oxford',
+        styleCategory: 'Classic',
+        description: 'A crisp beige cotton oxford with a soft brushed finish.',
+        colors: ['beige'],
+        fabric: 'brushed cotton oxford',
+        cut: 'regular fit, button-down collar, long sleeves',
+    },
+    {
+        itemName: 'Harbor Stripe Tee',
+        styleCategory: 'Modern',
+        description: 'Navy jersey tee with a fine tonal stripe and relaxed drape.',
+        colors: ['navy'],
+        fabric: 'soft cotton jersey',
+        cut: 'relaxed fit, crew neck, short sleeves',
+    },
+    {
+        itemName: 'Merlot Wrap Top',
+        styleCategory: 'Edgy',
+        description: 'Burgundy satin wrap top with an asymmetric hem.',
+        colors: ['burgundy'],
+        fabric: 'fluid satin',
+        cut: 'wrap front, asymmetric hem, three-quarter sleeves',
+    },
+];
+
+export const MOCK_PERSON_ANALYSIS = {
+    personCount: 1,
+    bodyVisibility: 'upper',
+    faceBox: { x: 0.35, y: 0.05, width: 0.3, height: 0.25 },
+    issue: '',
+};
+
+export const MOCK_GARMENT_ANALYSIS = {
+    garmentCount: 1,
+    isSingleGarment: true,
+    category: 'top',
+    boundingBox: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 },
+    issue: '',
+};
+
+export const MOCK_STYLE_COMPARISON = "The new top adds a warm, polished touch that really lifts your whole look!";
+
+export const MOCK_CHAT_REPLIES: string[] = [
+    "Great question! A neutral base with one statement piece is always a safe bet.",
+    "Try pairing structured tops with relaxed bottoms for a balanced silhouette.",
+    "Earthy tones work well together, and a leather accessory ties them nicely.",
+];
+
+// Requests the mock chat answers with a function call, when the chat offers
+// that function, followed by MOCK_FUNCTION_CALL_REPLY.
+export const MOCK_CHAT_FUNCTION_CALLS: { pattern: RegExp; name: string; args: (match: RegExpMatchArray) => Record<string, unknown> }[] = [
+    { pattern: /\b(?:regenerate|new options|show me)\b.*?\bin ([a-z][a-z ]*[a-z])/i, name: 'regenerate_garments', args: match => ({ favoriteColors: [match[1]] }) },
+    { pattern: /\b(?:select|choose|pick)\b.*?\b(\d+)\b/i, name: 'select_garment', args: match => ({ number: Number(match[1]) }) },
+    { pattern: /\btry (?:it|this|that|them) on\b/i, name: 'try_on', args: () => ({}) },
+];
+
+export const MOCK_FUNCTION_CALL_REPLY = "On it! Take a look at the try-on screen.";
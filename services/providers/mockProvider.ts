@@ -0,0 +1,104 @@
+import type { AIProvider, ContentPart } from './types';
+import {
+    MOCK_GARMENT_IMAGES,
+    MOCK_GARMENT_MASK,
+    MOCK_PRESENTATION,
+    MOCK_PERSON_ANALYSIS,
+    MOCK_GARMENT_SPECS,
+    MOCK_GARMENT_IMAGE_COLORS,
+    MOCK_GARMENT_ANALYSIS,
+    MOCK_STYLE_COMPARISON,
+    MOCK_CHAT_REPLIES,
+    MOCK_CHAT_FUNCTION_CALLS,
+    MOCK_FUNCTION_CALL_REPLY,
+} from './mockFixtures';
+import { InvalidImageError } from '../serviceErrors';
+
+const firstImage = (parts: ContentPart[]): string | null => {
+    for (const part of parts) {
+        if ('inlineData' in part) {
+            return part.inlineData.data;
+        }
+    }
+    return null;
+};
+
+// Deterministic offline provider. Returns canned JSON and images so the whole
+// try-on flow can run without API keys.
+export const createMockProvider = (): AIProvider => {
+    // Prompts that name a fixture color get that image, keeping specs and
+    // pictures paired; anything else is handed out in call order.
+    let imageIndex = 0;
+
+    return {
+        name: 'mock',
+
+        generateText: async ({ operation }) => {
+            if (operation === 'styleComparison') {
+                return MOCK_STYLE_COMPARISON;
+            }
+            throw new Error(`Mock provider has no text fixture for "${operation}".`);
+        },
+
+        generateJson: async <T,>({ operation }) => {
+            switch (operation) {
+                case 'suggestPresentation':
+                    return structuredClone(MOCK_PRESENTATION) as T;
+                case 'personAnalysis':
+                    return structuredClone(MOCK_PERSON_ANALYSIS) as T;
+                case 'garmentSpecs':
+                    return structuredClone(MOCK_GARMENT_SPECS) as T;
+                case 'garmentAnalysis':
+                    return structuredClone(MOCK_GARMENT_ANALYSIS) as T;
+                default:
+                    throw new Error(`Mock provider has no JSON fixture for "${operation}".`);
+            }
+        },
+
+        generateImage: async ({ prompt, signal }) => {
+            signal?.throwIfAborted();
+            const byColor = MOCK_GARMENT_IMAGE_COLORS.findIndex(color => prompt.toLowerCase().includes(color));
+            return MOCK_GARMENT_IMAGES[byColor >= 0 ? byColor : imageIndex++ % MOCK_GARMENT_IMAGES.length];
+        },
+
+        // Echoes the first input image back: the person photo for try-ons (which
+        // keeps the original dimensions intact) or the garment for clean-ups.
+        // Masks are a fixed block, stretched to size by the caller.
+        editImage: async ({ operation, parts, signal }) => {
+            signal?.throwIfAborted();
+            if (operation === 'garmentMask') {
+                return MOCK_GARMENT_MASK;
+            }
+            const image = firstImage(parts);
+            if (!image) {
+                throw new InvalidImageError(`Mock provider needs an input image for "${operation}".`);
+            }
+            return image;
+        },
+
+        createChat: ({ history, functions = [] }) => {
+            let turn = history.length;
+            return {
+                // Streams the canned reply word by word so the UI sees real chunks.
+                sendMessageStream: async function* (message) {
+                    // The user's words come last, after any context or images.
+                    const last = message[message.length - 1];
+                    const text = last && 'text' in last ? last.text : '';
+                    const calls = MOCK_CHAT_FUNCTION_CALLS
+                        .filter(call => functions.some(f => f.name === call.name))
+                        .flatMap(({ pattern, name, args }) => {
+                            const match = text.match(pattern);
+                            return match ? [{ functionCall: { name, args: args(match) } }] : [];
+                        });
+                    yield* calls;
+
+                    const reply = calls.length > 0 ? MOCK_FUNCTION_CALL_REPLY : MOCK_CHAT_REPLIES[turn++ % MOCK_CHAT_REPLIES.length];
+                    for (const word of reply.split(/(?<=\s)/)) {
+                        await new Promise(resolve => setTimeout(resolve, 20));
+                        yield { text: word };
+                    }
+                },
+            };
+        },
+    };
+};
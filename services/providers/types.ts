@@ -0,0 +1,83 @@
+import type { Schema } from "@google/genai";
+import type { ChatMessage, ChatPart } from '../../types';
+
+// Which service operation a request belongs to. Providers that don't talk to a
+// real model (mock, replay) use this to pick a canned response.
+export type AIOperation =
+    | 'suggestPresentation'
+    | 'personAnalysis'
+    | 'garmentSpecs'
+    | 'garmentImage'
+    | 'virtualTryOn'
+    | 'garmentMask'
+    | 'styleComparison'
+    | 'garmentAnalysis'
+    | 'garmentBackgroundRemoval';
+
+export interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+export type ContentPart = { text: string } | { inlineData: InlineImage };
+
+export interface GenerateTextRequest {
+    operation: AIOperation;
+    model: string;
+    parts: ContentPart[];
+}
+
+export interface GenerateJsonRequest extends GenerateTextRequest {
+    schema: Schema;
+}
+
+export interface GenerateImageRequest {
+    operation: AIOperation;
+    model: string;
+    prompt: string;
+    aspectRatio: string;
+    outputMimeType: string;
+    signal?: AbortSignal;
+}
+
+// Image-to-image generation: the response is a single base64 image.
+export interface EditImageRequest {
+    operation: AIOperation;
+    model: string;
+    parts: ContentPart[];
+    signal?: AbortSignal;
+}
+
+// A function the model may call instead of, or as well as, answering in text.
+export interface ChatFunction {
+    name: string;
+    description: string;
+    parameters?: Schema;
+}
+
+export interface ChatOptions {
+    model: string;
+    history: ChatMessage[];
+    systemInstruction: string;
+    functions?: ChatFunction[];
+}
+
+export type ChatChunk =
+    | { text: string }
+    | { functionCall: { name: string; args: Record<string, unknown> } };
+
+// A long-lived conversation. Each reply streams back in chunks, and the
+// session keeps its own transcript between messages. Function calls are
+// acknowledged by the session itself; carrying them out is up to the caller.
+export interface ChatSession {
+    sendMessageStream: (message: ChatPart[]) => AsyncIterable<ChatChunk>;
+}
+
+export interface AIProvider {
+    readonly name: string;
+    generateText: (request: GenerateTextRequest) => Promise<string>;
+    generateJson: <T>(request: GenerateJsonRequest) => Promise<T>;
+    generateImage: (request: GenerateImageRequest) => Promise<string>;
+    editImage: (request: EditImageRequest) => Promise<string>;
+    createChat: (options: ChatOptions) => ChatSession;
+}
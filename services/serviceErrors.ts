@@ -0,0 +1,143 @@
+import { ApiError, isRetryableCode } from './apiErrors';
+import type { ApiErrorCode } from './apiErrors';
+
+// Typed failures thrown by the service layer. The codes are a subset of the
+// API error codes, so a failure keeps its kind when the backend forwards it.
+
+export type ServiceErrorCode = Extract<ApiErrorCode,
+    | 'QUOTA_EXCEEDED'
+    | 'CONFIGURATION'
+    | 'SAFETY_BLOCKED'
+    | 'INVALID_IMAGE'
+    | 'NETWORK'
+    | 'TIMEOUT'
+    | 'MODEL_OUTPUT'
+    | 'UPSTREAM_FAILED'>;
+
+export class ServiceError extends Error {
+    readonly code: ServiceErrorCode;
+
+    constructor(code: ServiceErrorCode, message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'ServiceError';
+        this.code = code;
+    }
+
+    get retryable(): boolean {
+        return isRetryableCode(this.code);
+    }
+}
+
+export class QuotaExceededError extends ServiceError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('QUOTA_EXCEEDED', message, options);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+export class ConfigurationError extends ServiceError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('CONFIGURATION', message, options);
+        this.name = 'ConfigurationError';
+    }
+}
+
+// The model refused the prompt or its output was filtered.
+export class SafetyBlockedError extends ServiceError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('SAFETY_BLOCKED', message, options);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+export class InvalidImageError extends ServiceError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('INVALID_IMAGE', message, options);
+        this.name = 'InvalidImageError';
+    }
+}
+
+export class NetworkError extends ServiceError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('NETWORK', message, options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class TimeoutError extends ServiceError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('TIMEOUT', message, options);
+        this.name = 'TimeoutError';
+    }
+}
+
+// The model answered, but not with anything usable: no image, or JSON that
+// does not parse or match the schema.
+export class ModelOutputError extends ServiceError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('MODEL_OUTPUT', message, options);
+        this.name = 'ModelOutputError';
+    }
+}
+
+const createError: Record<ServiceErrorCode, (message: string, options: ErrorOptions) => ServiceError> = {
+    QUOTA_EXCEEDED: (message, options) => new QuotaExceededError(message, options),
+    CONFIGURATION: (message, options) => new ConfigurationError(message, options),
+    SAFETY_BLOCKED: (message, options) => new SafetyBlockedError(message, options),
+    INVALID_IMAGE: (message, options) => new InvalidImageError(message, options),
+    NETWORK: (message, options) => new NetworkError(message, options),
+    TIMEOUT: (message, options) => new TimeoutError(message, options),
+    MODEL_OUTPUT: (message, options) => new ModelOutputError(message, options),
+    UPSTREAM_FAILED: (message, options) => new ServiceError('UPSTREAM_FAILED', message, options),
+};
+
+const SERVICE_ERROR_CODES = Object.keys(createError) as ServiceErrorCode[];
+
+// Works out the kind of a failure from our own errors or from what the model
+// SDK and fetch throw. Returns null when nothing identifies it.
+export const classifyError = (error: unknown): ServiceErrorCode | null => {
+    if (error instanceof ServiceError) {
+        return error.code;
+    }
+    if (error instanceof ApiError) {
+        return SERVICE_ERROR_CODES.includes(error.code as ServiceErrorCode) ? error.code as ServiceErrorCode : null;
+    }
+    if (!(error instanceof Error)) {
+        return null;
+    }
+    if (error instanceof SyntaxError) {
+        return 'MODEL_OUTPUT';
+    }
+
+    const message = error.message.toLowerCase();
+    if (error instanceof TypeError && (message.includes('fetch') || message.includes('network'))) {
+        return 'NETWORK';
+    }
+
+    // Model SDK errors carry the HTTP status of the failed call.
+    const status = (error as { status?: unknown }).status;
+    if (typeof status !== 'number') {
+        return null;
+    }
+    if (status === 429 || message.includes('resource_exhausted')) {
+        return 'QUOTA_EXCEEDED';
+    }
+    if (status === 401 || status === 403 || message.includes('api key')) {
+        return 'CONFIGURATION';
+    }
+    if (status === 408 || status === 504 || message.includes('deadline')) {
+        return 'TIMEOUT';
+    }
+    if (status === 400 && message.includes('image')) {
+        return 'INVALID_IMAGE';
+    }
+    if (status === 400 && (message.includes('safety') || message.includes('blocked'))) {
+        return 'SAFETY_BLOCKED';
+    }
+    return 'UPSTREAM_FAILED';
+};
+
+// Gives a failure the service's user-facing message while keeping its kind,
+// and the original error as the cause.
+export const toServiceError = (error: unknown, message: string): ServiceError =>
+    createError[classifyError(error) ?? 'UPSTREAM_FAILED'](message, { cause: error });
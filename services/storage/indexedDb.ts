@@ -0,0 +1,134 @@
+const DB_NAME = 'ai-ootd';
+
+export const STORES = {
+    wardrobeGarments: 'wardrobeGarments',
+    wardrobeTryOns: 'wardrobeTryOns',
+    styleProfiles: 'styleProfiles',
+    generationCache: 'generationCache',
+    generationCacheEntries: 'generationCacheEntries',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// The profile a v1 garment's three free-text choices became, as of v2. Kept
+// here rather than shared with styleProfile.ts, so later changes to profiles
+// can't change what this upgrade wrote.
+const legacyPreferencesToProfile = ({ style, colors, occasion }: { style?: string; colors?: string; occasion?: string }) => ({
+    presentation: null,
+    styles: [{ name: style || 'Casual', weight: 5 }],
+    occasion: occasion ?? 'Weekend Outing',
+    favoriteColors: colors ? [colors] : [],
+    avoidedColors: [],
+    fit: 'regular',
+    measurements: { height: null, chest: null, waist: null, hips: null },
+    budget: { min: null, max: null, currency: 'USD' },
+    climate: null,
+    modesty: [],
+    brands: [],
+});
+
+// One entry per schema version; never edit a shipped migration, append a new one.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+    // v1: wardrobe, partitioned by user
+    (db) => {
+        for (const name of [STORES.wardrobeGarments, STORES.wardrobeTryOns]) {
+            const store = db.createObjectStore(name, { keyPath: 'id' });
+            store.createIndex('userId', 'userId');
+        }
+    },
+    // v2: one style profile per user; saved garments keep a profile instead of three preferences
+    (db, transaction) => {
+        db.createObjectStore(STORES.styleProfiles, { keyPath: 'userId' });
+        transaction.objectStore(STORES.wardrobeGarments).openCursor().onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const { preferences, ...garment } = cursor.value;
+            cursor.update({ ...garment, profile: legacyPreferencesToProfile(preferences ?? {}) });
+            cursor.continue();
+        };
+    },
+    // v3: cached generation results, with their size and last use kept apart so eviction reads only the small records
+    (db) => {
+        db.createObjectStore(STORES.generationCache, { keyPath: 'key' });
+        db.createObjectStore(STORES.generationCacheEntries, { keyPath: 'key' }).createIndex('lastUsedAt', 'lastUsedAt');
+    },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        const opening = new Promise<IDBDatabase>((resolve, reject) => {
+            // Throws where IndexedDB is missing or disabled, e.g. some private windows.
+            const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+            let isBlocked = false;
+            request.onupgradeneeded = (event) => {
+                for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+                    MIGRATIONS[version](request.result, request.transaction!);
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // Another tab is upgrading; let it, and reopen on next use.
+                db.onversionchange = () => {
+                    db.close();
+                    if (dbPromise === opening) dbPromise = null;
+                };
+                if (isBlocked) {
+                    db.close();
+                } else {
+                    resolve(db);
+                }
+            };
+            request.onerror = () => reject(request.error);
+            // A tab still running the old version holds the database open.
+            request.onblocked = () => {
+                isBlocked = true;
+                reject(new Error('Your saved data is being updated. Close other tabs of this app and try again.'));
+            };
+        });
+        dbPromise = opening;
+        // A failed open is retried on next use rather than remembered.
+        opening.catch(() => {
+            if (dbPromise === opening) dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+// Runs a single request in its own transaction and resolves once the
+// transaction has committed, so writes are durable when the promise settles.
+export const runRequest = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = createRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? request.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted.'));
+    });
+};
+
+// Like runRequest, for work spanning several requests or stores. `work` queues
+// the requests; the promise settles with the transaction.
+export const runTransaction = async (
+    storeNames: StoreName[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => void
+): Promise<void> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeNames, mode);
+        work(transaction);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted.'));
+    });
+};
+
+export const getAllByIndex = <T>(storeName: StoreName, indexName: string, key: IDBValidKey): Promise<T[]> =>
+    runRequest<T[]>(storeName, 'readonly', store => store.index(indexName).getAll(key));
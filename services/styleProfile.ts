@@ -0,0 +1,109 @@
+import type { Climate, FitPreference, ModestyConstraint, StylePresentation, StyleProfile } from '../types';
+import { OCCASION_NAMES, STYLE_NAMES } from './taxonomy/taxonomy';
+
+// The style profile shared by the try-on wizard and the style advisor: the
+// fixed choices offered and how a profile reads in a prompt. Occasions, styles
+// and colors come from the taxonomy.
+
+export const PRESENTATION_LABELS: Record<StylePresentation, string> = {
+    menswear: 'Menswear',
+    womenswear: 'Womenswear',
+    unisex: 'Unisex / gender-neutral',
+    mixed: 'Mixed (menswear and womenswear)',
+};
+
+export const STYLE_PRESENTATIONS = Object.keys(PRESENTATION_LABELS) as StylePresentation[];
+
+export const FIT_LABELS: Record<FitPreference, string> = {
+    slim: 'Slim',
+    regular: 'Regular',
+    relaxed: 'Relaxed',
+    oversized: 'Oversized',
+};
+
+export const CLIMATE_LABELS: Record<Climate, string> = {
+    hot: 'Hot',
+    mild: 'Mild',
+    cold: 'Cold',
+    rainy: 'Rainy',
+};
+
+export const MODESTY_LABELS: Record<ModestyConstraint, string> = {
+    coveredShoulders: 'Covered shoulders',
+    longSleeves: 'Long sleeves',
+    kneeLength: 'Knee length or longer',
+    highNeckline: 'High neckline',
+    looseFit: 'Loose, not clingy',
+    opaque: 'No sheer fabrics',
+};
+
+export const CURRENCY_OPTIONS = ['USD', 'EUR', 'GBP'];
+
+// Style weights run from 1 (a touch) to 5 (mostly).
+export const MAX_STYLE_WEIGHT = 5;
+
+export const DEFAULT_STYLE_PROFILE: StyleProfile = {
+    presentation: null,
+    styles: [{ name: STYLE_NAMES[0], weight: MAX_STYLE_WEIGHT }],
+    occasion: OCCASION_NAMES[0],
+    favoriteColors: [],
+    avoidedColors: [],
+    fit: 'regular',
+    measurements: { height: null, chest: null, waist: null, hips: null },
+    budget: { min: null, max: null, currency: 'USD' },
+    climate: null,
+    modesty: [],
+    brands: [],
+};
+
+export const primaryStyle = (profile: StyleProfile): string =>
+    [...profile.styles].sort((a, b) => b.weight - a.weight)[0]?.name ?? DEFAULT_STYLE_PROFILE.styles[0].name;
+
+// Before profiles, garments were saved with three free-text choices.
+export const fromLegacyPreferences = ({ style, colors, occasion }: { style?: string; colors?: string; occasion?: string }): StyleProfile => ({
+    ...DEFAULT_STYLE_PROFILE,
+    styles: style ? [{ name: style, weight: MAX_STYLE_WEIGHT }] : DEFAULT_STYLE_PROFILE.styles,
+    occasion: occasion ?? DEFAULT_STYLE_PROFILE.occasion,
+    favoriteColors: colors ? [colors] : [],
+});
+
+const describeStyles = (profile: StyleProfile): string => {
+    const total = profile.styles.reduce((sum, { weight }) => sum + weight, 0);
+    return [...profile.styles]
+        .sort((a, b) => b.weight - a.weight)
+        .map(({ name, weight }) => profile.styles.length > 1 ? `${name} (${Math.round((weight / total) * 100)}%)` : name)
+        .join(', ');
+};
+
+const describeBudget = ({ min, max, currency }: StyleProfile['budget']): string | null => {
+    if (min !== null && max !== null) return `${min}–${max} ${currency} per piece`;
+    if (max !== null) return `up to ${max} ${currency} per piece`;
+    if (min !== null) return `from ${min} ${currency} per piece`;
+    return null;
+};
+
+// One line per field that says something, for the generation prompts.
+export const describeStyleProfile = (profile: StyleProfile): string[] => {
+    const { measurements } = profile;
+    const bodyParts = (['height', 'chest', 'waist', 'hips'] as const)
+        .filter(key => measurements[key] !== null)
+        .map(key => `${key} ${measurements[key]} cm`);
+    const budget = describeBudget(profile.budget);
+    return [
+        profile.presentation && `Style presentation: ${PRESENTATION_LABELS[profile.presentation]}`,
+        `Style: ${describeStyles(profile)}`,
+        `Occasion: ${profile.occasion}`,
+        profile.favoriteColors.length > 0 && `Favourite colors: ${profile.favoriteColors.join(', ')}`,
+        profile.avoidedColors.length > 0 && `Colors to avoid entirely: ${profile.avoidedColors.join(', ')}`,
+        `Preferred fit: ${FIT_LABELS[profile.fit].toLowerCase()}`,
+        bodyParts.length > 0 && `Body measurements (for proportions and cut): ${bodyParts.join(', ')}`,
+        budget && `Budget: ${budget}; keep fabrics and finish realistic for it`,
+        profile.climate && `Climate: ${CLIMATE_LABELS[profile.climate].toLowerCase()}; choose fabric weights to suit it`,
+        profile.modesty.length > 0 && `Modesty requirements (must be met): ${profile.modesty.map(key => MODESTY_LABELS[key].toLowerCase()).join(', ')}`,
+        profile.brands.length > 0 && `Brands they like (aesthetic reference only, no logos): ${profile.brands.join(', ')}`,
+    ].filter((line): line is string => typeof line === 'string');
+};
+
+// A short label, e.g. "Weekend Outing · Casual · navy, white".
+export const summarizeStyleProfile = (profile: StyleProfile): string =>
+    [profile.occasion, primaryStyle(profile), profile.favoriteColors.slice(0, 3).join(', ')].filter(Boolean).join(' · ');
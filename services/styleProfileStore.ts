@@ -0,0 +1,27 @@
+import type { StyleProfile } from '../types';
+import { DEFAULT_STYLE_PROFILE } from './styleProfile';
+import { STORES, runRequest } from './storage/indexedDb';
+
+// Each user's style profile, kept in IndexedDB next to their wardrobe.
+
+interface StoredStyleProfile {
+    userId: string;
+    profile: StyleProfile;
+    updatedAt: number;
+}
+
+// Profiles saved by older versions may lack fields added since.
+export const loadStyleProfile = async (userId: string): Promise<StyleProfile> => {
+    try {
+        const stored = await runRequest<StoredStyleProfile | undefined>(STORES.styleProfiles, 'readonly', store => store.get(userId));
+        return stored ? { ...DEFAULT_STYLE_PROFILE, ...stored.profile } : DEFAULT_STYLE_PROFILE;
+    } catch (error) {
+        console.error("Error loading style profile:", error);
+        return DEFAULT_STYLE_PROFILE;
+    }
+};
+
+export const saveStyleProfile = async (userId: string, profile: StyleProfile): Promise<void> => {
+    const entry: StoredStyleProfile = { userId, profile, updatedAt: Date.now() };
+    await runRequest(STORES.styleProfiles, 'readwrite', store => store.put(entry));
+};
@@ -0,0 +1,171 @@
+import type { GarmentCategory, StylePresentation } from '../../types';
+import rawTaxonomy from './taxonomy.json';
+
+// The occasions, styles, colors and garment types behind the style profile
+// form and the generation prompts. New entries go in taxonomy.json; the file
+// is checked when it is loaded, so a bad edit fails at startup rather than
+// in a prompt.
+
+export const TAXONOMY_VERSION = 1;
+
+export const GARMENT_CATEGORIES: GarmentCategory[] = ['top', 'bottom', 'dress', 'outerwear', 'footwear', 'accessory'];
+
+// Garment types for each store department, and fabrics that suit them.
+export type DepartmentGarments = Record<Exclude<StylePresentation, 'mixed'>, string> & { fabric: string };
+
+export interface TaxonomyOccasion {
+    name: string;
+    // Occasion-specific tops; without them the default top types apply.
+    tops: DepartmentGarments | null;
+    // Sporty looks get athletic cuts and colour blocking instead of classic patterns.
+    sporty: boolean;
+}
+
+export interface TaxonomyStyle {
+    name: string;
+    sporty: boolean;
+}
+
+export interface TaxonomyColor {
+    name: string;
+    hex: string;
+}
+
+export interface TaxonomyPalette {
+    name: string;
+    colors: string[];
+}
+
+export interface Taxonomy {
+    version: number;
+    occasions: TaxonomyOccasion[];
+    garments: Record<GarmentCategory, DepartmentGarments>;
+    styles: TaxonomyStyle[];
+    colors: TaxonomyColor[];
+    palettes: TaxonomyPalette[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Collects every problem in the file before failing, so one edit-and-reload
+// fixes them all.
+export const parseTaxonomy = (raw: unknown): Taxonomy => {
+    const problems: string[] = [];
+
+    const readText = (value: unknown, path: string): string => {
+        if (typeof value !== 'string' || value.trim() === '') {
+            problems.push(`${path} must be a non-empty string.`);
+            return '';
+        }
+        return value.trim();
+    };
+
+    const readList = (value: unknown, path: string): unknown[] => {
+        if (!Array.isArray(value) || value.length === 0) {
+            problems.push(`${path} must be a non-empty array.`);
+            return [];
+        }
+        return value;
+    };
+
+    const readEntry = (value: unknown, path: string): Record<string, unknown> => {
+        if (!isRecord(value)) {
+            problems.push(`${path} must be an object.`);
+            return {};
+        }
+        return value;
+    };
+
+    const readGarments = (value: unknown, path: string): DepartmentGarments => {
+        if (!isRecord(value)) {
+            problems.push(`${path} must list menswear, womenswear, unisex and fabric.`);
+            return { menswear: '', womenswear: '', unisex: '', fabric: '' };
+        }
+        const entry = value;
+        return {
+            menswear: readText(entry.menswear, `${path}.menswear`),
+            womenswear: readText(entry.womenswear, `${path}.womenswear`),
+            unisex: readText(entry.unisex, `${path}.unisex`),
+            fabric: readText(entry.fabric, `${path}.fabric`),
+        };
+    };
+
+    const checkUnique = (names: string[], path: string) => {
+        const seen = new Set<string>();
+        names.forEach(name => {
+            const key = name.toLowerCase();
+            if (name && seen.has(key)) problems.push(`${path} lists "${name}" more than once.`);
+            seen.add(key);
+        });
+    };
+
+    const root = readEntry(raw, 'taxonomy');
+    if (root.version !== TAXONOMY_VERSION) {
+        problems.push(`version must be ${TAXONOMY_VERSION}, found ${JSON.stringify(root.version)}.`);
+    }
+
+    const occasions = readList(root.occasions, 'occasions').map((value, index): TaxonomyOccasion => {
+        const entry = readEntry(value, `occasions[${index}]`);
+        return {
+            name: readText(entry.name, `occasions[${index}].name`),
+            tops: entry.tops === undefined ? null : readGarments(entry.tops, `occasions[${index}].tops`),
+            sporty: entry.sporty === true,
+        };
+    });
+
+    const garmentEntries = readEntry(root.garments, 'garments');
+    const garments = Object.fromEntries(
+        GARMENT_CATEGORIES.map(category => [category, readGarments(garmentEntries[category], `garments.${category}`)])
+    ) as Record<GarmentCategory, DepartmentGarments>;
+
+    const styles = readList(root.styles, 'styles').map((value, index): TaxonomyStyle => {
+        const entry = readEntry(value, `styles[${index}]`);
+        return { name: readText(entry.name, `styles[${index}].name`), sporty: entry.sporty === true };
+    });
+
+    const colors = readList(root.colors, 'colors').map((value, index): TaxonomyColor => {
+        const entry = readEntry(value, `colors[${index}]`);
+        const hex = readText(entry.hex, `colors[${index}].hex`);
+        if (hex && !/^#[0-9a-f]{6}$/i.test(hex)) problems.push(`colors[${index}].hex must look like #a1b2c3.`);
+        return { name: readText(entry.name, `colors[${index}].name`).toLowerCase(), hex };
+    });
+
+    const colorNames = new Set(colors.map(color => color.name));
+    const palettes = readList(root.palettes, 'palettes').map((value, index): TaxonomyPalette => {
+        const entry = readEntry(value, `palettes[${index}]`);
+        const paletteColors = readList(entry.colors, `palettes[${index}].colors`)
+            .map((color, colorIndex) => readText(color, `palettes[${index}].colors[${colorIndex}]`).toLowerCase());
+        paletteColors
+            .filter(color => color && !colorNames.has(color))
+            .forEach(color => problems.push(`palettes[${index}] uses "${color}", which is not in colors.`));
+        return { name: readText(entry.name, `palettes[${index}].name`), colors: paletteColors };
+    });
+
+    checkUnique(occasions.map(occasion => occasion.name), 'occasions');
+    checkUnique(styles.map(style => style.name), 'styles');
+    checkUnique(colors.map(color => color.name), 'colors');
+    checkUnique(palettes.map(palette => palette.name), 'palettes');
+
+    if (problems.length > 0) {
+        throw new Error(`The style taxonomy is invalid:\n- ${problems.join('\n- ')}`);
+    }
+    return { version: TAXONOMY_VERSION, occasions, garments, styles, colors, palettes };
+};
+
+export const TAXONOMY = parseTaxonomy(rawTaxonomy);
+
+export const OCCASION_NAMES = TAXONOMY.occasions.map(occasion => occasion.name);
+export const STYLE_NAMES = TAXONOMY.styles.map(style => style.name);
+
+const findOccasion = (name: string): TaxonomyOccasion | undefined =>
+    TAXONOMY.occasions.find(occasion => occasion.name.toLowerCase() === name.toLowerCase());
+
+// Garment types for a category. Only tops vary by occasion; custom occasions
+// fall back to the default tops.
+export const garmentTypesFor = (category: GarmentCategory, occasion: string): DepartmentGarments =>
+    (category === 'top' && findOccasion(occasion)?.tops) || TAXONOMY.garments[category];
+
+export const isSportyLook = (occasion: string, style: string): boolean =>
+    Boolean(findOccasion(occasion)?.sporty) ||
+    TAXONOMY.styles.some(entry => entry.sporty && entry.name.toLowerCase() === style.toLowerCase());
@@ -0,0 +1,80 @@
+import type { WardrobeGarment, WardrobeTryOn } from '../types';
+import { STORES, runRequest, getAllByIndex } from './storage/indexedDb';
+import type { StoreName } from './storage/indexedDb';
+
+// Per-user closet of saved garments and try-on results. Images are kept as
+// base64 in IndexedDB, which (unlike localStorage) has room for them.
+
+type NewEntry<T> = Omit<T, 'id' | 'createdAt' | 'tags'> & { tags?: string[] };
+
+const wrapStorageError = (action: string, error: unknown): Error => {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        return new Error(`Could not ${action}. Your browser storage is full; delete some wardrobe items and try again.`, { cause: error });
+    }
+    return new Error(`Could not ${action}. Please try again.`, { cause: error });
+};
+
+const addEntry = async <T extends { id: string }>(storeName: StoreName, entry: T, action: string): Promise<T> => {
+    try {
+        await runRequest(storeName, 'readwrite', store => store.add(entry));
+        return entry;
+    } catch (error) {
+        console.error(`Error trying to ${action}:`, error);
+        throw wrapStorageError(action, error);
+    }
+};
+
+const listEntries = async <T extends { createdAt: number }>(storeName: StoreName, userId: string): Promise<T[]> => {
+    try {
+        const entries = await getAllByIndex<T>(storeName, 'userId', userId);
+        return entries.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+        console.error("Error loading wardrobe:", error);
+        throw wrapStorageError('load your wardrobe', error);
+    }
+};
+
+const setEntryTags = async <T extends { tags: string[] }>(storeName: StoreName, id: string, tags: string[]): Promise<T> => {
+    const entry = await runRequest<T | undefined>(storeName, 'readonly', store => store.get(id));
+    if (!entry) {
+        throw new Error("Could not update tags. The item no longer exists.");
+    }
+    const updated = { ...entry, tags: normalizeTags(tags) };
+    await runRequest(storeName, 'readwrite', store => store.put(updated));
+    return updated;
+};
+
+export const normalizeTags = (tags: string[]): string[] =>
+    [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const saveGarment = (entry: NewEntry<WardrobeGarment>): Promise<WardrobeGarment> =>
+    addEntry(STORES.wardrobeGarments, {
+        ...entry,
+        id: crypto.randomUUID(),
+        tags: normalizeTags(entry.tags ?? []),
+        createdAt: Date.now(),
+    }, 'save the garment to your wardrobe');
+
+export const saveTryOn = (entry: NewEntry<WardrobeTryOn>): Promise<WardrobeTryOn> =>
+    addEntry(STORES.wardrobeTryOns, {
+        ...entry,
+        id: crypto.randomUUID(),
+        tags: normalizeTags(entry.tags ?? []),
+        createdAt: Date.now(),
+    }, 'save the try-on to your wardrobe');
+
+export const listGarments = (userId: string) => listEntries<WardrobeGarment>(STORES.wardrobeGarments, userId);
+
+export const listTryOns = (userId: string) => listEntries<WardrobeTryOn>(STORES.wardrobeTryOns, userId);
+
+export const setGarmentTags = (id: string, tags: string[]) => setEntryTags<WardrobeGarment>(STORES.wardrobeGarments, id, tags);
+
+export const setTryOnTags = (id: string, tags: string[]) => setEntryTags<WardrobeTryOn>(STORES.wardrobeTryOns, id, tags);
+
+export const deleteGarment = async (id: string): Promise<void> => {
+    await runRequest(STORES.wardrobeGarments, 'readwrite', store => store.delete(id));
+};
+
+export const deleteTryOn = async (id: string): Promise<void> => {
+    await runRequest(STORES.wardrobeTryOns, 'readwrite', store => store.delete(id));
+};
@@ -1,8 +1,8 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_GEMINI_API_KEY: string;
-  readonly VITE_IMAGEN_API_KEY: string;
+  readonly VITE_AI_PROVIDER?: 'proxy' | 'mock';
+  readonly VITE_API_BASE_URL?: string;
 }
 
 interface ImportMeta {
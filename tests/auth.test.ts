@@ -0,0 +1,191 @@
+// @vitest-environment node
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAuthService } from '../server/auth/authService';
+import { createFileAuthStore } from '../server/auth/authStore';
+import { parseCookies, serializeSessionCookie, SESSION_COOKIE } from '../server/auth/cookies';
+import type { Mailer } from '../server/auth/mailer';
+import * as passwords from '../server/auth/passwords';
+import { hashPassword, hashToken, verifyPassword } from '../server/auth/passwords';
+
+const HOUR_MS = 60 * 60 * 1000;
+const PASSWORD = 'correct horse';
+
+describe('passwords', () => {
+    it('stores a salted scrypt hash that only the same password verifies', async () => {
+        const stored = await hashPassword(PASSWORD);
+        expect(stored).toMatch(/^scrypt\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+        expect(stored).not.toContain(PASSWORD);
+        expect(await hashPassword(PASSWORD)).not.toBe(stored);
+
+        expect(await verifyPassword(PASSWORD, stored)).toBe(true);
+        expect(await verifyPassword('Correct horse', stored)).toBe(false);
+    });
+
+    it('refuses hashes it did not make', async () => {
+        expect(await verifyPassword(PASSWORD, '')).toBe(false);
+        const [, salt, hash] = (await hashPassword(PASSWORD)).split('$');
+        expect(await verifyPassword(PASSWORD, `bcrypt$${salt}$${hash}`)).toBe(false);
+    });
+});
+
+describe('session cookie', () => {
+    it('is HttpOnly and reads back from a cookie header', () => {
+        const cookie = serializeSessionCookie('a b/c', 3600, true);
+        expect(cookie.split('; ')).toEqual(expect.arrayContaining(['HttpOnly', 'SameSite=Lax', 'Max-Age=3600', 'Secure']));
+        expect(parseCookies(`theme=dark; ${cookie.split('; ')[0]}`)).toEqual({ theme: 'dark', [SESSION_COOKIE]: 'a b/c' });
+    });
+
+    it('skips values that are not valid percent-encoding', () => {
+        expect(parseCookies(`tracker=%E0%A4%A; ${SESSION_COOKIE}=abc`)).toEqual({ [SESSION_COOKIE]: 'abc' });
+    });
+});
+
+describe('auth service', () => {
+    let dir: string;
+    let filePath: string;
+    let now: number;
+    let mail: { to: string; subject: string; body: string }[];
+
+    const mailer: Mailer = { send: async (to, subject, body) => { mail.push({ to, subject, body }); } };
+
+    const createService = async () => createAuthService({
+        store: await createFileAuthStore(filePath),
+        mailer,
+        appUrl: 'https://ootd.example',
+        sessionTtlMs: 24 * HOUR_MS,
+    });
+
+    // The token in the newest email's link.
+    const linkToken = (param: string) => {
+        const match = mail.at(-1)?.body.match(new RegExp(`[?&]${param}=([\\w-]+)`));
+        if (!match) throw new Error(`No ${param} link in the last email.`);
+        return match[1];
+    };
+
+    const registerVerified = async (auth: Awaited<ReturnType<typeof createService>>) => {
+        await auth.register('Ana', 'ana@example.com', PASSWORD);
+        await auth.verifyEmail(linkToken('verifyToken'));
+    };
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'ootd-auth-'));
+        filePath = path.join(dir, 'auth.json');
+        now = Date.parse('2026-01-01T00:00:00Z');
+        mail = [];
+        vi.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('signs in only once the email address is verified', async () => {
+        const auth = await createService();
+        const user = await auth.register('  Ana ', ' Ana@Example.com', PASSWORD);
+        expect(user).toEqual({ id: expect.any(String), name: 'Ana', email: 'ana@example.com' });
+        expect(mail).toHaveLength(1);
+        expect(mail[0].to).toBe('ana@example.com');
+
+        await expect(auth.login('ana@example.com', PASSWORD)).rejects.toMatchObject({ code: 'EMAIL_NOT_VERIFIED', status: 403 });
+        await auth.verifyEmail(linkToken('verifyToken'));
+
+        const { user: signedIn, token } = await auth.login('ANA@example.com', PASSWORD);
+        expect(signedIn).toEqual(user);
+        expect(auth.getSessionUser(token)).toEqual(user);
+    });
+
+    it('gives the same answer for a wrong password and an unknown email', async () => {
+        const auth = await createService();
+        await registerVerified(auth);
+        await expect(auth.login('ana@example.com', 'wrong password')).rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid email or password.' });
+        await expect(auth.login('ben@example.com', PASSWORD)).rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'Invalid email or password.' });
+    });
+
+    it('checks a password even for an unknown email, so timing gives nothing away', async () => {
+        const auth = await createService();
+        const verify = vi.spyOn(passwords, 'verifyPassword');
+        await expect(auth.login('ben@example.com', PASSWORD)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+        expect(verify).toHaveBeenCalledWith(PASSWORD, expect.stringMatching(/^scrypt\$/));
+    });
+
+    it('refuses short passwords, bad emails and taken addresses', async () => {
+        const auth = await createService();
+        await expect(auth.register('Ana', 'ana@example.com', 'short')).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+        await expect(auth.register('Ana', 'not an email', PASSWORD)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+        await auth.register('Ana', 'ana@example.com', PASSWORD);
+        await expect(auth.register('Ana', 'ANA@example.com', PASSWORD)).rejects.toMatchObject({ code: 'CONFLICT', status: 409 });
+    });
+
+    it('stores only hashes of passwords, sessions and links', async () => {
+        const auth = await createService();
+        await auth.register('Ana', 'ana@example.com', PASSWORD);
+        const verifyToken = linkToken('verifyToken');
+        const saved = await readFile(filePath, 'utf8');
+        expect(saved).not.toContain(PASSWORD);
+        expect(saved).not.toContain(verifyToken);
+        expect(saved).toContain(hashToken(verifyToken));
+
+        await auth.verifyEmail(verifyToken);
+        const { token } = await auth.login('ana@example.com', PASSWORD);
+        expect(await readFile(filePath, 'utf8')).not.toContain(token);
+    });
+
+    it('keeps sessions across restarts until they expire or sign out', async () => {
+        const auth = await createService();
+        await registerVerified(auth);
+        const first = await auth.login('ana@example.com', PASSWORD);
+        const second = await auth.login('ana@example.com', PASSWORD);
+
+        const restarted = await createService();
+        expect(restarted.getSessionUser(first.token)).toEqual(first.user);
+
+        await restarted.logout(first.token);
+        expect(restarted.getSessionUser(first.token)).toBeNull();
+        expect(restarted.getSessionUser(second.token)).toEqual(second.user);
+
+        now += 24 * HOUR_MS;
+        expect(restarted.getSessionUser(second.token)).toBeNull();
+        expect(restarted.getSessionUser('made-up-token')).toBeNull();
+    });
+
+    it('accepts each email link once, and not after it expires', async () => {
+        const auth = await createService();
+        await auth.register('Ana', 'ana@example.com', PASSWORD);
+        const verifyToken = linkToken('verifyToken');
+        await auth.verifyEmail(verifyToken);
+        await expect(auth.verifyEmail(verifyToken)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+        await auth.requestPasswordReset('ana@example.com');
+        const resetToken = linkToken('resetToken');
+        now += HOUR_MS;
+        await expect(auth.resetPassword(resetToken, 'new password')).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('signs out everywhere when the password is reset', async () => {
+        const auth = await createService();
+        await registerVerified(auth);
+        const { token } = await auth.login('ana@example.com', PASSWORD);
+
+        await auth.requestPasswordReset('ana@example.com');
+        const olderLink = linkToken('resetToken');
+        await auth.requestPasswordReset('ana@example.com');
+        // Only the newest link works.
+        await expect(auth.resetPassword(olderLink, 'new password')).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+        await auth.resetPassword(linkToken('resetToken'), 'new password');
+
+        expect(auth.getSessionUser(token)).toBeNull();
+        await expect(auth.login('ana@example.com', PASSWORD)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+        expect((await auth.login('ana@example.com', 'new password')).user.email).toBe('ana@example.com');
+    });
+
+    it('does not reveal which addresses have accounts', async () => {
+        const auth = await createService();
+        await auth.requestPasswordReset('nobody@example.com');
+        await auth.resendVerification('nobody@example.com');
+        expect(mail).toEqual([]);
+    });
+});
@@ -0,0 +1,67 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createRecordingProvider, createReplayProvider } from '../services/providers/cassetteProvider';
+import type { EditImageRequest, GenerateImageRequest } from '../services/providers/types';
+
+const garmentImageRequest = (prompt: string): GenerateImageRequest => ({
+    operation: 'garmentImage',
+    model: 'imagen-4.0-generate-001',
+    prompt,
+    aspectRatio: '1:1',
+    outputMimeType: 'image/png',
+});
+
+describe('cassette provider', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = path.join(await mkdtemp(path.join(tmpdir(), 'cassette-')), 'test');
+    });
+
+    afterEach(async () => {
+        await rm(path.dirname(dir), { recursive: true, force: true });
+    });
+
+    it('replays recorded responses, image bytes included', async () => {
+        const recorder = await createRecordingProvider({ provider: createMockProvider(), dir });
+        const image = await recorder.generateImage(garmentImageRequest('A navy tee'));
+        const tryOn: EditImageRequest = {
+            operation: 'virtualTryOn',
+            model: 'gemini-2.5-flash-image',
+            parts: [{ inlineData: { mimeType: 'image/png', data: image } }, { text: 'Put it on.' }],
+        };
+        const tryOnImage = await recorder.editImage(tryOn);
+
+        const player = await createReplayProvider({ dir });
+        expect(await player.generateImage(garmentImageRequest('A navy tee'))).toBe(image);
+        expect(await player.editImage(tryOn)).toBe(tryOnImage);
+        expect(player.misses).toEqual([]);
+        // The garment was both received and sent, but is stored once.
+        expect(await readdir(path.join(dir, 'images'))).toHaveLength(1);
+    });
+
+    it('reports requests that were not recorded', async () => {
+        const recorder = await createRecordingProvider({ provider: createMockProvider(), dir });
+        await recorder.generateImage(garmentImageRequest('A navy tee'));
+
+        const player = await createReplayProvider({ dir });
+        await expect(player.generateImage(garmentImageRequest('A beige tee'))).rejects.toThrow(/no recorded response for garmentImage/);
+        await expect(player.generateImage({ ...garmentImageRequest('A navy tee'), aspectRatio: '3:4' })).rejects.toThrow();
+        expect(player.misses).toHaveLength(2);
+    });
+
+    it('answers a repeated request in recorded order, then repeats the last answer', async () => {
+        const recorder = await createRecordingProvider({ provider: createMockProvider(), dir });
+        const first = await recorder.generateImage(garmentImageRequest('A plain tee'));
+        const second = await recorder.generateImage(garmentImageRequest('A plain tee'));
+        expect(second).not.toBe(first);
+
+        const player = await createReplayProvider({ dir });
+        expect(await player.generateImage(garmentImageRequest('A plain tee'))).toBe(first);
+        expect(await player.generateImage(garmentImageRequest('A plain tee'))).toBe(second);
+        expect(await player.generateImage(garmentImageRequest('A plain tee'))).toBe(second);
+    });
+});
@@ -0,0 +1,30 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AIProvider } from '../services/providers/types';
+import { createGeminiProviderFromEnv } from '../services/providers/liveProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createRecordingProvider, createReplayProvider } from '../services/providers/cassetteProvider';
+
+// Tests answer model calls from cassettes in tests/cassettes. They replay by
+// default; CASSETTE_MODE=record records them again from Gemini, or from the
+// mock provider with AI_PROVIDER=mock.
+
+const CASSETTES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'cassettes');
+
+export interface TestCassette {
+    provider: AIProvider;
+    // Requests the cassette could not answer; always empty while recording.
+    misses: string[];
+}
+
+const createLiveProvider = (): AIProvider =>
+    process.env.AI_PROVIDER === 'mock' ? createMockProvider() : createGeminiProviderFromEnv('record with AI_PROVIDER=mock');
+
+export const useCassette = async (name: string): Promise<TestCassette> => {
+    const dir = path.join(CASSETTES_DIR, name);
+    if (process.env.CASSETTE_MODE === 'record') {
+        return { provider: await createRecordingProvider({ provider: createLiveProvider(), dir }), misses: [] };
+    }
+    const provider = await createReplayProvider({ dir });
+    return { provider, misses: provider.misses };
+};
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type CacheModule = typeof import('../services/generation/cache');
+
+// A 5 KB cache, so a handful of small results fill it. Entries over a quarter
+// of that (1.3 KB) aren't stored.
+const CACHE_MB = '0.005';
+
+// Imports the cache afresh, as a page reload would, against the same database.
+const loadCache = async () => {
+    vi.resetModules();
+    const cache: CacheModule = await import('../services/generation/cache');
+    const db = await import('../services/storage/indexedDb');
+    const storedValues = async () =>
+        (await db.runRequest(db.STORES.generationCache, 'readonly', store => store.getAll())).map(({ value }) => value);
+    return { ...cache, storedValues };
+};
+
+const deferred = <T,>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(done => { resolve = done; });
+    return { promise, resolve };
+};
+
+describe('generation cache', () => {
+    let cache: Awaited<ReturnType<typeof loadCache>>;
+
+    beforeEach(async () => {
+        vi.stubEnv('VITE_GENERATION_CACHE_MB', CACHE_MB);
+        // Every read and write is a distinct moment, so recency is unambiguous.
+        let clock = 0;
+        vi.spyOn(Date, 'now').mockImplementation(() => ++clock);
+        cache = await loadCache();
+        await cache.clearGenerationCache();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllEnvs();
+    });
+
+    it('shares one request between identical calls, whatever the key order', async () => {
+        // Calls only meet once their keys are hashed, so hold the result until then.
+        const digest = crypto.subtle.digest.bind(crypto.subtle);
+        let hashed = 0;
+        vi.spyOn(crypto.subtle, 'digest').mockImplementation(async (...args) => {
+            const hash = await digest(...args);
+            hashed++;
+            return hash;
+        });
+        const result = deferred<string>();
+        let runs = 0;
+        const run = () => {
+            runs++;
+            return result.promise;
+        };
+        const first = cache.withGenerationCache('garmentSpecs', { profile: { occasion: 'Travel', fit: 'regular' }, category: 'top' }, run);
+        const second = cache.withGenerationCache('garmentSpecs', { category: 'top', profile: { fit: 'regular', occasion: 'Travel' } }, run);
+        const other = cache.withGenerationCache('garmentSpecs', { category: 'bottom', profile: { fit: 'regular', occasion: 'Travel' } }, run);
+        await expect.poll(() => hashed).toBe(3);
+        result.resolve('specs');
+
+        expect(await first).toEqual({ value: 'specs', cached: false });
+        expect(await second).toEqual({ value: 'specs', cached: false });
+        await other;
+        expect(runs).toBe(2);
+    });
+
+    it('does not let a regenerate share a call that may be answered from the cache', async () => {
+        let runs = 0;
+        const run = async () => `image ${++runs}`;
+        const [cachedCall, freshCall] = await Promise.all([
+            cache.withGenerationCache('garmentImage', { spec: 'navy tee' }, run, { userId: 'ana' }),
+            cache.withGenerationCache('garmentImage', { spec: 'navy tee' }, run, { userId: 'ana', regenerate: true }),
+        ]);
+        expect(cachedCall.value).not.toBe(freshCall.value);
+        expect(runs).toBe(2);
+    });
+
+    it('aborts the shared request only once every caller has cancelled', async () => {
+        const signals: AbortSignal[] = [];
+        const run = (signal: AbortSignal) => {
+            signals.push(signal);
+            return new Promise<string>(() => {});
+        };
+        const first = new AbortController();
+        const second = new AbortController();
+        const firstCall = cache.withGenerationCache('virtualTryOn', { garment: 'abc' }, run, {}, first.signal);
+        const secondCall = cache.withGenerationCache('virtualTryOn', { garment: 'abc' }, run, {}, second.signal);
+        await expect.poll(() => signals.length).toBe(1);
+
+        first.abort();
+        await expect(firstCall).rejects.toMatchObject({ name: 'AbortError' });
+        expect(signals[0].aborted).toBe(false);
+
+        second.abort();
+        await expect(secondCall).rejects.toMatchObject({ name: 'AbortError' });
+        expect(signals[0].aborted).toBe(true);
+    });
+
+    it('turns away a caller that has already cancelled without touching the running request', async () => {
+        const signals: AbortSignal[] = [];
+        const run = (signal: AbortSignal) => {
+            signals.push(signal);
+            return new Promise<string>(() => {});
+        };
+        void cache.withGenerationCache('virtualTryOn', { garment: 'def' }, run);
+        await expect.poll(() => signals.length).toBe(1);
+
+        await expect(cache.withGenerationCache('virtualTryOn', { garment: 'def' }, run, {}, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' });
+        expect(signals).toHaveLength(1);
+        expect(signals[0].aborted).toBe(false);
+    });
+
+    it('answers a repeated call from storage, across reloads', async () => {
+        let runs = 0;
+        const run = async () => `specs ${++runs}`;
+        const inputs = { profile: { occasion: 'Work' }, category: 'top' };
+        expect(await cache.withGenerationCache('garmentSpecs', inputs, run, { userId: 'ana' })).toEqual({ value: 'specs 1', cached: false });
+        await vi.waitFor(async () => expect(await cache.storedValues()).toEqual(['specs 1']));
+
+        expect(await cache.withGenerationCache('garmentSpecs', inputs, run, { userId: 'ana' })).toEqual({ value: 'specs 1', cached: true });
+        const reloaded = await loadCache();
+        expect(await reloaded.withGenerationCache('garmentSpecs', inputs, run, { userId: 'ana' })).toEqual({ value: 'specs 1', cached: true });
+        expect(runs).toBe(1);
+    });
+
+    it('keeps results to the user they were made for, and stores nothing without one', async () => {
+        let runs = 0;
+        const run = async () => `try-on ${++runs}`;
+        const inputs = { personImage: 'hash', garmentImage: 'hash' };
+        await cache.withGenerationCache('virtualTryOn', inputs, run, { userId: 'ana' });
+        await vi.waitFor(async () => expect(await cache.storedValues()).toHaveLength(1));
+
+        expect(await cache.withGenerationCache('virtualTryOn', inputs, run, { userId: 'ben' })).toEqual({ value: 'try-on 2', cached: false });
+        expect(await cache.withGenerationCache('virtualTryOn', inputs, run)).toEqual({ value: 'try-on 3', cached: false });
+        expect(await cache.withGenerationCache('virtualTryOn', inputs, run)).toEqual({ value: 'try-on 4', cached: false });
+    });
+
+    it('stores a regenerated result over the old one', async () => {
+        let runs = 0;
+        const run = async () => `image ${++runs}`;
+        await cache.withGenerationCache('garmentImage', { spec: 'linen shirt' }, run, { userId: 'ana' });
+        await vi.waitFor(async () => expect(await cache.storedValues()).toEqual(['image 1']));
+
+        expect(await cache.withGenerationCache('garmentImage', { spec: 'linen shirt' }, run, { userId: 'ana', regenerate: true })).toEqual({ value: 'image 2', cached: false });
+        await vi.waitFor(async () => expect(await cache.storedValues()).toEqual(['image 2']));
+        expect(await cache.withGenerationCache('garmentImage', { spec: 'linen shirt' }, run, { userId: 'ana' })).toEqual({ value: 'image 2', cached: true });
+    });
+
+    it('does not store results too large for the cache', async () => {
+        let runs = 0;
+        const run = async () => 'x'.repeat(2000) + ++runs;
+        await cache.withGenerationCache('garmentImage', { spec: 'huge' }, run, { userId: 'ana' });
+        expect(await cache.withGenerationCache('garmentImage', { spec: 'huge' }, run, { userId: 'ana' })).toMatchObject({ cached: false });
+        expect(runs).toBe(2);
+        expect(await cache.storedValues()).toEqual([]);
+    });
+
+    it('drops the least recently used results once the cache is full', async () => {
+        // Four of these fit; a fifth doesn't.
+        const generate = (name: string) => cache.withGenerationCache('garmentImage', { spec: name }, async () => name.padEnd(1200, '.'), { userId: 'ana' });
+        for (const [count, name] of ['a', 'b', 'c', 'd'].entries()) {
+            await generate(name);
+            await vi.waitFor(async () => expect(await cache.storedValues()).toHaveLength(count + 1));
+        }
+        // Using "a" again makes "b" the least recently used.
+        expect(await generate('a')).toMatchObject({ cached: true });
+
+        await generate('e');
+        await vi.waitFor(async () => expect((await cache.storedValues()).map(value => (value as string)[0]).sort()).toEqual(['a', 'c', 'd', 'e']));
+    });
+
+    it('forgets everything when cleared', async () => {
+        let runs = 0;
+        const run = async () => `specs ${++runs}`;
+        await cache.withGenerationCache('garmentSpecs', { category: 'dress' }, run, { userId: 'ana' });
+        await vi.waitFor(async () => expect(await cache.storedValues()).toHaveLength(1));
+
+        await cache.clearGenerationCache();
+        expect(await cache.storedValues()).toEqual([]);
+        expect(await cache.withGenerationCache('garmentSpecs', { category: 'dress' }, run, { userId: 'ana' })).toEqual({ value: 'specs 2', cached: false });
+    });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type IndexedDbModule = typeof import('../services/storage/indexedDb');
+
+const DB_NAME = 'ai-ootd';
+
+// Opens the database as another tab would, at `version`, with `upgrade` run on upgrade.
+const openAsOtherTab = (version: number, upgrade: (db: IDBDatabase) => void = () => {}): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('blocked'));
+    });
+
+// The stores as v1 of the app created them.
+const createV1Stores = (db: IDBDatabase) => {
+    db.createObjectStore('wardrobeGarments', { keyPath: 'id' }).createIndex('userId', 'userId');
+    db.createObjectStore('wardrobeTryOns', { keyPath: 'id' }).createIndex('userId', 'userId');
+};
+
+const deleteDatabase = (): Promise<void> => new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+});
+
+describe('IndexedDB storage', () => {
+    let storage: IndexedDbModule;
+
+    beforeEach(async () => {
+        await deleteDatabase();
+        vi.resetModules();
+        storage = await import('../services/storage/indexedDb');
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        (await storage.openDatabase().catch(() => null))?.close();
+    });
+
+    it('upgrades v1 wardrobes, giving saved garments a profile', async () => {
+        const v1 = await openAsOtherTab(1, createV1Stores);
+        await new Promise(resolve => {
+            const transaction = v1.transaction('wardrobeGarments', 'readwrite');
+            transaction.objectStore('wardrobeGarments').put({ id: 'g1', userId: 'ana', preferences: { style: 'Preppy', colors: 'navy', occasion: 'Travel' } });
+            transaction.oncomplete = resolve;
+        });
+        v1.close();
+
+        const garment = await storage.runRequest(storage.STORES.wardrobeGarments, 'readonly', store => store.get('g1'));
+        expect(garment.preferences).toBeUndefined();
+        expect(garment.profile).toMatchObject({ styles: [{ name: 'Preppy', weight: 5 }], occasion: 'Travel', favoriteColors: ['navy'] });
+    });
+
+    it('rejects while an older tab blocks the upgrade, and opens once it is gone', async () => {
+        const oldTab = await openAsOtherTab(1, createV1Stores);
+        await expect(storage.openDatabase()).rejects.toThrow('Close other tabs of this app');
+
+        oldTab.close();
+        await vi.waitFor(async () => {
+            const db = await storage.openDatabase();
+            expect(db.version).toBe(3);
+        });
+    });
+
+    it('steps aside when a newer tab upgrades the database', async () => {
+        await storage.openDatabase();
+        const newTab = await openAsOtherTab(4);
+        expect(newTab.version).toBe(4);
+        newTab.close();
+        // This tab's code is now older than the database.
+        await expect(storage.openDatabase()).rejects.toMatchObject({ name: 'VersionError' });
+    });
+
+    it('tries again after IndexedDB throws on open', async () => {
+        vi.spyOn(indexedDB, 'open').mockImplementationOnce(() => {
+            throw new DOMException('IndexedDB is disabled.', 'InvalidStateError');
+        });
+        await expect(storage.openDatabase()).rejects.toThrow('IndexedDB is disabled.');
+        expect((await storage.openDatabase()).version).toBe(3);
+    });
+});
@@ -0,0 +1,50 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { buildImagePdf } from '../services/export/pdf';
+
+// Stand-ins for JPEG data; the writer embeds the bytes without reading them.
+// They include a newline and bytes that aren't valid text, as real JPEGs do.
+const jpeg = (size: number) => Uint8Array.from({ length: size }, (_, i) => (i * 37 + 10) % 256);
+
+// One character per byte, so string offsets are byte offsets.
+const readPdf = async (blob: Blob) => Buffer.from(await blob.arrayBuffer()).toString('latin1');
+
+describe('image PDF', () => {
+    it('writes one page per image, sized to it', async () => {
+        const blob = buildImagePdf([
+            { jpeg: jpeg(300), width: 1080, height: 1350 },
+            { jpeg: jpeg(120), width: 1080, height: 1080 },
+        ]);
+        expect(blob.type).toBe('application/pdf');
+
+        const pdf = await readPdf(blob);
+        expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+        expect(pdf).toContain('<< /Type /Pages /Kids [3 0 R 6 0 R] /Count 2 >>');
+        expect(pdf).toContain('/MediaBox [0 0 540 675]');
+        expect(pdf).toContain('/MediaBox [0 0 540 540]');
+        expect(pdf).toContain('/Width 1080 /Height 1350 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length 300');
+        expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    });
+
+    it('embeds each image byte for byte, at its declared length', async () => {
+        const image = jpeg(256);
+        const pdf = await readPdf(buildImagePdf([{ jpeg: image, width: 16, height: 16 }]));
+        const start = pdf.indexOf('stream\n') + 'stream\n'.length;
+        expect(pdf.slice(start, start + image.length)).toBe(Buffer.from(image).toString('latin1'));
+        expect(pdf.slice(start + image.length)).toMatch(/^\nendstream\n/);
+    });
+
+    it('points its cross-reference table at every object', async () => {
+        const pdf = await readPdf(buildImagePdf([
+            { jpeg: jpeg(500), width: 800, height: 600 },
+            { jpeg: jpeg(64), width: 1080, height: 1920 },
+        ]));
+        const xrefOffset = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+        expect(pdf.slice(xrefOffset)).toMatch(/^xref\n0 9\n0000000000 65535 f \n/);
+
+        const offsets = [...pdf.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+        expect(offsets).toHaveLength(8);
+        offsets.forEach((offset, index) => expect(pdf.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj\\n`)));
+        expect(pdf).toContain('trailer\n<< /Size 9 /Root 1 0 R >>');
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { readExifOrientation, readJpegSize } from '../services/image/format';
+import { normalizeImage } from '../services/image/normalize';
+import { checkPersonPhoto } from '../services/image/photoQuality';
+
+// jsdom can't decode images, so tests choose the size the browser decodes a
+// photo at. The photo's pixels are a sharp, evenly lit stand-in.
+const decoded = vi.hoisted(() => ({ width: 0, height: 0 }));
+
+vi.mock('../services/image/canvas', () => ({
+    decodeImage: async () => ({ source: {}, ...decoded }),
+    drawToCanvas: () => ({}),
+    canvasToBase64: () => 'encoded',
+    readGrayscale: async () => {
+        const width = 64;
+        const height = 64;
+        const pixels = Float32Array.from({ length: width * height }, (_, i) => ((i % width) + Math.floor(i / width)) % 2 ? 80 : 176);
+        return { pixels, width, height };
+    },
+}));
+
+vi.mock('../services/geminiService', () => ({
+    analyzePersonPhoto: async () => ({ personCount: 1, bodyVisibility: 'full', issue: null, faceBox: null }),
+}));
+
+// The head of a JPEG stored at `width` × `height`, with an EXIF orientation
+// tag ahead of its frame header, as cameras write them.
+const jpegHead = (width: number, height: number, orientation: number): string => {
+    const tiff = [0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0, 0, 0, 0, 0, 0, 0];
+    const exif = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+    const frame = [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1];
+    const bytes = [
+        0xff, 0xd8,
+        0xff, 0xe1, 0, exif.length + 2, ...exif,
+        0xff, 0xc0, 0, frame.length + 2, ...frame,
+        0xff, 0xda, 0, 2,
+    ];
+    return btoa(String.fromCharCode(...bytes));
+};
+
+const toFile = (base64: string) => new Blob([Uint8Array.from(atob(base64), c => c.charCodeAt(0))], { type: 'image/jpeg' });
+
+const photo = { src: 'data:image/jpeg;base64,photo', base64: 'photo', width: 1536, height: 2048 };
+
+describe('photo orientation', () => {
+    it('reads the stored size and rotation tag of a JPEG', () => {
+        const head = jpegHead(4032, 3024, 6);
+        expect(readJpegSize(head)).toEqual({ width: 4032, height: 3024 });
+        expect(readExifOrientation(head)).toBe(6);
+        expect(readJpegSize(btoa('\x89PNG\r\n\x1a\n'))).toBeNull();
+    });
+
+    it('treats a cut-off EXIF segment as upright', () => {
+        const bytes = Uint8Array.from(atob(jpegHead(4032, 3024, 6)), c => c.charCodeAt(0));
+        // Up to the EXIF marker and into the TIFF header.
+        for (const length of [14, 16, 20]) {
+            expect(readExifOrientation(btoa(String.fromCharCode(...bytes.subarray(0, length))))).toBe(1);
+        }
+    });
+
+    it('notices when the browser did not make the quarter turn a photo asks for', async () => {
+        const file = toFile(jpegHead(4032, 3024, 6));
+        Object.assign(decoded, { width: 3024, height: 4032 });
+        expect(await normalizeImage(file)).toMatchObject({ orientation: 6, orientationApplied: true });
+
+        Object.assign(decoded, { width: 4032, height: 3024 });
+        expect(await normalizeImage(file)).toMatchObject({ orientation: 6, orientationApplied: false });
+    });
+
+    it('passes photos that are upright, or were turned upright', async () => {
+        const upright = await checkPersonPhoto({ ...photo, orientation: 1, orientationApplied: true });
+        expect(upright.checks.find(check => check.id === 'orientation')).toMatchObject({ status: 'pass', message: 'Photo is upright.' });
+
+        const turned = await checkPersonPhoto({ ...photo, orientation: 6, orientationApplied: true });
+        expect(turned.checks.find(check => check.id === 'orientation')).toMatchObject({ status: 'pass' });
+    });
+
+    it('warns when the rotation tag could not be applied', async () => {
+        const { checks } = await checkPersonPhoto({ ...photo, orientation: 6, orientationApplied: false });
+        expect(checks.find(check => check.id === 'orientation')).toMatchObject({ status: 'warn', message: expect.stringContaining('on its side') });
+    });
+});
+
+describe('photo resolution', () => {
+    it('blocks photos whose shorter side is under the minimum, and says so', async () => {
+        const { checks } = await checkPersonPhoto({ ...photo, width: 200, height: 300, orientation: 1, orientationApplied: true });
+        expect(checks.find(check => check.id === 'resolution')).toEqual({
+            id: 'resolution',
+            status: 'block',
+            message: 'This photo is too small: its shorter side is 200 pixels. Please use one at least 256 pixels on its shorter side.',
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from '../services/apiErrors';
+import { createConcurrencyLimit, runWithRetry } from '../services/generation/pipeline';
+
+const RETRY = { timeoutMs: 60_000, retries: 2, baseDelayMs: 1000 };
+
+const rateLimited = (retryAfterSeconds?: number) =>
+    new ApiError('RATE_LIMITED', 'Too many requests. Please slow down.', 429, retryAfterSeconds);
+
+const deferred = <T,>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(done => { resolve = done; });
+    return { promise, resolve };
+};
+
+describe('concurrency limit', () => {
+    it('runs at most `max` tasks at once, in the order they came', async () => {
+        const limit = createConcurrencyLimit(2);
+        const tasks = [0, 1, 2, 3, 4].map(() => deferred<void>());
+        const started: number[] = [];
+        let running = 0;
+        let peak = 0;
+        const results = tasks.map(({ promise }, index) => limit(async () => {
+            started.push(index);
+            peak = Math.max(peak, ++running);
+            await promise;
+            running--;
+            return index;
+        }));
+
+        await vi.waitFor(() => expect(started).toEqual([0, 1]));
+        tasks[1].resolve();
+        await vi.waitFor(() => expect(started).toEqual([0, 1, 2]));
+        tasks.forEach(task => task.resolve());
+
+        expect(await Promise.all(results)).toEqual([0, 1, 2, 3, 4]);
+        expect(peak).toBe(2);
+    });
+
+    it('frees the slot of a task that fails', async () => {
+        const limit = createConcurrencyLimit(1);
+        await expect(limit(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+        expect(await limit(async () => 'next')).toBe('next');
+    });
+});
+
+describe('runWithRetry', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('retries rate-limited attempts with backoff, then gives up', async () => {
+        const task = vi.fn(async () => { throw rateLimited(); });
+        const result = runWithRetry(task, RETRY);
+        const settled = expect(result).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(task).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(task).toHaveBeenCalledTimes(2);
+        // The second wait doubles.
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(task).toHaveBeenCalledTimes(3);
+        await settled;
+    });
+
+    it("waits as long as the server's Retry-After asks", async () => {
+        const task = vi.fn()
+            .mockRejectedValueOnce(rateLimited(5))
+            .mockResolvedValueOnce('image');
+        const result = runWithRetry(task, RETRY);
+
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(task).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(await result).toBe('image');
+    });
+
+    it('does not retry other errors', async () => {
+        const task = vi.fn(async () => { throw new ApiError('BAD_REQUEST', 'Bad image.', 400); });
+        await expect(runWithRetry(task, RETRY)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('times out an attempt and aborts it', async () => {
+        const signals: AbortSignal[] = [];
+        const result = runWithRetry(signal => {
+            signals.push(signal);
+            return new Promise(() => {});
+        }, { ...RETRY, timeoutMs: 30_000 });
+        const settled = expect(result).rejects.toThrow('The request timed out after 30 seconds.');
+
+        await vi.advanceTimersByTimeAsync(30_000);
+        await settled;
+        expect(signals[0].aborted).toBe(true);
+    });
+
+    it('stops at once when cancelled, during an attempt or a backoff', async () => {
+        const running = new AbortController();
+        const signals: AbortSignal[] = [];
+        const attempt = runWithRetry(signal => {
+            signals.push(signal);
+            return new Promise(() => {});
+        }, { ...RETRY, signal: running.signal });
+        running.abort();
+        await expect(attempt).rejects.toMatchObject({ name: 'AbortError' });
+        expect(signals[0].aborted).toBe(true);
+
+        const waiting = new AbortController();
+        const task = vi.fn(async () => { throw rateLimited(); });
+        const backoff = runWithRetry(task, { ...RETRY, signal: waiting.signal });
+        await vi.advanceTimersByTimeAsync(500);
+        waiting.abort();
+        await expect(backoff).rejects.toMatchObject({ name: 'AbortError' });
+        expect(task).toHaveBeenCalledTimes(1);
+
+        await expect(runWithRetry(task, { ...RETRY, signal: AbortSignal.abort() })).rejects.toMatchObject({ name: 'AbortError' });
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+});
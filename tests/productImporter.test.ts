@@ -0,0 +1,210 @@
+// @vitest-environment node
+import { readFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFixtureServer } from '../server/catalog/fixtureServer';
+import { createProductImporter } from '../server/catalog/importer';
+import { parseProductFeed } from '../server/catalog/productFeed';
+import { parseProductPage } from '../server/catalog/productPage';
+import { MOCK_GARMENT_IMAGES } from '../services/providers/mockFixtures';
+
+// The importer's host check resolves names through this; tests choose the answer.
+const dns = vi.hoisted(() => ({ lookup: vi.fn() }));
+vi.mock('node:dns/promises', () => dns);
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'server', 'catalog', 'fixtures');
+const fixture = (name: string) => readFile(path.join(FIXTURES_DIR, name), 'utf8');
+
+describe('product page parser', () => {
+    it('reads a schema.org product from a JSON-LD graph, with its size chart', async () => {
+        expect(parseProductPage(await fixture('linen-shirt.html'), 'https://shop.example/linen-shirt.html')).toEqual({
+            id: 'HC-LIN-001',
+            title: 'Coastline Linen Shirt',
+            brand: 'Harbor & Co.',
+            price: { amount: 59, currency: 'USD' },
+            sizeChart: [
+                { size: 'S', measurements: { Chest: '96', Length: '70', Sleeve: '60' } },
+                { size: 'M', measurements: { Chest: '102', Length: '72', Sleeve: '62' } },
+                { size: 'L', measurements: { Chest: '108', Length: '74', Sleeve: '64' } },
+            ],
+            imageUrl: 'https://shop.example/images/tee-0.png',
+            productUrl: 'https://shop.example/linen-shirt.html',
+        });
+    });
+
+    it('falls back to Open Graph and product meta tags', async () => {
+        const product = parseProductPage(await fixture('denim-jacket.html'), 'https://shop.example/denim-jacket.html');
+        expect(product).toMatchObject({
+            title: 'Washed Denim Jacket',
+            brand: 'Northbound',
+            price: { amount: 129.9, currency: 'EUR' },
+            imageUrl: 'https://shop.example/images/tee-2.png',
+            productUrl: 'https://shop.example/denim-jacket.html',
+        });
+        expect(product?.sizeChart.map(row => row.size)).toEqual(['M', 'L']);
+    });
+
+    it('finds nothing on a page without a product', async () => {
+        expect(parseProductPage(await fixture('no-product.html'), 'https://shop.example/no-product.html')).toBeNull();
+    });
+});
+
+describe('product feed parser', () => {
+    it('reads a CSV feed, skipping entries without an image', async () => {
+        const { products, skipped } = parseProductFeed(await fixture('feed.csv'), 'csv', 'https://shop.example/feed.csv');
+        expect(skipped).toBe(1);
+        expect(products.map(product => product.title)).toEqual(['Merlot Wrap Top', 'Sandstone Oxford, Slim Fit']);
+        expect(products[0]).toMatchObject({
+            id: 'HC-101',
+            price: { amount: 39.5, currency: 'USD' },
+            sizeChart: [
+                { size: 'S', measurements: { Bust: '86 cm', Length: '58 cm' } },
+                { size: 'M', measurements: { Bust: '92 cm', Length: '60 cm' } },
+            ],
+            productUrl: 'https://shop.example/products/merlot-wrap-top',
+        });
+        expect(products[1].price).toEqual({ amount: 129, currency: 'MYR' });
+    });
+
+    it('reads a JSON feed with mixed field names', async () => {
+        const { products, skipped } = parseProductFeed(await fixture('feed.json'), 'json', 'https://shop.example/feed.json');
+        expect(skipped).toBe(1);
+        expect(products[1]).toEqual({
+            id: 'NB-TEE-011',
+            title: 'Midnight Pocket Tee',
+            brand: 'Northbound',
+            price: { amount: 26, currency: 'USD' },
+            sizeChart: [],
+            imageUrl: 'https://shop.example/images/tee-1.png',
+            productUrl: null,
+        });
+    });
+
+    it('skips relative image links when the feed has no address, and rejects broken JSON', async () => {
+        expect(parseProductFeed(await fixture('feed.json'), 'json')).toEqual({ products: [], skipped: 3 });
+        expect(() => parseProductFeed('not json', 'json')).toThrow('The product feed is not valid JSON.');
+    });
+});
+
+describe('product importer', () => {
+    let server: Server;
+    let port: number;
+    let requests: string[];
+
+    beforeAll(async () => {
+        server = createFixtureServer();
+        server.on('request', req => requests.push(req.url ?? ''));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        dns.lookup.mockReset();
+    });
+
+    describe('with private hosts allowed', () => {
+        const importer = createProductImporter({ allowPrivateHosts: true });
+        const store = () => `http://127.0.0.1:${port}`;
+
+        it('follows redirects to a product page and resolves its links', async () => {
+            const { products } = await importer.importFromUrl(`${store()}/products/linen-shirt`);
+            expect(products).toHaveLength(1);
+            expect(products[0]).toMatchObject({
+                title: 'Coastline Linen Shirt',
+                imageUrl: `${store()}/images/tee-0.png`,
+                productUrl: `${store()}/linen-shirt.html`,
+            });
+            expect(requests).toEqual(['/products/linen-shirt', '/linen-shirt.html']);
+        });
+
+        it('imports linked feeds by their content type', async () => {
+            const { products, skipped } = await importer.importFromUrl(`${store()}/feed.csv`);
+            expect(products).toHaveLength(2);
+            expect(skipped).toBe(1);
+        });
+
+        it('fetches product images', async () => {
+            expect(await importer.fetchImage(`${store()}/images/tee-0.png`)).toEqual({ mimeType: 'image/png', data: MOCK_GARMENT_IMAGES[0] });
+            await expect(importer.fetchImage(`${store()}/feed.json`)).rejects.toMatchObject({ status: 422 });
+        });
+
+        it('reports pages without a product and failed responses', async () => {
+            await expect(importer.importFromUrl(`${store()}/no-product.html`)).rejects.toMatchObject({ code: 'BAD_REQUEST', status: 422 });
+            await expect(importer.importFromUrl(`${store()}/missing.html`)).rejects.toMatchObject({ code: 'UPSTREAM_FAILED', status: 502 });
+        });
+
+        it('times out a store that stops sending the page', async () => {
+            // Sends the headers and the start of the page, then nothing more.
+            const stalled = createServer((_req, res) => {
+                res.writeHead(200, { 'Content-Type': 'text/html' });
+                res.write('<html><head>');
+            });
+            await new Promise<void>(resolve => stalled.listen(0, '127.0.0.1', resolve));
+            const { port: stalledPort } = stalled.address() as AddressInfo;
+            try {
+                const impatient = createProductImporter({ allowPrivateHosts: true, timeoutMs: 200 });
+                await expect(impatient.importFromUrl(`http://127.0.0.1:${stalledPort}/slow.html`)).rejects.toMatchObject({ code: 'TIMEOUT', status: 504 });
+            } finally {
+                stalled.closeAllConnections();
+                await new Promise(resolve => stalled.close(resolve));
+            }
+        });
+    });
+
+    describe('with private hosts blocked', () => {
+        const importer = createProductImporter({ allowPrivateHosts: false, timeoutMs: 1000 });
+
+        it.each([
+            'http://127.0.0.1/',
+            'http://10.0.0.5/',
+            'http://100.64.0.1/',
+            'http://169.254.169.254/latest/meta-data/',
+            'http://172.16.0.1/',
+            'http://192.0.0.8/',
+            'http://192.168.1.1/',
+            'http://198.18.0.1/',
+            'http://198.19.255.254/',
+            'http://224.0.0.1/',
+            'http://240.0.0.1/',
+            'http://255.255.255.255/',
+            'http://[::1]/',
+            'http://[::ffff:10.0.0.1]/',
+            'http://[::127.0.0.1]/',
+            'http://[::7f00:1]/',
+            'http://[64:ff9b::a00:1]/',
+            'http://[64:ff9b::169.254.169.254]/',
+            'http://[64:ff9b:1::1]/',
+            'http://[fd00::1]/',
+            'http://[ff02::1]/',
+        ])('refuses %s', async (url) => {
+            await expect(importer.importFromUrl(url)).rejects.toThrow('private network address');
+        });
+
+        it('refuses hosts that resolve to a private address', async () => {
+            dns.lookup.mockResolvedValue([{ address: '203.0.113.7', family: 4 }, { address: '10.1.2.3', family: 4 }]);
+            await expect(importer.importFromUrl('https://shop.example/item')).rejects.toThrow('private network address');
+            expect(dns.lookup).toHaveBeenCalledWith('shop.example', { all: true });
+        });
+
+        it('refuses links that are not http or https', async () => {
+            await expect(importer.importFromUrl('file:///etc/passwd')).rejects.toThrow('Only http and https links can be imported.');
+        });
+
+        it('connects to the address it checked, not a second DNS answer', async () => {
+            // The check sees a public address; resolving "localhost" again
+            // would reach the local store instead.
+            dns.lookup.mockResolvedValue([{ address: '203.0.113.7', family: 4 }]);
+            await expect(importer.importFromUrl(`http://localhost:${port}/linen-shirt.html`)).rejects.toThrow('Could not reach localhost');
+            expect(requests).toEqual([]);
+        });
+    });
+});
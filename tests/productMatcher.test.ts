@@ -0,0 +1,147 @@
+// @vitest-environment node
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it, vi } from 'vitest';
+import { extractAttributes, normalizeTerms } from '../server/catalog/attributes';
+import type { CatalogProduct } from '../server/catalog/catalog';
+import { embedImage } from '../server/catalog/imageEmbedding';
+import { createProductMatcher } from '../server/catalog/matcher';
+import { MOCK_GARMENT_IMAGES } from '../services/providers/mockFixtures';
+import type { RecommendationItem } from '../types';
+
+const product = (id: string, changes: Partial<CatalogProduct>): CatalogProduct => ({
+    id,
+    title: id,
+    brand: null,
+    price: null,
+    sizeChart: [],
+    imageUrl: `https://shop.example/${id}.png`,
+    productUrl: null,
+    category: 'top',
+    gender: 'Unisex',
+    colors: [],
+    fabrics: [],
+    styles: [],
+    ...changes,
+});
+
+const CATALOG = [
+    product('navy-linen', { colors: ['navy'], fabrics: ['linen'], styles: ['casual'] }),
+    product('navy-cotton', { colors: ['navy'], fabrics: ['cotton'], styles: ['classic'] }),
+    product('red-silk', { colors: ['red'], fabrics: ['silk'], styles: ['formal'], gender: 'Female' }),
+    product('navy-chinos', { colors: ['navy'], fabrics: ['linen'], category: 'bottom' }),
+    product('navy-blazer', { colors: ['navy'], fabrics: ['linen'], gender: 'Male' }),
+];
+
+const LINEN_SHIRT: RecommendationItem = {
+    itemName: 'Navy Linen Shirt',
+    styleCategory: 'Casual',
+    description: 'A relaxed linen shirt in midnight blue.',
+};
+
+// An 8-bit RGB PNG whose header claims `width` × `height`, holding `rows`
+// as its image data. The decoder doesn't check CRCs, so they are left zero.
+const png = (width: number, height: number, rows: Buffer) => {
+    const chunk = (type: string, data: Buffer) => {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(data.length);
+        return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+    };
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8;
+    header[9] = 2;
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        chunk('IHDR', header),
+        chunk('IDAT', deflateSync(rows)),
+        chunk('IEND', Buffer.alloc(0)),
+    ]).toString('base64');
+};
+
+// Rows of red pixels, each led by its filter byte.
+const redRows = (width: number, height: number) =>
+    Buffer.concat(Array.from({ length: height }, () => Buffer.from([0, ...Array.from({ length: width }, () => [200, 20, 20]).flat()])));
+
+const ids = (matches: { product: { id: string } }[]) => matches.map(match => match.product.id);
+
+describe('garment attributes', () => {
+    it('reads colors, fabrics and styles out of free text', () => {
+        expect(extractAttributes('A merlot silk slip dress for elegant evenings')).toEqual({
+            colors: ['red'],
+            fabrics: ['silk'],
+            styles: ['formal'],
+        });
+    });
+
+    it('maps catalog values onto the same terms, keeping unknown ones', () => {
+        expect(normalizeTerms(['Midnight', 'Navy', 'Chartreuse'], 'colors')).toEqual(['navy', 'chartreuse']);
+    });
+});
+
+describe('image embedding', () => {
+    it('embeds a PNG whose data matches its header', () => {
+        expect(embedImage(png(4, 4, redRows(4, 4)))).toHaveLength(64);
+    });
+
+    it('refuses headers too large to decode', () => {
+        expect(embedImage(png(5000, 5000, redRows(1, 1)))).toBeNull();
+    });
+
+    it('refuses data longer or shorter than its header says', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        // A 4 × 4 header over 4 MB of zeros stops inflating at 4 rows' worth.
+        expect(embedImage(png(4, 4, Buffer.alloc(4 * 1024 * 1024)))).toBeNull();
+        expect(embedImage(png(4, 4, redRows(4, 2)))).toBeNull();
+        vi.restoreAllMocks();
+    });
+});
+
+describe('product matcher', () => {
+    it('ranks products of the same category by shared attributes', async () => {
+        const matcher = createProductMatcher({ catalog: CATALOG });
+        const matches = await matcher.match({ item: LINEN_SHIRT, category: 'top', presentation: null, image: null }, 5);
+
+        expect(ids(matches)).toEqual(['navy-linen', 'navy-blazer', 'navy-cotton']);
+        expect(matches[0]).toMatchObject({ matchedOn: expect.arrayContaining(['navy', 'linen', 'casual']) });
+        expect(matches[2].score).toBeLessThan(matches[0].score);
+        expect(matches[0].product).not.toHaveProperty('colors');
+    });
+
+    it("shows shoppers their department's products and unisex ones", async () => {
+        const matcher = createProductMatcher({ catalog: CATALOG });
+        const query = { item: LINEN_SHIRT, category: 'top' as const, image: null };
+        expect(ids(await matcher.match({ ...query, presentation: 'womenswear' }, 5))).toEqual(['navy-linen', 'navy-cotton']);
+        expect(ids(await matcher.match({ ...query, presentation: 'menswear' }, 1))).toEqual(['navy-linen']);
+    });
+
+    it('counts a similar-looking product image, embedding the catalog once', async () => {
+        const catalog = [
+            product('beige-tee', { imageUrl: 'https://shop.example/0.png', colors: ['navy'] }),
+            product('navy-tee', { imageUrl: 'https://shop.example/1.png', colors: ['navy'] }),
+            product('broken-image', { imageUrl: 'https://shop.example/missing.png', colors: ['navy'] }),
+        ];
+        const loadImage = vi.fn(async (url: string) => {
+            const data = MOCK_GARMENT_IMAGES[Number(url.match(/(\d)\.png$/)?.[1])];
+            if (!data) throw new Error('Not found');
+            return { mimeType: 'image/png', data };
+        });
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const matcher = createProductMatcher({ catalog, loadImage });
+        const item = { itemName: 'Navy Tee', styleCategory: '', description: '' };
+
+        const matches = await matcher.match({ item, category: 'top', presentation: null, image: MOCK_GARMENT_IMAGES[1] }, 5);
+        expect(matches[0]).toMatchObject({ product: { id: 'navy-tee' }, matchedOn: ['navy', 'similar look'] });
+        expect(ids(matches)).toContain('broken-image');
+
+        await matcher.match({ item, category: 'top', presentation: null, image: MOCK_GARMENT_IMAGES[0] }, 5);
+        expect(loadImage).toHaveBeenCalledTimes(3);
+        vi.restoreAllMocks();
+    });
+
+    it('finds nothing when no attribute matches', async () => {
+        const matcher = createProductMatcher({ catalog: CATALOG });
+        const item = { itemName: 'Mustard Corduroy Overshirt', styleCategory: 'Vintage', description: '' };
+        expect(await matcher.match({ item, category: 'top', presentation: null, image: null }, 5)).toEqual([]);
+    });
+});
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { PROMPT_IDS, activePromptVersion, getPromptTemplate, renderPrompt, setPromptVersion } from '../services/prompts/registry';
+import { PROMPT_TEMPLATES } from '../services/prompts/templates';
+
+describe('prompt registry', () => {
+    afterEach(() => {
+        setPromptVersion('garmentMask', null);
+    });
+
+    it('fills every placeholder and records the version used', () => {
+        const { text, promptVersions } = renderPrompt('garmentMask', { garmentLabel: 'pair of shoes', replaces: 'footwear' });
+        expect(text).toContain('replaced with a new **pair of shoes**');
+        expect(text).toContain('where the original footwear was');
+        expect(text).not.toMatch(/\{\{\w+\}\}/);
+        expect(promptVersions).toEqual({ garmentMask: 1 });
+    });
+
+    it('refuses to render with a variable missing', () => {
+        const variables = { garmentLabel: 'pair of shoes' } as { garmentLabel: string; replaces: string };
+        expect(() => renderPrompt('garmentMask', variables)).toThrow('Prompt "garmentMask" version 1 uses {{replaces}}, which was not given.');
+    });
+
+    it('rejects versions that do not exist', () => {
+        expect(() => setPromptVersion('garmentMask', 99)).toThrow('Prompt "garmentMask" has no version 99.');
+        expect(activePromptVersion('garmentMask')).toBe(PROMPT_TEMPLATES.garmentMask.active);
+    });
+
+    it('has an existing active version for every prompt', () => {
+        for (const id of PROMPT_IDS) {
+            expect(() => getPromptTemplate(id, PROMPT_TEMPLATES[id].active)).not.toThrow();
+        }
+    });
+});
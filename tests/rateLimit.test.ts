@@ -0,0 +1,53 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from '../server/rateLimit';
+
+describe('rate limiter', () => {
+    it('lets a caller spend its full bucket, then refuses with a retry time', () => {
+        let now = 0;
+        const limiter = createRateLimiter(6, () => now);
+        for (let i = 0; i < 3; i++) limiter.consume('ip:1', 2);
+        expect(() => limiter.consume('ip:1')).toThrow(expect.objectContaining({ code: 'RATE_LIMITED', status: 429, retryAfterSeconds: 10 }));
+
+        // One token refills every 10 seconds.
+        now = 10_000;
+        limiter.consume('ip:1');
+        expect(() => limiter.consume('ip:1')).toThrow(expect.objectContaining({ code: 'RATE_LIMITED' }));
+    });
+
+    it('asks expensive calls to wait for all the tokens they need', () => {
+        const limiter = createRateLimiter(6, () => 0);
+        limiter.consume('user:ana', 5);
+        expect(() => limiter.consume('user:ana', 4)).toThrow(expect.objectContaining({ retryAfterSeconds: 30 }));
+        // A refused call takes nothing.
+        limiter.consume('user:ana', 1);
+    });
+
+    it('keeps callers apart and never refills past capacity', () => {
+        let now = 0;
+        const limiter = createRateLimiter(2, () => now);
+        limiter.consume('ip:1', 2);
+        limiter.consume('ip:2', 2);
+
+        now = 10 * 60_000;
+        limiter.consume('ip:1', 2);
+        expect(() => limiter.consume('ip:1')).toThrow(expect.objectContaining({ code: 'RATE_LIMITED' }));
+    });
+
+    it('forgets callers once their buckets have refilled', () => {
+        let now = 0;
+        const limiter = createRateLimiter(6, () => now);
+        limiter.consume('ip:1');
+        limiter.consume('ip:2', 6);
+        expect(limiter.size()).toBe(2);
+
+        now = 30_000;
+        limiter.consume('ip:3');
+        expect(limiter.size()).toBe(3);
+
+        // A minute on, the first two are full again; the third is still refilling.
+        now = 60_000;
+        limiter.consume('ip:3');
+        expect(limiter.size()).toBe(1);
+    });
+});
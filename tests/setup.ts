@@ -0,0 +1,24 @@
+// Every suite gets an empty in-memory IndexedDB, as a fresh browser profile would.
+import 'fake-indexeddb/auto';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+afterEach(() => {
+    cleanup();
+});
+
+// jsdom has no Web Audio; the wizard's sound effects play into a silent stand-in.
+// Server tests run without a window.
+const silentParam = () => ({ setValueAtTime: () => {}, exponentialRampToValueAtTime: () => {} });
+if (typeof window !== 'undefined') {
+    window.AudioContext = function () {
+        return {
+            state: 'running',
+            currentTime: 0,
+            destination: {},
+            resume: async () => {},
+            createOscillator: () => ({ type: 'sine', frequency: silentParam(), connect: () => {}, start: () => {}, stop: () => {} }),
+            createGain: () => ({ gain: silentParam(), connect: () => {} }),
+        };
+    } as unknown as typeof AudioContext;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import rawTaxonomy from '../services/taxonomy/taxonomy.json';
+import { garmentTypesFor, isSportyLook, parseTaxonomy, TAXONOMY } from '../services/taxonomy/taxonomy';
+
+// An editable copy of the shipped file, typed as loosely as a hand edit.
+const copy = () => JSON.parse(JSON.stringify(rawTaxonomy));
+
+// The message a broken copy of the taxonomy fails with.
+const problemsWith = (edit: (taxonomy: ReturnType<typeof copy>) => void): string => {
+    const taxonomy = copy();
+    edit(taxonomy);
+    try {
+        parseTaxonomy(taxonomy);
+    } catch (error) {
+        return (error as Error).message;
+    }
+    throw new Error('The taxonomy was accepted.');
+};
+
+describe('style taxonomy', () => {
+    it('loads the shipped file', () => {
+        expect(TAXONOMY.occasions.length).toBeGreaterThan(0);
+        expect(Object.keys(TAXONOMY.garments).sort()).toEqual(['accessory', 'bottom', 'dress', 'footwear', 'outerwear', 'top']);
+    });
+
+    it('lists every problem at once', () => {
+        const message = problemsWith(taxonomy => {
+            taxonomy.version = 2;
+            taxonomy.occasions[0].name = ' ';
+            delete taxonomy.garments.footwear;
+            taxonomy.colors[0].hex = 'navy';
+            taxonomy.palettes[0].colors.push('chartreuse');
+            taxonomy.styles.push({ name: taxonomy.styles[0].name.toUpperCase() });
+        });
+        expect(message.split('\n- ').slice(1)).toEqual([
+            'version must be 1, found 2.',
+            'occasions[0].name must be a non-empty string.',
+            'garments.footwear must list menswear, womenswear, unisex and fabric.',
+            'colors[0].hex must look like #a1b2c3.',
+            'palettes[0] uses "chartreuse", which is not in colors.',
+            `styles lists "${TAXONOMY.styles[0].name.toUpperCase()}" more than once.`,
+        ]);
+    });
+
+    it('rejects files that are not a taxonomy at all', () => {
+        expect(() => parseTaxonomy(null)).toThrow('taxonomy must be an object.');
+        expect(problemsWith(taxonomy => { taxonomy.styles = []; })).toContain('styles must be a non-empty array.');
+        expect(problemsWith(taxonomy => { taxonomy.occasions[0].tops = { menswear: 'shirt' }; }))
+            .toContain('occasions[0].tops.womenswear must be a non-empty string.');
+    });
+
+    it('picks garment types by occasion, falling back for custom ones', () => {
+        const officeTops = TAXONOMY.occasions.find(occasion => occasion.name === 'Office / Work')?.tops;
+        expect(garmentTypesFor('top', 'office / work')).toBe(officeTops);
+        expect(garmentTypesFor('top', 'Beach wedding')).toBe(TAXONOMY.garments.top);
+        expect(garmentTypesFor('bottom', 'Office / Work')).toBe(TAXONOMY.garments.bottom);
+    });
+
+    it('treats sporty occasions and styles as sporty looks', () => {
+        expect(isSportyLook('Workout / Gym', 'Preppy')).toBe(true);
+        expect(isSportyLook('Weekend Outing', 'athleisure')).toBe(true);
+        expect(isSportyLook('Weekend Outing', 'Preppy')).toBe(false);
+    });
+});
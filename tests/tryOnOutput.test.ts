@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { processTryOnOutput, toOriginalSize } from '../services/image/tryOnOutput';
+
+// jsdom has no canvas, so images and canvases are stand-ins that only know
+// their size. Encoding a canvas gives back that size.
+
+const images = vi.hoisted(() => new Map<string, { width: number; height: number }>());
+
+vi.mock('../services/image/canvas', () => {
+    const createCanvas = (width: number, height: number) => {
+        const context = {
+            fillStyle: '',
+            globalCompositeOperation: 'source-over',
+            fillRect: () => {},
+            drawImage: () => {},
+            putImageData: () => {},
+            getImageData: (_x: number, _y: number, w: number, h: number) => ({ data: new Uint8ClampedArray(w * h * 4) }),
+        };
+        return { width, height, getContext: () => context };
+    };
+    return {
+        createCanvas,
+        drawToCanvas: (_source: unknown, _sx: number, _sy: number, _sw: number, _sh: number, width: number, height: number) => createCanvas(width, height),
+        canvasToBase64: (canvas: { width: number; height: number }) => `${canvas.width}x${canvas.height}`,
+        loadImage: async (src: string) => {
+            const size = images.get(src);
+            if (!size) throw new Error(`No stand-in for ${src}`);
+            return { naturalWidth: size.width, naturalHeight: size.height };
+        },
+    };
+});
+
+// A 2048 × 1536 photo, sent and shown as its 1536 × 1152 downscale.
+const PHOTO = { width: 2048, height: 1536 };
+const PREVIEW = 'data:image/jpeg;base64,preview';
+images.set(PREVIEW, { width: 1536, height: 1152 });
+
+const modelResult = (name: string, width: number, height: number) => {
+    images.set(`data:image/png;base64,${name}`, { width, height });
+    return name;
+};
+
+describe('processTryOnOutput', () => {
+    it('keeps a result at the size the photo was sent', async () => {
+        const result = modelResult('sent-size', 1536, 1152);
+        const output = await processTryOnOutput({ original: PREVIEW, ...PHOTO, result });
+        expect(output.image).toBe(result);
+    });
+
+    it('brings full-size and differently shaped results down to the sent size', async () => {
+        const fullSize = await processTryOnOutput({ original: PREVIEW, ...PHOTO, result: modelResult('full-size', PHOTO.width, PHOTO.height) });
+        expect(fullSize.review.resize).toBe('none');
+        expect(fullSize.image).toBe('1536x1152');
+
+        const scaled = await processTryOnOutput({ original: PREVIEW, ...PHOTO, result: modelResult('small', 1024, 768) });
+        expect(scaled.review.resize).toBe('scaled');
+        expect(scaled.image).toBe('1536x1152');
+
+        const letterboxed = await processTryOnOutput({ original: PREVIEW, ...PHOTO, result: modelResult('square', 1024, 1024) });
+        expect(letterboxed.review.resize).toBe('letterboxed');
+        expect(letterboxed.image).toBe('1536x1152');
+    });
+
+    it('restores the photo around the garment at the sent size', async () => {
+        const mask = modelResult('mask', PHOTO.width, PHOTO.height);
+        const output = await processTryOnOutput({ original: PREVIEW, ...PHOTO, result: modelResult('redrawn', PHOTO.width, PHOTO.height), mask });
+        expect(output.review).toMatchObject({ resize: 'none', composited: true });
+        expect(output.image).toBe('1536x1152');
+    });
+});
+
+describe('toOriginalSize', () => {
+    it('scales a result up to the original photo for download', async () => {
+        expect(await toOriginalSize(modelResult('kept', 1536, 1152), PHOTO.width, PHOTO.height)).toBe('2048x1536');
+        const fullSize = modelResult('already-full', PHOTO.width, PHOTO.height);
+        expect(await toOriginalSize(fullSize, PHOTO.width, PHOTO.height)).toBe(fullSize);
+    });
+});
@@ -0,0 +1,101 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import VirtualTryOn from '../components/VirtualTryOn';
+import { readPngSize } from '../services/image/format';
+import { setProvider } from '../services/providers';
+import { useCassette } from './cassettes';
+import type { TestCassette } from './cassettes';
+
+// jsdom can't decode or draw images, so the pixel work around the model calls
+// is faked here: uploads pass through unchanged, the photo reads as evenly lit
+// and in focus, and try-on results are used as returned. Every model call
+// goes through the cassette.
+
+// jsdom's Blob has no arrayBuffer().
+const readBytes = (file: Blob): Promise<Buffer> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(Buffer.from(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+});
+
+vi.mock('../services/image/normalize', async importOriginal => ({
+    ...await importOriginal<typeof import('../services/image/normalize')>(),
+    normalizeImage: async (file: Blob) => {
+        const base64 = (await readBytes(file)).toString('base64');
+        const { width, height } = readPngSize(base64)!;
+        return { base64, mimeType: 'image/png', width, height, originalWidth: width, originalHeight: height, orientation: 1, orientationApplied: true };
+    },
+}));
+
+vi.mock('../services/image/canvas', async importOriginal => ({
+    ...await importOriginal<typeof import('../services/image/canvas')>(),
+    readGrayscale: async (_src: string, maxDimension: number) => ({
+        pixels: Float32Array.from({ length: maxDimension * maxDimension }, (_, i) => (i % 2 ? 100 : 160)),
+        width: maxDimension,
+        height: maxDimension,
+    }),
+}));
+
+vi.mock('../services/image/tryOnOutput', () => ({
+    processTryOnOutput: async ({ result }: { result: string }) => ({
+        image: result,
+        review: { resize: 'none', composited: false, drift: { identity: 0, background: 0 }, alterations: [] },
+    }),
+}));
+
+// Catalog matches come from the backend, which these tests don't run.
+vi.mock('../services/productClient', async importOriginal => ({
+    ...await importOriginal<typeof import('../services/productClient')>(),
+    matchProducts: async () => [],
+}));
+
+const PERSON_PHOTO = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'person.png');
+// Model calls chain through several steps, each waiting on the last.
+const STEP_TIMEOUT = { timeout: 5000 };
+
+describe('VirtualTryOn', () => {
+    let cassette: TestCassette;
+
+    beforeEach(async () => {
+        cassette = await useCassette('tryOnWizard');
+        setProvider(cassette.provider);
+    });
+
+    afterEach(() => {
+        setProvider(null);
+    });
+
+    it('walks from the person photo to a try-on result', async () => {
+        const user = userEvent.setup();
+        const { container } = render(<VirtualTryOn userId="test-user" />);
+
+        // UPLOAD_PERSON: the photo is checked before it can be used.
+        const photo = new File([await readFile(PERSON_PHOTO)], 'person.png', { type: 'image/png' });
+        await user.upload(container.querySelector<HTMLInputElement>('input[type="file"]')!, photo);
+        await screen.findByText('Review Your Photo');
+        await screen.findByText('One person found.', {}, STEP_TIMEOUT);
+        await user.click(screen.getByRole('button', { name: /continue/i }));
+
+        // SET_PREFERENCES: take the presentation suggested from the photo.
+        await user.click(await screen.findByRole('button', { name: /suggest from my photo/i }));
+        await user.click(await screen.findByRole('button', { name: 'Use it' }, STEP_TIMEOUT));
+        await user.click(screen.getByRole('button', { name: /generate outfits/i }));
+
+        // GENERATING_GARMENTS, then CHOOSE_GARMENT once every image is in.
+        await screen.findByText('Step 3: Choose Your Favorite Piece', {}, STEP_TIMEOUT);
+        await waitFor(() => expect(screen.getAllByRole('img', { name: /^Option \d$/ })).toHaveLength(3), STEP_TIMEOUT);
+        await user.click(screen.getByRole('img', { name: 'Option 1' }));
+        await user.click(screen.getByRole('button', { name: /try it on/i }));
+
+        // SHOW_RESULT, with the stylist's comparison.
+        await screen.findByRole('button', { name: /try another garment/i }, STEP_TIMEOUT);
+        await waitFor(() => expect(container.querySelector('p.italic')?.textContent).toBeTruthy(), STEP_TIMEOUT);
+        expect(cassette.misses).toEqual([]);
+    });
+});
@@ -1,6 +1,39 @@
+// Chat messages mix text with inline images, e.g. a try-on result the user
+// asks about.
+export type ChatPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
 export interface ChatMessage {
   role: 'user' | 'model';
-  parts: { text: string }[];
+  parts: ChatPart[];
+}
+
+export type TryOnStep = 'UPLOAD_PERSON' | 'SET_PREFERENCES' | 'GENERATING_GARMENTS' | 'CHOOSE_GARMENT' | 'SHOW_RESULT';
+
+// What the try-on wizard is showing, sent along with each chat message so the
+// stylist can talk about it.
+export interface StylistContext {
+  step: TryOnStep;
+  profile: StyleProfile;
+  garmentCategory: GarmentCategory;
+  // Recommended garments in the order they are shown.
+  garments: (RecommendationItem | null)[];
+  // Index into `garments`, or null when the selected garment is uploaded/saved or nothing is selected.
+  selectedGarment: number | null;
+  hasSelection: boolean;
+  hasResult: boolean;
+  outfitLayers: number;
+}
+
+// Something the stylist asks the wizard to do on the user's behalf.
+export type StylistAction =
+  | { type: 'regenerateGarments'; profile: Partial<StyleProfile>; category?: GarmentCategory }
+  | { type: 'selectGarment'; index: number }
+  | { type: 'tryOn' };
+
+export type StylistChatEvent = { type: 'text'; text: string } | { type: 'action'; action: StylistAction };
+
+export interface StylistChat {
+  sendMessageStream: (message: ChatPart[], context: StylistContext | null) => AsyncIterable<StylistChatEvent>;
 }
 
 // Add RecommendationItem interface for style advisor.
@@ -10,9 +43,218 @@ export interface RecommendationItem {
   description: string;
 }
 
+// The structured design of one generated garment. It is written before the
+// image and drives the image prompt.
+export interface GarmentSpec extends RecommendationItem {
+  // Main color first.
+  colors: string[];
+  fabric: string;
+  cut: string;
+  // The prompt that wrote it. Missing on specs from older saves or the stylist chat.
+  promptVersions?: PromptVersions;
+}
+
+// Which version of each registered prompt went into a result, e.g.
+// { garmentSpecs: 1, garmentImage: 1, virtualTryOn: 2 }.
+export type PromptVersions = Record<string, number>;
+
+export interface GeneratedImage {
+  image: string;
+  promptVersions: PromptVersions;
+  // True when an earlier, identical request's image was reused.
+  cached?: boolean;
+}
+
+export interface GeneratedText {
+  text: string;
+  promptVersions: PromptVersions;
+}
+
+export interface GarmentRecommendation {
+  spec: GarmentSpec;
+  image: string;
+  // Both the spec's prompt and the image's.
+  promptVersions: PromptVersions;
+}
+
 export interface VirtualTryOnParams {
   personImage: string;
   garmentImage: string;
   width: number;
   height: number;
+  // Which part of the outfit the garment replaces; defaults to 'top'.
+  garmentCategory?: GarmentCategory;
+}
+
+export interface GarmentMaskParams {
+  personImage: string;
+  tryOnImage: string;
+  garmentCategory?: GarmentCategory;
+}
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// Which store departments garments are designed from. Chosen by the user, never inferred.
+export type StylePresentation = 'menswear' | 'womenswear' | 'unisex' | 'mixed';
+
+export type FitPreference = 'slim' | 'regular' | 'relaxed' | 'oversized';
+
+export type Climate = 'hot' | 'mild' | 'cold' | 'rainy';
+
+export type ModestyConstraint = 'coveredShoulders' | 'longSleeves' | 'kneeLength' | 'highNeckline' | 'looseFit' | 'opaque';
+
+// All in centimetres; null when the user hasn't given it.
+export interface BodyMeasurements {
+  height: number | null;
+  chest: number | null;
+  waist: number | null;
+  hips: number | null;
+}
+
+// Weights are relative: only their ratio to the other styles matters.
+export interface WeightedStyle {
+  name: string;
+  weight: number;
+}
+
+export interface BudgetRange {
+  min: number | null;
+  max: number | null;
+  currency: string;
+}
+
+// What the user likes to wear. Drives garment generation and the stylist.
+export interface StyleProfile {
+  // Null until the user picks one.
+  presentation: StylePresentation | null;
+  styles: WeightedStyle[];
+  occasion: string;
+  favoriteColors: string[];
+  avoidedColors: string[];
+  fit: FitPreference;
+  measurements: BodyMeasurements;
+  budget: BudgetRange;
+  climate: Climate | null;
+  modesty: ModestyConstraint[];
+  brands: string[];
+}
+
+export interface StoredImage {
+  base64: string;
+  // Missing on photos saved before the type was recorded, which are JPEG.
+  mimeType?: string;
+  width: number;
+  height: number;
+}
+
+export interface WardrobeGarment {
+  id: string;
+  userId: string;
+  image: string;
+  details: RecommendationItem | null;
+  category?: GarmentCategory;
+  profile: StyleProfile;
+  // Missing on uploaded garments and ones saved before prompts were versioned.
+  promptVersions?: PromptVersions;
+  tags: string[];
+  createdAt: number;
+}
+
+export interface WardrobeTryOn {
+  id: string;
+  userId: string;
+  garmentImage: string;
+  garmentDetails: RecommendationItem | null;
+  garmentCategory?: GarmentCategory;
+  beforeImage: StoredImage;
+  afterImage: string;
+  comparisonText: string | null;
+  // Missing on try-ons saved before prompts were versioned.
+  promptVersions?: PromptVersions;
+  tags: string[];
+  createdAt: number;
+}
+
+export type GarmentCategory = 'top' | 'bottom' | 'dress' | 'outerwear' | 'footwear' | 'accessory';
+
+// One garment applied while building an outfit. Each layer's result is the
+// person photo the next garment is tried on over.
+export interface OutfitLayer {
+  garmentImage: string;
+  garmentDetails: RecommendationItem | null;
+  garmentCategory: GarmentCategory;
+  resultImage: string;
+}
+
+// Normalized to the image size (0-1), origin top-left.
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GarmentAnalysis {
+  garmentCount: number;
+  isSingleGarment: boolean;
+  category: GarmentCategory;
+  boundingBox: BoundingBox | null;
+  // Why the photo can't be used as-is, e.g. "Two items are visible".
+  issue: string | null;
+}
+
+// How much of the person a photo shows.
+export type BodyVisibility = 'full' | 'upper' | 'partial' | 'none';
+
+export interface PersonPhotoAnalysis {
+  personCount: number;
+  bodyVisibility: BodyVisibility;
+  // The face and hair, as fractions of the image; null when no face is visible.
+  faceBox: BoundingBox | null;
+  // One actionable tip when the photo is hard to use, e.g. "Step back so your torso is visible".
+  issue: string | null;
+}
+
+export interface ProductPrice {
+  amount: number;
+  currency: string;
+}
+
+// One row of a size chart, e.g. { size: 'M', measurements: { Chest: '98 cm' } }.
+export interface SizeChartRow {
+  size: string;
+  measurements: Record<string, string>;
+}
+
+// A product imported from a store page or feed. imageUrl is the main product
+// image; fetch it through the API to use the product as a try-on garment.
+export interface Product {
+  id: string;
+  title: string;
+  brand: string | null;
+  price: ProductPrice | null;
+  sizeChart: SizeChartRow[];
+  imageUrl: string;
+  productUrl: string | null;
+}
+
+// A catalog product suggested for a recommended garment, best match first.
+export interface ProductMatch {
+  product: Product;
+  // 0-1, higher is closer.
+  score: number;
+  // Attributes shared with the garment, e.g. ['navy', 'linen'].
+  matchedOn: string[];
+}
+
+export type ProductFeedFormat = 'json' | 'csv';
+
+export interface ProductImportResult {
+  products: Product[];
+  // Entries without a title or a usable image URL.
+  skipped: number;
 }